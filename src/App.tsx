@@ -10,11 +10,23 @@ import {
 import SortableTable, { Column as TableColumn } from "./SortableTable";
 import Dashboard from "./components/Dashboard";
 import StockSidebar, { SidebarItem } from "./components/StockSidebar";
+import ImportReview from "./components/ImportReview";
+import ParserDiagnostics, { FileDiagnostics } from "./components/ParserDiagnostics";
+import AccountSelector from "./components/AccountSelector";
+import AccountLabels from "./components/AccountLabels";
+import CashLedger from "./components/CashLedger";
+import RefreshStatus from "./components/RefreshStatus";
 import { usePortfolio } from "./hooks/usePortfolio";
-import { IBI_COLUMNS, RawRow, RealizedRound } from "./types";
+import { useAutoRefresh } from "./hooks/useAutoRefresh";
+import { CorporateAction, DEFAULT_ACCOUNT, IBI_COLUMNS, RawRow, RealizedRound, TradeCurrency } from "./types";
 import { exportToExcel } from "./utils/exportExcel";
-import { formatNumber, formatSignedUsd } from "./utils/format";
+import { formatMoney, formatNumber, formatSignedUsd } from "./utils/format";
+import { currencyFor, isTaseSecurity, tradeSide } from "./utils/securities";
+import { marketsFor } from "./utils/marketHours";
+import { splitFactor } from "./utils/corporateActions";
+import { resolveSymbol, symbolNames, type TickerAliasMap } from "./utils/aliases";
 import { formatDateLabel, parseDateToTimestamp, parseDateYear } from "./utils/dates";
+import { isStockSymbol, type ParsedWorkbook } from "./utils/ibiParser";
 import {
   CachedUpload,
   clearCachedUpload,
@@ -22,20 +34,52 @@ import {
   readCachedUpload,
   saveCachedUpload,
 } from "./utils/uploadStorage";
+import {
+  accountNames,
+  countRowsPerFile,
+  describeDuplicates,
+  EMPTY_DATASET,
+  ImportFile,
+  MergedDataset,
+  mergeImportFiles,
+  MergeResult,
+  removeImportFile,
+  renameAccount,
+  resolveMerge,
+  rowAccounts,
+} from "./utils/importMerge";
 
 const StockDetail = lazy(() => import("./StockDetail"));
 const ClosedPositionDetail = lazy(() => import("./ClosedPositionDetail"));
 const Analytics = lazy(() => import("./components/Analytics"));
+const Dividends = lazy(() => import("./components/Dividends"));
 const PriceAlerts = lazy(() => import("./components/PriceAlerts"));
 
 const columns = IBI_COLUMNS;
 type Row = RawRow;
 
-const parseXlsxBuffer = async (buffer: ArrayBuffer): Promise<Row[]> => {
+const parseXlsxBuffer = async (buffer: ArrayBuffer): Promise<ParsedWorkbook> => {
   const { parseArrayBuffer } = await import("./utils/ibiParser");
   return parseArrayBuffer(buffer);
 };
 
+// Share-count change a raw row makes to its own symbol, in post-split shares.
+// ILS buys/sells only count for TASE security numbers (elsewhere they are cash
+// conversions); split rows are covered by the split factor instead. Renamed
+// tickers count under their current symbol.
+const rowShareDelta = (row: Row, corporateActions: CorporateAction[], aliases: TickerAliasMap): number => {
+  const actionType = row["סוג פעולה"].trim();
+  const amount = parseFloat(row["כמות"].trim()) || 0;
+  const symbol = resolveSymbol(row["מס' נייר / סימבול"].trim(), aliases);
+  const side = tradeSide(actionType, symbol);
+  if (!side) return 0;
+  const factor = splitFactor(corporateActions, symbol, parseDateToTimestamp(row["תאריך"]));
+  return (side === "buy" ? amount : -amount) * factor;
+};
+
+const rowCurrency = (row: unknown): TradeCurrency =>
+  (row as Record<string, unknown>)._currency === "ILS" ? "ILS" : "USD";
+
 const TradeGantt = ({ rounds }: { rounds: RealizedRound[] }) => {
   const ordered = useMemo(
     () => [...rounds].sort((a, b) => a.firstTimestamp - b.firstTimestamp),
@@ -154,6 +198,7 @@ type ImportHistoryEntry = {
   createdAt: number;
   fileNames: string[];
   rowCount: number;
+  duplicateCount?: number;
 };
 
 const readImportHistory = (): ImportHistoryEntry[] => {
@@ -192,7 +237,7 @@ const getBootCachedPortfolio = (): CachedUpload | null => {
 };
 
 const App = () => {
-  const [rows, setRows] = useState<Row[]>(() => getBootCachedPortfolio()?.rows ?? []);
+  const [datasetRows, setDatasetRows] = useState<Row[]>(() => getBootCachedPortfolio()?.rows ?? []);
   const [status, setStatus] = useState<string>(() => {
     const cached = getBootCachedPortfolio();
     return cached ? `נטענו ${cached.rows.length} שורות מהזיכרון המקומי.` : "העלו קבצי XLSX כדי להתחיל.";
@@ -212,6 +257,7 @@ const App = () => {
     "analytics",
     "table",
     "alerts",
+    "dividends",
   ] as const;
   type TabName = (typeof TAB_NAMES)[number];
 
@@ -242,6 +288,16 @@ const App = () => {
     return v === "active" || v === "closed" ? v : null;
   });
   const [fileNames, setFileNames] = useState<string[]>(() => getBootCachedPortfolio()?.fileNames ?? []);
+  const [rowFiles, setRowFiles] = useState<number[][]>(() => getBootCachedPortfolio()?.rowFiles ?? []);
+  const [fileAccounts, setFileAccounts] = useState<string[]>(() => getBootCachedPortfolio()?.fileAccounts ?? []);
+  // Label given to the next uploaded files.
+  const [uploadAccount, setUploadAccount] = useState<string>(
+    () => getBootCachedPortfolio()?.fileAccounts.slice(-1)[0] ?? DEFAULT_ACCOUNT
+  );
+  // null shows every account consolidated.
+  const [selectedAccount, setSelectedAccount] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("account")
+  );
   const [cacheExpiresAt, setCacheExpiresAt] = useState<number | null>(
     () => getBootCachedPortfolio()?.expiresAt ?? null
   );
@@ -251,6 +307,11 @@ const App = () => {
   const [ageReference, setAgeReference] = useState(Date.now);
   const [importHistory, setImportHistory] = useState<ImportHistoryEntry[]>(readImportHistory);
   const [isDragging, setIsDragging] = useState(false);
+  // A parsed upload whose near-duplicate rows are waiting for review.
+  const [parseReports, setParseReports] = useState<FileDiagnostics[] | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileNames: string[]; merge: MergeResult } | null>(
+    null
+  );
 
   // Keep the open stock / past-trade page in the URL so a refresh restores it.
   useEffect(() => {
@@ -282,30 +343,56 @@ const App = () => {
     setDetailView(null);
   }, []);
 
+  const dataset: MergedDataset = useMemo(
+    () => ({ fileNames, fileAccounts, rows: datasetRows, rowFiles }),
+    [fileNames, fileAccounts, datasetRows, rowFiles]
+  );
+  const accounts = useMemo(() => accountNames(dataset), [dataset]);
+  const activeAccount = selectedAccount !== null && accounts.includes(selectedAccount) ? selectedAccount : null;
+
+  const handleAccountChange = (account: string | null) => {
+    setSelectedAccount(account);
+    const params = new URLSearchParams(window.location.search);
+    if (account === null) params.delete("account");
+    else params.set("account", account);
+    window.history.replaceState(null, "", `?${params.toString()}`);
+  };
+
+  // Every tab works on the selected account's rows; positions and rounds are
+  // still matched per account in the consolidated view.
+  const { rows, rowAccountLabels, rowSourceFiles } = useMemo(() => {
+    const labels = rowAccounts(dataset);
+    const sources = dataset.rowFiles.map((files) => files[0]);
+    if (activeAccount === null) return { rows: dataset.rows, rowAccountLabels: labels, rowSourceFiles: sources };
+    const keep = labels.map((label) => label === activeAccount);
+    return {
+      rows: dataset.rows.filter((_, i) => keep[i]),
+      rowAccountLabels: labels.filter((_, i) => keep[i]),
+      rowSourceFiles: sources.filter((_, i) => keep[i]),
+    };
+  }, [dataset, activeAccount]);
+
   const rowCount = useMemo(() => rows.length, [rows]);
+  const rowsPerFile = useMemo(() => countRowsPerFile(dataset), [dataset]);
 
-  const portfolio = usePortfolio(rows);
+  const portfolio = usePortfolio(rows, rowAccountLabels, rowSourceFiles);
+  const markets = useMemo(() => marketsFor(portfolio.positions), [portfolio.positions]);
+  const autoRefresh = useAutoRefresh(portfolio.refreshPrices, markets);
 
   const closedTickersSet = useMemo(() => {
     const quantities = new Map<string, number>();
     rows.forEach((row) => {
-      const sym = row["מס' נייר / סימבול"].trim();
-      const actionType = row["סוג פעולה"].trim();
-      if (!sym || /^\d+$/.test(sym)) return;
-      const amount = parseFloat(row["כמות"].trim()) || 0;
-      const current = quantities.get(sym) ?? 0;
-      if (actionType === "קניה חול מטח" || actionType === "הטבה") {
-        quantities.set(sym, current + amount);
-      } else if (actionType === "מכירה חול מטח") {
-        quantities.set(sym, current - amount);
-      }
+      const sym = resolveSymbol(row["מס' נייר / סימבול"].trim(), portfolio.tickerAliases);
+      if (!isStockSymbol(sym)) return;
+      const delta = rowShareDelta(row, portfolio.corporateActions, portfolio.tickerAliases);
+      quantities.set(sym, (quantities.get(sym) ?? 0) + delta);
     });
     const closed = new Set<string>();
     quantities.forEach((qty, sym) => {
       if (Math.abs(qty) < 0.01) closed.add(sym);
     });
     return closed;
-  }, [rows]);
+  }, [rows, portfolio.corporateActions, portfolio.tickerAliases]);
 
   // Tickers that have at least one fully-closed (buy→sell-to-zero) round. This
   // is a superset of `closedTickersSet`: it also catches tickers that were sold
@@ -315,39 +402,24 @@ const App = () => {
     () => new Set(portfolio.realizedRounds.map((r) => r.symbol)),
     [portfolio.realizedRounds]
   );
-  const uniqueSymbols = useMemo(() => {
-    const symbols = new Set<string>();
-    rows.forEach((row) => {
-      const value = row["מס' נייר / סימבול"].trim();
-      if (value && !/^\d+$/.test(value)) {
-        symbols.add(value);
-      }
-    });
-    return Array.from(symbols).sort((a, b) => a.localeCompare(b));
-  }, [rows]);
+  const uniqueSymbols = portfolio.symbols;
 
   const stocksTableData = useMemo(() => {
     const allStocks = uniqueSymbols.map((symbol) => {
+      const names = symbolNames(symbol, portfolio.tickerAliases);
       let quantity = 0;
       let totalFees = 0;
       let totalDividends = 0;
       let totalTaxes = 0;
       
       rows.forEach((row) => {
-        const ticker = row["מס' נייר / סימבול"].trim();
+        const ticker = resolveSymbol(row["מס' נייר / סימבול"].trim(), portfolio.tickerAliases);
         const actionType = row["סוג פעולה"].trim();
         const stockName = row["שם נייר"].trim();
         
         // Calculate quantity for this ticker
         if (ticker === symbol) {
-          const amountStr = row["כמות"].trim();
-          const amount = parseFloat(amountStr) || 0;
-          
-          if (actionType === "קניה חול מטח" || actionType === "הטבה") {
-            quantity += amount;
-          } else if (actionType === "מכירה חול מטח") {
-            quantity -= amount;
-          }
+          quantity += rowShareDelta(row, portfolio.corporateActions, portfolio.tickerAliases);
           
           // Sum transaction fees
           const feeStr = row["עמלת פעולה"].trim();
@@ -356,14 +428,14 @@ const App = () => {
         }
         
         // Calculate dividends - check if stock name contains the ticker symbol
-        if (actionType === "הפקדה דיבידנד מטח" && stockName.includes(symbol)) {
+        if (actionType === "הפקדה דיבידנד מטח" && names.some((name) => stockName.includes(name))) {
           const dividendStr = row["כמות"].trim();
           const dividend = parseFloat(dividendStr) || 0;
           totalDividends += Math.abs(dividend);
         }
         
         // Calculate taxes - check if stock name contains the ticker symbol
-        if (actionType === "משיכת מס חול מטח" && stockName.includes(symbol)) {
+        if (actionType === "משיכת מס חול מטח" && names.some((name) => stockName.includes(name))) {
           const taxStr = row["כמות"].trim();
           const tax = parseFloat(taxStr) || 0;
           totalTaxes += Math.abs(tax);
@@ -373,7 +445,7 @@ const App = () => {
       return { 
         TICKER: symbol,
         "כמות במניה": quantity.toFixed(2),
-        'סה"כ עמלות': `${totalFees.toFixed(2)}$`,
+        'סה"כ עמלות': `${totalFees.toFixed(2)}${isTaseSecurity(symbol) ? "₪" : "$"}`,
         'סה"כ דיבידנד': `${totalDividends.toFixed(2)}$`,
         'סה"כ מס': `${totalTaxes.toFixed(2)}$`,
         _rawQuantity: quantity,
@@ -387,16 +459,34 @@ const App = () => {
     return allStocks.map((stock) => {
       const pos = portfolio.positions.find((p) => p.symbol === stock.TICKER);
       const livePrice = portfolio.livePrices.get(stock.TICKER);
+      // Prices stay in the holding's own currency (ILS for TASE securities).
+      const currency = currencyFor(stock.TICKER);
+      const avgCost =
+        currency === "ILS" && pos?.nativeCostBasis !== undefined
+          ? pos.nativeCostBasis / pos.quantity
+          : pos?.avgCost ?? 0;
+      // A manual price overrides the quote in the valuation, so show that one.
+      const manualPrice =
+        pos?.priceSource === "manual" ? (currency === "ILS" ? pos.nativeCurrentPrice : pos.currentPrice) : undefined;
       return {
         ...stock,
-        avgCost: pos?.avgCost ?? 0,
-        currentPrice: livePrice?.price ?? 0,
+        _currency: currency,
+        _manualPrice: manualPrice !== undefined,
+        avgCost,
+        currentPrice: manualPrice ?? livePrice?.price ?? 0,
         unrealizedPnLPercent: pos?.unrealizedPnLPercent ?? null,
         fiftyTwoWeekHigh: livePrice?.fiftyTwoWeekHigh ?? 0,
         fiftyTwoWeekLow: livePrice?.fiftyTwoWeekLow ?? 0,
       };
     });
-  }, [uniqueSymbols, rows, portfolio.positions, portfolio.livePrices]);
+  }, [
+    uniqueSymbols,
+    rows,
+    portfolio.positions,
+    portfolio.livePrices,
+    portfolio.corporateActions,
+    portfolio.tickerAliases,
+  ]);
 
   // Split holdings: active (still holds shares) vs. past trades. A re-bought
   // ticker appears in BOTH — active for its current holding, and past for the
@@ -421,42 +511,41 @@ const App = () => {
     () => new Set(activeStocksData.map((stock) => stock.TICKER)),
     [activeStocksData]
   );
+  const closedTickerRounds = useMemo(
+    () => portfolio.realizedRounds.filter((round) => round.symbol === selectedTicker),
+    [portfolio.realizedRounds, selectedTicker]
+  );
 
   const stocksSummary = useMemo(() => {
     // Calculate summary from all stocks (before filtering)
     const allStocksData = uniqueSymbols.map((symbol) => {
+      const feeRate = isTaseSecurity(symbol) ? portfolio.usdIlsRate : 1;
+      const names = symbolNames(symbol, portfolio.tickerAliases);
       let quantity = 0;
       let totalFees = 0;
       let totalDividends = 0;
       let totalTaxes = 0;
       
       rows.forEach((row) => {
-        const ticker = row["מס' נייר / סימבול"].trim();
+        const ticker = resolveSymbol(row["מס' נייר / סימבול"].trim(), portfolio.tickerAliases);
         const actionType = row["סוג פעולה"].trim();
         const stockName = row["שם נייר"].trim();
         
         if (ticker === symbol) {
-          const amountStr = row["כמות"].trim();
-          const amount = parseFloat(amountStr) || 0;
-          
-          if (actionType === "קניה חול מטח" || actionType === "הטבה") {
-            quantity += amount;
-          } else if (actionType === "מכירה חול מטח") {
-            quantity -= amount;
-          }
+          quantity += rowShareDelta(row, portfolio.corporateActions, portfolio.tickerAliases);
           
           const feeStr = row["עמלת פעולה"].trim();
           const fee = parseFloat(feeStr) || 0;
-          totalFees += Math.abs(fee);
+          totalFees += Math.abs(fee) / feeRate;
         }
         
-        if (actionType === "הפקדה דיבידנד מטח" && stockName.includes(symbol)) {
+        if (actionType === "הפקדה דיבידנד מטח" && names.some((name) => stockName.includes(name))) {
           const dividendStr = row["כמות"].trim();
           const dividend = parseFloat(dividendStr) || 0;
           totalDividends += Math.abs(dividend);
         }
         
-        if (actionType === "משיכת מס חול מטח" && stockName.includes(symbol)) {
+        if (actionType === "משיכת מס חול מטח" && names.some((name) => stockName.includes(name))) {
           const taxStr = row["כמות"].trim();
           const tax = parseFloat(taxStr) || 0;
           totalTaxes += Math.abs(tax);
@@ -498,7 +587,7 @@ const App = () => {
       totalBenefitsAndOther,
       totalCapitalGainsTax,
     };
-  }, [uniqueSymbols, rows]);
+  }, [uniqueSymbols, rows, portfolio.usdIlsRate, portfolio.corporateActions, portfolio.tickerAliases]);
 
   const depositsByMonth = useMemo(() => {
     type MonthEntry = {
@@ -784,9 +873,9 @@ const App = () => {
         label: "עלות ממוצעת",
         sortable: true,
         filterable: false,
-        render: (value) => {
+        render: (value, row) => {
           const n = Number(value);
-          return n > 0 ? <span className="mono">${n.toFixed(2)}</span> : <span className="val-muted">—</span>;
+          return n > 0 ? <span className="mono">{formatMoney(n, rowCurrency(row))}</span> : <span className="val-muted">—</span>;
         },
       },
       {
@@ -794,9 +883,19 @@ const App = () => {
         label: "מחיר נוכחי",
         sortable: true,
         filterable: false,
-        render: (value) => {
+        render: (value, row) => {
           const n = Number(value);
-          return n > 0 ? <span className="mono">${n.toFixed(2)}</span> : <span className="val-muted">—</span>;
+          if (!(n > 0)) return <span className="val-muted">—</span>;
+          return (
+            <>
+              <span className="mono">{formatMoney(n, rowCurrency(row))}</span>
+              {(row as Record<string, unknown>)._manualPrice === true && (
+                <span className="badge badge-manual" title="מחיר שהוזן ידנית">
+                  ידני
+                </span>
+              )}
+            </>
+          );
         },
       },
       {
@@ -875,7 +974,85 @@ const App = () => {
     []
   );
 
-  const handleFiles = async (files: FileList | null) => {
+  // Put a dataset on screen and in the local cache. Returns the cache entry
+  // (null when the browser refused to store it).
+  const loadDataset = (dataset: MergedDataset): CachedUpload | null => {
+    const cachedUpload = dataset.rows.length > 0
+      ? saveCachedUpload(
+          localStorage,
+          dataset.rows,
+          dataset.fileNames,
+          Date.now(),
+          dataset.rowFiles,
+          dataset.fileAccounts
+        )
+      : null;
+    if (dataset.rows.length === 0) {
+      clearCachedUpload(localStorage);
+    }
+    setFileNames(dataset.fileNames);
+    setFileAccounts(dataset.fileAccounts);
+    setRowFiles(dataset.rowFiles);
+    setDatasetRows(dataset.rows);
+    setCacheExpiresAt(cachedUpload?.expiresAt ?? null);
+    setCacheSavedAt(cachedUpload?.savedAt ?? null);
+    return cachedUpload;
+  };
+
+  // Validate a loaded dataset; returns false (and reports) on failure.
+  const applyValidation = (allRows: Row[]): boolean => {
+    const validation = validateYears(allRows);
+    if (!validation.ok) {
+      setValidationError(validation.message);
+      setStatus(`שגיאת אימות: ${validation.message}`);
+      return false;
+    }
+    setValidationError(null);
+    return true;
+  };
+
+  // Load a merged upload into the app, the local cache and the import history.
+  const commitImport = (dataset: MergedDataset, merge: MergeResult, uploadedFileNames: string[]) => {
+    const cachedUpload = loadDataset(dataset);
+    const allRows = dataset.rows;
+    const addedRows = allRows.length - merge.baseRowCount;
+    const appended = merge.baseRowCount > 0;
+
+    // Exact duplicates plus any reviewed near-duplicates the user left out.
+    const keptAmbiguous = allRows.length - merge.rows.length;
+    const duplicateCount =
+      merge.stats.reduce((sum, s) => sum + s.duplicates, 0) + merge.ambiguous.length - keptAmbiguous;
+    const historyEntry: ImportHistoryEntry = {
+      id: `${Date.now()}-${uploadedFileNames.length}`,
+      createdAt: Date.now(),
+      fileNames: uploadedFileNames,
+      rowCount: addedRows,
+      duplicateCount,
+    };
+    setImportHistory((prev) => {
+      const next = [historyEntry, ...prev].slice(0, 8);
+      saveImportHistory(next);
+      return next;
+    });
+    if (allRows.length === 0) {
+      setValidationError(null);
+      setStatus("No rows found in the uploaded files.");
+    } else if (applyValidation(allRows)) {
+      const dropped = describeDuplicates(merge.stats);
+      const duplicateNote = duplicateCount > 0
+        ? ` הוסרו ${duplicateCount} שורות כפולות${dropped ? ` (${dropped})` : ""}.`
+        : "";
+      const loadedNote = appended
+        ? `נוספו ${addedRows} שורות חדשות מ-${uploadedFileNames.length} קבצים (סה"כ ${allRows.length}).`
+        : `נטענו ${allRows.length} שורות מ-${uploadedFileNames.length} קבצים.`;
+      setStatus(
+        (cachedUpload ? `${loadedNote} הנתונים נשמרו בדפדפן ל-30 יום.` : loadedNote) + duplicateNote
+      );
+    }
+  };
+
+  // "replace" starts a fresh dataset; "append" merges into the loaded one.
+  const handleFiles = async (files: FileList | null, mode: "replace" | "append" = "replace") => {
     if (!files || files.length === 0) {
       return;
     }
@@ -884,53 +1061,27 @@ const App = () => {
     setStatus("Parsing files...");
 
     try {
-      const allRows: Row[] = [];
+      const parsed: ImportFile[] = [];
+      const reports: FileDiagnostics[] = [];
       const fileArray = Array.from(files);
+      const accountLabel = uploadAccount.trim() || DEFAULT_ACCOUNT;
 
       for (const file of fileArray) {
         const buffer = await file.arrayBuffer();
-        allRows.push(...(await parseXlsxBuffer(buffer)));
+        const workbook = await parseXlsxBuffer(buffer);
+        parsed.push({ fileName: file.name, rows: workbook.rows, account: accountLabel });
+        reports.push({ fileName: file.name, sheets: workbook.sheets });
       }
+      setParseReports(reports);
 
       const uploadedFileNames = fileArray.map((file) => file.name);
-      const cachedUpload = allRows.length > 0
-        ? saveCachedUpload(localStorage, allRows, uploadedFileNames)
-        : null;
-      if (allRows.length === 0) {
-        clearCachedUpload(localStorage);
-      }
-
-      setFileNames(uploadedFileNames);
-      setRows(allRows);
-      setCacheExpiresAt(cachedUpload?.expiresAt ?? null);
-      setCacheSavedAt(cachedUpload?.savedAt ?? null);
-      const historyEntry: ImportHistoryEntry = {
-        id: `${Date.now()}-${fileArray.length}`,
-        createdAt: Date.now(),
-        fileNames: uploadedFileNames,
-        rowCount: allRows.length,
-      };
-      setImportHistory((prev) => {
-        const next = [historyEntry, ...prev].slice(0, 8);
-        saveImportHistory(next);
-        return next;
-      });
-      if (allRows.length === 0) {
-        setValidationError(null);
-        setStatus("No rows found in the uploaded files.");
+      const base = mode === "append" ? dataset : EMPTY_DATASET;
+      const merge = mergeImportFiles(parsed, base);
+      if (merge.ambiguous.length > 0) {
+        setPendingImport({ fileNames: uploadedFileNames, merge });
+        setStatus(`נמצאו ${merge.ambiguous.length} שורות חופפות לבדיקה לפני הטעינה.`);
       } else {
-        const validation = validateYears(allRows);
-        if (!validation.ok) {
-          setValidationError(validation.message);
-          setStatus(`שגיאת אימות: ${validation.message}`);
-        } else {
-          setValidationError(null);
-          setStatus(
-            cachedUpload
-              ? `נטענו ${allRows.length} שורות מ-${files.length} קבצים ונשמרו בדפדפן ל-30 יום.`
-              : `נטענו ${allRows.length} שורות מ-${files.length} קבצים.`
-          );
-        }
+        commitImport(merge, merge, uploadedFileNames);
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
@@ -940,10 +1091,53 @@ const App = () => {
     }
   };
 
+  const handleConfirmImport = (keptIds: Set<string>) => {
+    if (!pendingImport) return;
+    commitImport(resolveMerge(pendingImport.merge, keptIds), pendingImport.merge, pendingImport.fileNames);
+    setPendingImport(null);
+  };
+
+  const handleCancelImport = () => {
+    setPendingImport(null);
+    setStatus(
+      datasetRows.length > 0
+        ? `ההעלאה בוטלה. מוצגות ${datasetRows.length} השורות הקודמות.`
+        : "העלו קבצי XLSX כדי להתחיל."
+    );
+  };
+
+  // Remove one file's rows; rows another loaded file also contains stay.
+  const handleRemoveFile = (fileIndex: number) => {
+    const removedName = fileNames[fileIndex];
+    const next = removeImportFile(dataset, fileIndex);
+    loadDataset(next);
+    if (next.rows.length === 0) {
+      setValidationError(null);
+      setStatus("העלו קבצי XLSX כדי להתחיל.");
+    } else if (applyValidation(next.rows)) {
+      setStatus(
+        `הקובץ ${removedName} הוסר (${datasetRows.length - next.rows.length} שורות). נותרו ${next.rows.length} שורות.`
+      );
+    }
+  };
+
+  // Relabel one account's files; the selection and next-upload label follow.
+  const handleRenameAccount = (from: string, to: string) => {
+    const label = to.trim();
+    if (!label || label === from) return;
+    loadDataset(renameAccount(dataset, from, label));
+    if (selectedAccount === from) handleAccountChange(label);
+    if (uploadAccount === from) setUploadAccount(label);
+    setStatus(`החשבון ${from} נקרא מעכשיו ${label}.`);
+  };
+
   const handleClear = () => {
     clearCachedUpload(localStorage);
-    setRows([]);
+    setParseReports(null);
+    setDatasetRows([]);
     setFileNames([]);
+    setFileAccounts([]);
+    setRowFiles([]);
     setCacheExpiresAt(null);
     setCacheSavedAt(null);
     setValidationError(null);
@@ -968,7 +1162,7 @@ const App = () => {
     exportToExcel(rows as unknown as Record<string, unknown>[], "ibi_transactions", "פעולות");
   };
 
-  // Keyboard shortcuts: 1-7 switch tabs, R refreshes prices, E exports current tab.
+  // Keyboard shortcuts: 1-8 switch tabs, R refreshes prices, E exports current tab.
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
@@ -980,6 +1174,7 @@ const App = () => {
         "5": "analytics",
         "6": "table",
         "7": "alerts",
+        "8": "dividends",
       };
       if (tabMap[e.key]) {
         handleTabChange(tabMap[e.key]);
@@ -1027,17 +1222,28 @@ const App = () => {
         setIsLoading(true);
         setStatus("Loading dev files...");
 
-        const allRows: Row[] = [];
+        const parsed: ImportFile[] = [];
+        const reports: FileDiagnostics[] = [];
 
         for (const fileName of xlsxFileNames) {
           const url = `${baseUrl}dev-data/${encodeURIComponent(fileName)}`;
           const response = await fetch(url);
           const buffer = await response.arrayBuffer();
-          allRows.push(...(await parseXlsxBuffer(buffer)));
+          const workbook = await parseXlsxBuffer(buffer);
+          parsed.push({ fileName, rows: workbook.rows });
+          reports.push({ fileName, sheets: workbook.sheets });
         }
+        setParseReports(reports);
 
-        setFileNames(xlsxFileNames);
-        setRows(allRows);
+        // Dev data skips the review step: near-duplicates are kept as-is.
+        const merge = mergeImportFiles(parsed);
+        const dataset = resolveMerge(merge, new Set(merge.ambiguous.map((match) => match.id)));
+        const allRows = dataset.rows;
+
+        setFileNames(dataset.fileNames);
+        setFileAccounts(dataset.fileAccounts);
+        setRowFiles(dataset.rowFiles);
+        setDatasetRows(allRows);
         if (allRows.length === 0) {
           setValidationError(null);
           setStatus("No rows found in dev files.");
@@ -1092,6 +1298,24 @@ const App = () => {
     };
   });
 
+  const uploadAccountInput = (
+    <label className="account-selector" title="חשבון שאליו משויכים הקבצים הבאים שיועלו">
+      <span>חשבון לקבצים</span>
+      <input
+        className="alert-price-input account-label-input"
+        list="account-names"
+        value={uploadAccount}
+        onChange={(event) => setUploadAccount(event.target.value)}
+        placeholder={DEFAULT_ACCOUNT}
+      />
+      <datalist id="account-names">
+        {accounts.map((account) => (
+          <option key={account} value={account} />
+        ))}
+      </datalist>
+    </label>
+  );
+
   return (
     <div className="page">
       {selectedTicker ? (
@@ -1109,6 +1333,9 @@ const App = () => {
                   ticker={selectedTicker}
                   rows={rows}
                   onBack={closeDetail}
+                  corporateActions={portfolio.corporateActions}
+                  tickerAliases={portfolio.tickerAliases}
+                  realizedRounds={closedTickerRounds}
                   hasActivePosition={heldTickersSet.has(selectedTicker)}
                   onViewActivePosition={() => openTicker(selectedTicker, "active")}
                 />
@@ -1118,6 +1345,11 @@ const App = () => {
                   rows={rows}
                   onBack={closeDetail}
                   portfolioValue={portfolio.summary.totalMarketValue}
+                  usdIlsRate={portfolio.usdIlsRate}
+                  corporateActions={portfolio.corporateActions}
+                  tickerAliases={portfolio.tickerAliases}
+                  onAddCorporateAction={portfolio.addCorporateAction}
+                  onRemoveCorporateAction={portfolio.removeCorporateAction}
                   hasPastTrade={closedRoundTickersSet.has(selectedTicker)}
                   onViewPastTrade={() => openTicker(selectedTicker, "closed")}
                 />
@@ -1129,13 +1361,16 @@ const App = () => {
         <>
       <header className="app-header">
         <div className="app-brand">📊 IBI Portfolio</div>
-        {rows.length > 0 && (
+        {datasetRows.length > 0 && (
           <div className="app-header-files">
             {fileNames.map((name, index) => (
-              <span key={`${name}-${index}`} className="file-chip" title={name}>
-                📄 {name}{cacheSavedAt ? ` · ${formatUploadAge(cacheSavedAt, ageReference)}` : ""}
+              <span key={`${name}-${index}`} className="file-chip" title={`${name} · ${fileAccounts[index] ?? ""}`}>
+                📄 {name}
+                {accounts.length > 1 ? ` · ${fileAccounts[index]}` : ""}
+                {cacheSavedAt ? ` · ${formatUploadAge(cacheSavedAt, ageReference)}` : ""}
               </span>
             ))}
+            {uploadAccountInput}
             <label className="upload">
               <input
                 type="file"
@@ -1146,6 +1381,29 @@ const App = () => {
               />
               {isLoading ? "טוען…" : "📤 העלאה"}
             </label>
+            <label className="upload ghost" title="מיזוג קבצים נוספים לנתונים הטעונים, ללא כפילויות">
+              <input
+                type="file"
+                accept=".xlsx"
+                multiple
+                onChange={(event) => {
+                  handleFiles(event.target.files, "append");
+                  event.target.value = "";
+                }}
+                disabled={isLoading}
+              />
+              ➕ הוספת קבצים
+            </label>
+            {markets.length > 0 && (
+              <RefreshStatus
+                statuses={autoRefresh.statuses}
+                nextRefreshAt={autoRefresh.nextRefreshAt}
+                paused={autoRefresh.paused}
+                backedOff={autoRefresh.backedOff}
+                minutes={autoRefresh.minutes}
+                onMinutesChange={autoRefresh.setMinutes}
+              />
+            )}
             <button className="ghost" type="button" onClick={() => window.print()}>
               🖨 PDF
             </button>
@@ -1165,7 +1423,16 @@ const App = () => {
       </header>
 
       <main className="app-main">
-        {rows.length === 0 ? (
+        {parseReports && <ParserDiagnostics reports={parseReports} onDismiss={() => setParseReports(null)} />}
+        {pendingImport && (
+          <ImportReview
+            stats={pendingImport.merge.stats}
+            ambiguous={pendingImport.merge.ambiguous}
+            onConfirm={handleConfirmImport}
+            onCancel={handleCancelImport}
+          />
+        )}
+        {datasetRows.length === 0 ? (
           <div
             className={isDragging ? "upload-zone dragging" : "upload-zone"}
             onDragOver={(event) => {
@@ -1182,6 +1449,7 @@ const App = () => {
             <div className="upload-zone-icon">📂</div>
             <div className="upload-zone-title">גררו קבצי XLSX לכאן</div>
             <p className="upload-zone-subtitle">או לחצו לבחירת קבצים</p>
+            {uploadAccountInput}
             <label className="upload">
               <input
                 type="file"
@@ -1247,6 +1515,15 @@ const App = () => {
               >
                 ניתוח
               </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={activeTab === "dividends"}
+                className={activeTab === "dividends" ? "app-tab active" : "app-tab"}
+                onClick={() => handleTabChange("dividends")}
+              >
+                דיבידנדים
+              </button>
               <button
                 type="button"
                 role="tab"
@@ -1265,6 +1542,7 @@ const App = () => {
               >
                 🔔 התראות
               </button>
+              <AccountSelector accounts={accounts} selected={activeAccount} onChange={handleAccountChange} />
             </nav>
             <div className="tab-content">
               {activeTab === "dashboard" ? (
@@ -1377,6 +1655,7 @@ const App = () => {
                     </div>
                   </div>
                 </div>
+                <CashLedger transactions={portfolio.transactions} />
                 <div className="account-chart-card import-history-card">
                   <div className="account-chart-top-row">
                     <div>
@@ -1398,6 +1677,31 @@ const App = () => {
                       </button>
                     )}
                   </div>
+                  {fileNames.length > 0 && (
+                    <div className="import-history-list import-files-list">
+                      {fileNames.map((name, index) => (
+                        <div key={`${name}-${index}`} className="import-history-item">
+                          <div>
+                            <div className="import-history-date">📄 {name}</div>
+                            <div className="import-history-files">
+                              {fileAccounts[index]} · {rowsPerFile[index] ?? 0} שורות בנתונים הטעונים
+                            </div>
+                          </div>
+                          <button
+                            type="button"
+                            className="ghost"
+                            onClick={() => handleRemoveFile(index)}
+                            disabled={isLoading}
+                          >
+                            הסר קובץ
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {accounts.length > 0 && (
+                    <AccountLabels accounts={accounts} fileAccounts={fileAccounts} onRename={handleRenameAccount} />
+                  )}
                   {importHistory.length === 0 ? (
                     <div className="account-chart-empty">אין היסטוריית העלאות מקומית.</div>
                   ) : (
@@ -1412,7 +1716,10 @@ const App = () => {
                               {entry.fileNames.join(", ")}
                             </div>
                           </div>
-                          <span className="mono import-history-rows">{entry.rowCount} שורות</span>
+                          <span className="mono import-history-rows">
+                            {entry.rowCount} שורות
+                            {entry.duplicateCount ? ` · ${entry.duplicateCount} כפולות הוסרו` : ""}
+                          </span>
                         </div>
                       ))}
                     </div>
@@ -1599,6 +1906,18 @@ const App = () => {
               <Analytics portfolio={portfolio} />
             </Suspense>
           )
+        ) : activeTab === "dividends" ? (
+          rows.length === 0 || validationError ? (
+            <p className="empty">
+              {validationError
+                ? "לא ניתן להציג נתונים עד לתיקון שגיאות האימות."
+                : "עדיין אין נתונים להצגה."}
+            </p>
+          ) : (
+            <Suspense fallback={<div className="loading">טוען דיבידנדים...</div>}>
+              <Dividends portfolio={portfolio} />
+            </Suspense>
+          )
         ) : activeTab === "alerts" ? (
           <div className="summary-panel">
             <div className="summary-header">
@@ -1656,6 +1975,7 @@ const App = () => {
           <kbd>5</kbd>
           <kbd>6</kbd>
           <kbd>7</kbd>
+          <kbd>8</kbd>
           <span>מעבר בין טאבים</span>
           <kbd>R</kbd>
           <span>רענן מחירים</span>
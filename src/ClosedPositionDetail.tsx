@@ -1,37 +1,54 @@
 import { useMemo } from "react";
 import { formatDateLabel, formatDuration, parseDateToTimestamp } from "./utils/dates";
 import { formatNumber } from "./utils/format";
+import { isTaseSecurity, toIlsPrice } from "./utils/securities";
+import { splitFactor } from "./utils/corporateActions";
+import { DEFAULT_TICKER_ALIASES, resolveSymbol, symbolNames, TickerAliasMap } from "./utils/aliases";
+import type { CorporateAction, RealizedRound } from "./types";
 import { ANALYSIS_LINKS } from "./utils/analysisLinks";
+import { israeliTopUpTax } from "./utils/dividendAudit";
 
 interface ClosedPositionDetailProps {
   ticker: string;
   rows: Record<string, string>[];
   onBack: () => void;
+  corporateActions?: CorporateAction[]; // splits, applied to earlier trades
+  tickerAliases?: TickerAliasMap; // old symbols filed under this ticker
+  realizedRounds?: RealizedRound[]; // this ticker's rounds, for the shekel tax track
   // This ticker was re-bought after this round closed and is held again now —
   // link across to the live active-holding view.
   hasActivePosition?: boolean;
   onViewActivePosition?: () => void;
 }
 
+const NO_ACTIONS: CorporateAction[] = [];
+const NO_ROUNDS: RealizedRound[] = [];
+
 const ClosedPositionDetail = ({
   ticker,
   rows,
   onBack,
+  corporateActions = NO_ACTIONS,
+  tickerAliases = DEFAULT_TICKER_ALIASES,
+  realizedRounds = NO_ROUNDS,
   hasActivePosition,
   onViewActivePosition,
 }: ClosedPositionDetailProps) => {
+  // TASE securities are shown in shekels.
+  const sym = isTaseSecurity(ticker) ? "₪" : "$";
   const transactionRows = useMemo(() => {
     const filtered = rows
       .map((row) => {
-        const tickerValue = String(row["מס' נייר / סימבול"] ?? "").trim();
+        const tickerValue = resolveSymbol(String(row["מס' נייר / סימבול"] ?? "").trim(), tickerAliases);
         const actionType = String(row["סוג פעולה"] ?? "").trim();
         const dateValue = String(row["תאריך"] ?? "").trim();
         const quantityValue = parseFloat(String(row["כמות"] ?? "").trim()) || 0;
         const priceValue = parseFloat(String(row["שער ביצוע"] ?? "").trim()) || 0;
         const feeValue = parseFloat(String(row["עמלת פעולה"] ?? "").trim()) || 0;
 
-        const isBuy = actionType === "קניה חול מטח";
-        const isSell = actionType === "מכירה חול מטח";
+        const tase = isTaseSecurity(tickerValue);
+        const isBuy = actionType === "קניה חול מטח" || (tase && actionType === "קניה שח");
+        const isSell = actionType === "מכירה חול מטח" || (tase && actionType === "מכירה שח");
         const isBenefit = actionType === "הטבה";
 
         if (tickerValue !== ticker || (!isBuy && !isSell && !isBenefit)) return null;
@@ -43,11 +60,21 @@ const ClosedPositionDetail = ({
           isBuy: isBuy || isBenefit,
           quantity: Math.abs(quantityValue),
           delta: isBenefit || isBuy ? quantityValue : -quantityValue,
-          price: priceValue,
+          price: tase
+            ? toIlsPrice(priceValue, Math.abs(quantityValue), parseFloat(String(row["תמורה בשקלים"] ?? "")) || 0)
+            : priceValue,
           fee: Math.abs(feeValue),
         };
       })
-      .filter((row): row is NonNullable<typeof row> => Boolean(row));
+      .filter((row): row is NonNullable<typeof row> => Boolean(row))
+      // Restate earlier trades in today's shares so the running count lines up
+      // across splits.
+      .map((row) => {
+        const factor = splitFactor(corporateActions, ticker, row.timestamp);
+        return factor === 1
+          ? row
+          : { ...row, quantity: row.quantity * factor, delta: row.delta * factor, price: row.price / factor };
+      });
 
     filtered.sort((a, b) => a.timestamp - b.timestamp);
 
@@ -56,11 +83,13 @@ const ClosedPositionDetail = ({
       cumulative += row.delta;
       return { ...row, cumulative };
     });
-  }, [rows, ticker]);
+  }, [rows, ticker, corporateActions, tickerAliases]);
 
   const dividendRows = useMemo(() => {
     const byDate = new Map<string, { timestamp: number; dateLabel: string; dividend: number; tax: number }>();
-    const stockPattern = new RegExp(`\\/\\s*${ticker}\\s+US`, "i");
+    const stockPatterns = symbolNames(ticker, tickerAliases).map(
+      (name) => new RegExp(`\\/\\s*${name}\\s+US`, "i")
+    );
 
     rows.forEach((row) => {
       const actionType = String(row["סוג פעולה"] ?? "").trim();
@@ -68,7 +97,7 @@ const ClosedPositionDetail = ({
       const isDividend = actionType === "הפקדה דיבידנד מטח";
       const isTax = actionType === "משיכת מס חול מטח";
       if (!isDividend && !isTax) return;
-      if (!stockPattern.test(stockName)) return;
+      if (!stockPatterns.some((pattern) => pattern.test(stockName))) return;
 
       const dateValue = String(row["תאריך"] ?? "").trim();
       const timestamp = parseDateToTimestamp(dateValue);
@@ -84,8 +113,12 @@ const ClosedPositionDetail = ({
 
     return Array.from(byDate.values())
       .sort((a, b) => a.timestamp - b.timestamp)
-      .map((entry) => ({ ...entry, net: entry.dividend - entry.tax }));
-  }, [rows, ticker]);
+      .map((entry) => {
+        // Tax shown includes any Israeli top-up due on top of the US withholding.
+        const tax = entry.tax + israeliTopUpTax(entry.dividend, entry.tax);
+        return { ...entry, tax, net: entry.dividend - tax };
+      });
+  }, [rows, ticker, tickerAliases]);
 
   const rounds = useMemo(() => {
     if (transactionRows.length === 0) return [];
@@ -223,6 +256,16 @@ const ClosedPositionDetail = ({
     };
   }, [roundsWithDividends, dividendRows]);
 
+  // Nominal shekel gain, each trade at its own date's rate. TASE holdings are
+  // already shown in shekels.
+  const ilsTrack = useMemo(() => {
+    if (sym === "₪" || realizedRounds.length === 0) return null;
+    return {
+      netFromTrading: realizedRounds.reduce((s, r) => s + r.netFromTradingIls, 0),
+      capitalGainsTax: realizedRounds.reduce((s, r) => s + r.capitalGainsTaxIls, 0),
+    };
+  }, [sym, realizedRounds]);
+
   const isProfit = totals.finalPnL >= 0;
 
   return (
@@ -273,7 +316,7 @@ const ClosedPositionDetail = ({
       <div className={`closed-pnl-hero ${isProfit ? "pnl-profit" : "pnl-loss"}`}>
         <div className="closed-pnl-label">רווח / הפסד נטו סופי</div>
         <div className="closed-pnl-value">
-          {totals.finalPnL >= 0 ? "+" : ""}${formatNumber(totals.finalPnL)}
+          {totals.finalPnL >= 0 ? "+" : ""}{sym}{formatNumber(totals.finalPnL)}
         </div>
         <div className="closed-pnl-percent">
           ({totals.returnPercent >= 0 ? "+" : ""}{totals.returnPercent.toFixed(2)}% על ההשקעה)
@@ -283,26 +326,26 @@ const ClosedPositionDetail = ({
       <div className="closed-summary-grid">
         <div className="closed-summary-card">
           <div className="closed-summary-label">השקעה כוללת</div>
-          <div className="closed-summary-value">${formatNumber(totals.totalInvested)}</div>
+          <div className="closed-summary-value">{sym}{formatNumber(totals.totalInvested)}</div>
         </div>
         <div className="closed-summary-card">
           <div className="closed-summary-label">תמורה ממכירות</div>
-          <div className="closed-summary-value">${formatNumber(totals.proceeds)}</div>
+          <div className="closed-summary-value">{sym}{formatNumber(totals.proceeds)}</div>
         </div>
         <div className="closed-summary-card">
           <div className="closed-summary-label">רווח לפני מס</div>
           <div className={`closed-summary-value ${totals.netFromTrading >= 0 ? "val-positive" : "val-negative"}`}>
-            {totals.netFromTrading >= 0 ? "+" : ""}${formatNumber(totals.netFromTrading)}
+            {totals.netFromTrading >= 0 ? "+" : ""}{sym}{formatNumber(totals.netFromTrading)}
           </div>
         </div>
         <div className="closed-summary-card">
           <div className="closed-summary-label">עמלות</div>
-          <div className="closed-summary-value val-negative">-${formatNumber(totals.totalFees)}</div>
+          <div className="closed-summary-value val-negative">-{sym}{formatNumber(totals.totalFees)}</div>
         </div>
         <div className="closed-summary-card">
           <div className="closed-summary-label">דיבידנד נטו</div>
           <div className={`closed-summary-value ${totals.dividendsNet > 0 ? "val-positive" : ""}`}>
-            {totals.dividendsNet > 0 ? "+" : ""}${formatNumber(totals.dividendsNet)}
+            {totals.dividendsNet > 0 ? "+" : ""}{sym}{formatNumber(totals.dividendsNet)}
           </div>
         </div>
         <div className="closed-summary-card">
@@ -319,50 +362,64 @@ const ClosedPositionDetail = ({
         <div className="pnl-breakdown">
           <div className="pnl-row">
             <span>תמורה ממכירות</span>
-            <span>${formatNumber(totals.proceeds)}</span>
+            <span>{sym}{formatNumber(totals.proceeds)}</span>
           </div>
           <div className="pnl-row">
             <span>עלות רכישה</span>
-            <span>-${formatNumber(totals.costBasis)}</span>
+            <span>-{sym}{formatNumber(totals.costBasis)}</span>
           </div>
           <div className="pnl-row">
             <span>עמלות</span>
-            <span>-${formatNumber(totals.totalFees)}</span>
+            <span>-{sym}{formatNumber(totals.totalFees)}</span>
           </div>
           <div className={`pnl-row pnl-subtotal ${totals.netFromTrading >= 0 ? "val-positive" : "val-negative"}`}>
             <span>רווח לפני מס</span>
-            <span>{totals.netFromTrading >= 0 ? "+" : ""}${formatNumber(totals.netFromTrading)}</span>
+            <span>{totals.netFromTrading >= 0 ? "+" : ""}{sym}{formatNumber(totals.netFromTrading)}</span>
           </div>
           {totals.capitalGainsTax > 0 && (
             <div className="pnl-row val-negative">
               <span>מס רווחי הון (25%)</span>
-              <span>-${formatNumber(totals.capitalGainsTax)}</span>
+              <span>-{sym}{formatNumber(totals.capitalGainsTax)}</span>
             </div>
           )}
+          {ilsTrack && (
+            <>
+              <div className={`pnl-row ${ilsTrack.netFromTrading >= 0 ? "val-positive" : "val-negative"}`}>
+                <span>רווח נומינלי בשקלים</span>
+                <span>{ilsTrack.netFromTrading >= 0 ? "+" : "-"}₪{formatNumber(Math.abs(ilsTrack.netFromTrading))}</span>
+              </div>
+              {ilsTrack.capitalGainsTax > 0 && (
+                <div className="pnl-row val-negative">
+                  <span>מס רווחי הון בשקלים (25%)</span>
+                  <span>-₪{formatNumber(ilsTrack.capitalGainsTax)}</span>
+                </div>
+              )}
+            </>
+          )}
           <div className={`pnl-row pnl-subtotal ${totals.netAfterTax >= 0 ? "val-positive" : "val-negative"}`}>
             <span>רווח נטו ממסחר</span>
-            <span>{totals.netAfterTax >= 0 ? "+" : ""}${formatNumber(totals.netAfterTax)}</span>
+            <span>{totals.netAfterTax >= 0 ? "+" : ""}{sym}{formatNumber(totals.netAfterTax)}</span>
           </div>
           {totals.dividendsNet !== 0 && (
             <>
               <div className="pnl-row val-positive">
                 <span>דיבידנד ברוטו</span>
-                <span>+${formatNumber(totals.dividendsGross)}</span>
+                <span>+{sym}{formatNumber(totals.dividendsGross)}</span>
               </div>
               <div className="pnl-row val-negative">
                 <span>מס דיבידנד</span>
-                <span>-${formatNumber(totals.dividendsTax)}</span>
+                <span>-{sym}{formatNumber(totals.dividendsTax)}</span>
               </div>
               <div className="pnl-row val-positive">
                 <span>דיבידנד נטו</span>
-                <span>+${formatNumber(totals.dividendsNet)}</span>
+                <span>+{sym}{formatNumber(totals.dividendsNet)}</span>
               </div>
             </>
           )}
           <div className={`pnl-row pnl-total ${totals.finalPnL >= 0 ? "val-positive" : "val-negative"}`}>
             <span>סה"כ נטו</span>
             <span>
-              {totals.finalPnL >= 0 ? "+" : ""}${formatNumber(totals.finalPnL)}
+              {totals.finalPnL >= 0 ? "+" : ""}{sym}{formatNumber(totals.finalPnL)}
               {" "}({totals.returnPercent >= 0 ? "+" : ""}{totals.returnPercent.toFixed(2)}%)
             </span>
           </div>
@@ -383,33 +440,33 @@ const ClosedPositionDetail = ({
                     <span className="closed-round-duration-avg">ממוצע {formatDuration(round.avgHoldingDays)}</span>
                   )}
                   <span className={`closed-round-pnl ${round.finalPnL >= 0 ? "val-positive" : "val-negative"}`}>
-                    {round.finalPnL >= 0 ? "+" : ""}${formatNumber(round.finalPnL)}
+                    {round.finalPnL >= 0 ? "+" : ""}{sym}{formatNumber(round.finalPnL)}
                     {" "}({round.returnPercent >= 0 ? "+" : ""}{round.returnPercent.toFixed(2)}%)
                   </span>
                 </div>
                 <div className="closed-round-stats">
                   <div className="closed-round-stat">
                     <span className="stat-label">השקעה</span>
-                    <span>${formatNumber(round.totalInvested)}</span>
+                    <span>{sym}{formatNumber(round.totalInvested)}</span>
                   </div>
                   <div className="closed-round-stat">
                     <span className="stat-label">תמורה</span>
-                    <span>${formatNumber(round.proceeds)}</span>
+                    <span>{sym}{formatNumber(round.proceeds)}</span>
                   </div>
                   <div className="closed-round-stat">
                     <span className="stat-label">עמלות</span>
-                    <span className="val-negative">-${formatNumber(round.totalFees)}</span>
+                    <span className="val-negative">-{sym}{formatNumber(round.totalFees)}</span>
                   </div>
                   <div className="closed-round-stat">
                     <span className="stat-label">רווח לפני מס</span>
                     <span className={round.netFromTrading >= 0 ? "val-positive" : "val-negative"}>
-                      {round.netFromTrading >= 0 ? "+" : ""}${formatNumber(round.netFromTrading)}
+                      {round.netFromTrading >= 0 ? "+" : ""}{sym}{formatNumber(round.netFromTrading)}
                     </span>
                   </div>
                   {round.dividendsNet !== 0 && (
                     <div className="closed-round-stat">
                       <span className="stat-label">דיבידנד נטו</span>
-                      <span className="val-positive">+${formatNumber(round.dividendsNet)}</span>
+                      <span className="val-positive">+{sym}{formatNumber(round.dividendsNet)}</span>
                     </div>
                   )}
                 </div>
@@ -438,18 +495,18 @@ const ClosedPositionDetail = ({
                 {dividendRows.map((row, i) => (
                   <tr key={i}>
                     <td>{row.dateLabel}</td>
-                    <td>{row.dividend ? `$${formatNumber(row.dividend)}` : "-"}</td>
-                    <td>{row.tax ? `-$${formatNumber(row.tax)}` : "-"}</td>
-                    <td>{`$${formatNumber(row.net)}`}</td>
+                    <td>{row.dividend ? `${sym}${formatNumber(row.dividend)}` : "-"}</td>
+                    <td>{row.tax ? `-${sym}${formatNumber(row.tax)}` : "-"}</td>
+                    <td>{`${sym}${formatNumber(row.net)}`}</td>
                   </tr>
                 ))}
               </tbody>
               <tfoot>
                 <tr className="dividend-summary-row">
                   <td>סה"כ</td>
-                  <td>${formatNumber(totals.dividendsGross)}</td>
-                  <td>-${formatNumber(totals.dividendsTax)}</td>
-                  <td>${formatNumber(totals.dividendsNet)}</td>
+                  <td>{sym}{formatNumber(totals.dividendsGross)}</td>
+                  <td>-{sym}{formatNumber(totals.dividendsTax)}</td>
+                  <td>{sym}{formatNumber(totals.dividendsNet)}</td>
                 </tr>
               </tfoot>
             </table>
@@ -490,8 +547,8 @@ const ClosedPositionDetail = ({
                       {row.actionLabel}
                     </td>
                     <td>{formatNumber(row.quantity)}</td>
-                    <td>{row.price ? `$${formatNumber(row.price)}` : "-"}</td>
-                    <td>{row.fee ? `$${formatNumber(row.fee)}` : "-"}</td>
+                    <td>{row.price ? `${sym}{sym}{formatNumber(row.price)}` : "-"}</td>
+                    <td>{row.fee ? `${sym}{sym}{formatNumber(row.fee)}` : "-"}</td>
                     <td className={row.cumulative === 0 ? "val-muted" : ""}>
                       {formatNumber(row.cumulative)}
                     </td>
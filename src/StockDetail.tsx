@@ -6,9 +6,15 @@ import {
   RateLimitError,
 } from "./stockPriceService";
 import { parseDateToTimestamp, formatDateLabel, formatDuration } from "./utils/dates";
-import { formatNumber, formatUsd, formatSignedUsd, formatPercent } from "./utils/format";
+import { formatNumber, formatMoney, formatSignedMoney, formatPercent } from "./utils/format";
+import { currencyFor, isTaseSecurity, readTaseSymbols, toIlsPrice, yahooSymbolFor } from "./utils/securities";
+import { formatSplitRatio, splitFactor } from "./utils/corporateActions";
+import { DEFAULT_TICKER_ALIASES, resolveSymbol, symbolNames, TickerAliasMap } from "./utils/aliases";
+import type { CorporateAction } from "./types";
 import { ANALYSIS_LINKS } from "./utils/analysisLinks";
+import { israeliTopUpTax } from "./utils/dividendAudit";
 import KPICard from "./components/KPICard";
+import PriceHistoryChart from "./components/PriceHistoryChart";
 import {
   AreaChart,
   Area,
@@ -25,7 +31,12 @@ interface StockDetailProps {
   ticker: string;
   rows: Record<string, string>[];
   onBack: () => void;
-  portfolioValue?: number;
+  portfolioValue?: number; // USD
+  usdIlsRate?: number; // converts an ILS holding's value for its weight
+  corporateActions?: CorporateAction[]; // splits, applied to earlier trades
+  tickerAliases?: TickerAliasMap; // old symbols filed under this ticker
+  onAddCorporateAction?: (symbol: string, date: string, ratio: number) => void;
+  onRemoveCorporateAction?: (id: string) => void;
   // This ticker also has a closed (past) trade — sold to zero earlier, then
   // re-bought. Surface a link to that closed-position summary.
   hasPastTrade?: boolean;
@@ -39,30 +50,44 @@ const loadProfitRange = (): number => {
   return Number.isFinite(v) && v >= 100 && v <= 5000 ? v : 500;
 };
 
+const NO_ACTIONS: CorporateAction[] = [];
+
 const StockDetail = ({
   ticker,
   rows,
   onBack,
   portfolioValue,
+  usdIlsRate = 1,
+  corporateActions = NO_ACTIONS,
+  tickerAliases = DEFAULT_TICKER_ALIASES,
+  onAddCorporateAction,
+  onRemoveCorporateAction,
   hasPastTrade,
   onViewPastTrade,
 }: StockDetailProps) => {
   const [price, setPrice] = useState<StockPrice | null>(null);
   const [isPriceLoading, setIsPriceLoading] = useState(true);
   const [priceError, setPriceError] = useState<string | null>(null);
+  // TASE securities trade and quote in shekels; everything here stays in the
+  // holding's own currency.
+  const currency = currencyFor(ticker);
+  const sym = currency === "ILS" ? "₪" : "$";
+  const money = (value: number) => formatMoney(value, currency);
+  const quoteSymbol = useMemo(() => yahooSymbolFor(ticker, readTaseSymbols(localStorage)), [ticker]);
 
   const transactionRows = useMemo(() => {
     const filtered = rows
       .map((row) => {
-        const tickerValue = String(row["מס' נייר / סימבול"] ?? "").trim();
+        const tickerValue = resolveSymbol(String(row["מס' נייר / סימבול"] ?? "").trim(), tickerAliases);
         const actionType = String(row["סוג פעולה"] ?? "").trim();
         const dateValue = String(row["תאריך"] ?? "").trim();
         const quantityValue = parseFloat(String(row["כמות"] ?? "").trim()) || 0;
         const priceValue = parseFloat(String(row["שער ביצוע"] ?? "").trim()) || 0;
         const feeValue = parseFloat(String(row["עמלת פעולה"] ?? "").trim()) || 0;
 
-        const isBuy = actionType === "קניה חול מטח";
-        const isSell = actionType === "מכירה חול מטח";
+        const tase = isTaseSecurity(tickerValue);
+        const isBuy = actionType === "קניה חול מטח" || (tase && actionType === "קניה שח");
+        const isSell = actionType === "מכירה חול מטח" || (tase && actionType === "מכירה שח");
         const isBenefit = actionType === "הטבה";
 
         if (tickerValue !== ticker || (!isBuy && !isSell && !isBenefit)) {
@@ -78,11 +103,21 @@ const StockDetail = ({
           actionLabel: isBenefit ? "הטבה" : isBuy ? "קנייה" : "מכירה",
           quantity: Math.abs(quantityValue),
           delta: isBenefit || isBuy ? quantityValue : -quantityValue,
-          price: priceValue,
+          price: tase
+            ? toIlsPrice(priceValue, Math.abs(quantityValue), parseFloat(String(row["תמורה בשקלים"] ?? "")) || 0)
+            : priceValue,
           fee: Math.abs(feeValue),
         };
       })
-      .filter((row): row is NonNullable<typeof row> => Boolean(row));
+      .filter((row): row is NonNullable<typeof row> => Boolean(row))
+      // Restate earlier trades in today's shares so the running count lines up
+      // across splits.
+      .map((row) => {
+        const factor = splitFactor(corporateActions, ticker, row.timestamp);
+        return factor === 1
+          ? row
+          : { ...row, quantity: row.quantity * factor, delta: row.delta * factor, price: row.price / factor };
+      });
 
     filtered.sort((a, b) => a.timestamp - b.timestamp);
 
@@ -94,7 +129,7 @@ const StockDetail = ({
         cumulative,
       };
     });
-  }, [rows, ticker]);
+  }, [rows, ticker, corporateActions, tickerAliases]);
 
 
   // רק הפעולות מהרכישה האחרונה אחרי שמכרנו הכל
@@ -121,7 +156,9 @@ const StockDetail = ({
   const dividendRows = useMemo(() => {
     const byDate = new Map<string, { timestamp: number; dateLabel: string; dividend: number; tax: number }>();
 
-    const stockPattern = new RegExp(`\\/\\s*${ticker}\\s+US`, "i");
+    const stockPatterns = symbolNames(ticker, tickerAliases).map(
+      (name) => new RegExp(`\\/\\s*${name}\\s+US`, "i")
+    );
 
     rows.forEach((row) => {
       const actionType = String(row["סוג פעולה"] ?? "").trim();
@@ -133,7 +170,7 @@ const StockDetail = ({
         return;
       }
 
-      if (!stockPattern.test(stockName)) {
+      if (!stockPatterns.some((pattern) => pattern.test(stockName))) {
         return;
       }
 
@@ -165,11 +202,12 @@ const StockDetail = ({
 
     return Array.from(byDate.values())
       .sort((a, b) => a.timestamp - b.timestamp)
-      .map((entry) => ({
-        ...entry,
-        net: entry.dividend - entry.tax,
-      }));
-  }, [rows, ticker]);
+      .map((entry) => {
+        // Tax shown includes any Israeli top-up due on top of the US withholding.
+        const tax = entry.tax + israeliTopUpTax(entry.dividend, entry.tax);
+        return { ...entry, tax, net: entry.dividend - tax };
+      });
+  }, [rows, ticker, tickerAliases]);
 
   const dividendTotals = useMemo(() => {
     return dividendRows.reduce(
@@ -217,10 +255,10 @@ const StockDetail = ({
       unrealizedPnL !== null && costBasis > 0 ? (unrealizedPnL / costBasis) * 100 : null;
     const weight =
       currentValue !== null && portfolioValue && portfolioValue > 0
-        ? (currentValue / portfolioValue) * 100
+        ? (currentValue / (currency === "ILS" ? usdIlsRate : 1) / portfolioValue) * 100
         : null;
     return { qty, avgCost, costBasis, holdingDays, avgHoldingDays, currentValue, unrealizedPnL, unrealizedPct, weight };
-  }, [currentHoldingQty, weightedAvgPrice, currentHoldingRows, price, portfolioValue]);
+  }, [currentHoldingQty, weightedAvgPrice, currentHoldingRows, price, portfolioValue, currency, usdIlsRate]);
 
   const breakEvenPrice = useMemo(() => {
     if (currentHoldingQty <= 0) return null;
@@ -272,6 +310,24 @@ const StockDetail = ({
     return grossProfit > 0 ? grossProfit * 0.75 : grossProfit;
   };
 
+  const tickerActions = useMemo(
+    () => corporateActions.filter((a) => a.symbol === ticker),
+    [corporateActions, ticker]
+  );
+  const [splitDate, setSplitDate] = useState("");
+  const [splitNewShares, setSplitNewShares] = useState("");
+  const [splitOldShares, setSplitOldShares] = useState("");
+
+  // "N new for M old" — 2 for 1 is a split, 1 for 10 a reverse split.
+  const declareSplit = () => {
+    const ratio = Number(splitNewShares) / Number(splitOldShares);
+    if (!onAddCorporateAction || !splitDate || !Number.isFinite(ratio) || ratio <= 0 || ratio === 1) return;
+    onAddCorporateAction(ticker, splitDate, ratio);
+    setSplitDate("");
+    setSplitNewShares("");
+    setSplitOldShares("");
+  };
+
   const [customPriceInput, setCustomPriceInput] = useState<string>("");
   const [profitRangeMax, setProfitRangeMax] = useState<number>(loadProfitRange);
 
@@ -328,7 +384,7 @@ const StockDetail = ({
   }, [breakEvenPrice, currentHoldingQty, chartData, profitTargetRows, price]);
 
   const customPriceForChart = useMemo(() => {
-    const parsed = parseFloat(customPriceInput.replace(/[,\s$]/g, ""));
+    const parsed = parseFloat(customPriceInput.replace(/[,\s$₪]/g, ""));
     if (!Number.isFinite(parsed) || parsed <= 0) return null;
     if (breakEvenPrice === null || currentHoldingQty <= 0) return null;
     const profit = calculateNetProfit(parsed) ?? 0;
@@ -340,11 +396,12 @@ const StockDetail = ({
     const loadData = async () => {
       setIsPriceLoading(true);
       setPriceError(null);
-      const cached = getCachedStockPrice(ticker);
+      const quoteSymbol = yahooSymbolFor(ticker, readTaseSymbols(localStorage));
+      const cached = getCachedStockPrice(quoteSymbol);
       if (cached) setPrice(cached);
 
       try {
-        const priceData = await fetchStockPrice(ticker);
+        const priceData = await fetchStockPrice(quoteSymbol);
         if (priceData) setPrice(priceData);
       } catch (err) {
         console.error("Failed to load stock price:", err);
@@ -405,7 +462,7 @@ const StockDetail = ({
                 <span className="price-status">טוען מחיר...</span>
               ) : price ? (
                 <>
-                  <span className="current-price">${price.price.toFixed(2)}</span>
+                  <span className="current-price">{sym}{price.price.toFixed(2)}</span>
                   <span
                     className={
                       price.change >= 0
@@ -428,17 +485,17 @@ const StockDetail = ({
         {holdingStats && (
           <div className="stock-kpi-grid">
             <KPICard label="כמות" value={formatNumber(holdingStats.qty)} icon="📦" />
-            <KPICard label="מחיר ממוצע" value={formatUsd(holdingStats.avgCost)} icon="🧾" />
-            <KPICard label="עלות כוללת" value={formatUsd(holdingStats.costBasis)} icon="💵" />
+            <KPICard label="מחיר ממוצע" value={money(holdingStats.avgCost)} icon="🧾" />
+            <KPICard label="עלות כוללת" value={money(holdingStats.costBasis)} icon="💵" />
             <KPICard
               label="שווי נוכחי"
-              value={holdingStats.currentValue !== null ? formatUsd(holdingStats.currentValue) : "—"}
+              value={holdingStats.currentValue !== null ? money(holdingStats.currentValue) : "—"}
               icon="💼"
             />
             <KPICard
               label="רווח/הפסד לא ממומש"
               value={
-                holdingStats.unrealizedPnL !== null ? formatSignedUsd(holdingStats.unrealizedPnL) : "—"
+                holdingStats.unrealizedPnL !== null ? formatSignedMoney(holdingStats.unrealizedPnL, currency) : "—"
               }
               change={
                 holdingStats.unrealizedPct !== null
@@ -456,9 +513,9 @@ const StockDetail = ({
             />
             <KPICard
               label='סה"כ דיבידנד'
-              value={dividendTotals.dividend > 0 ? formatUsd(dividendTotals.dividend) : "—"}
+              value={dividendTotals.dividend > 0 ? money(dividendTotals.dividend) : "—"}
               changeKind={dividendTotals.dividend > 0 ? "positive" : "neutral"}
-              sub={dividendTotals.dividend > 0 ? `נטו ${formatUsd(dividendTotals.net)}` : undefined}
+              sub={dividendTotals.dividend > 0 ? `נטו ${money(dividendTotals.net)}` : undefined}
               icon="💰"
             />
             <KPICard
@@ -479,6 +536,8 @@ const StockDetail = ({
           </div>
         )}
 
+        <PriceHistoryChart quoteSymbol={quoteSymbol} currencySymbol={sym} avgCost={holdingStats?.avgCost} />
+
         <div className="stock-stats-card">
           <div className="profit-chart-card">
             <div className="profit-chart-header">
@@ -508,7 +567,7 @@ const StockDetail = ({
               />
               {customPriceForChart && (
                 <span className={customPriceForChart.profit >= 0 ? "profit-val-positive" : "profit-val-negative"}>
-                  {customPriceForChart.profit >= 0 ? "+" : ""}${formatNumber(customPriceForChart.profit)}
+                  {customPriceForChart.profit >= 0 ? "+" : ""}{sym}{formatNumber(customPriceForChart.profit)}
                   {!customPriceForChart.inRange && <span className="profit-out-of-range"> (מחוץ לטווח)</span>}
                 </span>
               )}
@@ -532,7 +591,7 @@ const StockDetail = ({
                   <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" vertical={false} />
                   <XAxis
                     dataKey="price"
-                    tickFormatter={(v) => `$${Number(v).toFixed(0)}`}
+                    tickFormatter={(v) => `${sym}${Number(v).toFixed(0)}`}
                     tick={{ fontSize: 11, fill: "#64748b" }}
                     axisLine={{ stroke: "#e2e8f0" }}
                     tickLine={false}
@@ -541,7 +600,7 @@ const StockDetail = ({
                     tickCount={6}
                   />
                   <YAxis
-                    tickFormatter={(v) => `${Number(v) < 0 ? "-" : ""}$${formatNumber(Math.abs(Number(v)))}`}
+                    tickFormatter={(v) => `${Number(v) < 0 ? "-" : ""}${sym}${formatNumber(Math.abs(Number(v)))}`}
                     tick={{ fontSize: 11, fill: "#64748b" }}
                     axisLine={false}
                     tickLine={false}
@@ -553,9 +612,9 @@ const StockDetail = ({
                       const d = payload[0].payload as { price: number; netProfit: number };
                       return (
                         <div className="profit-chart-tooltip">
-                          <div>מחיר: <strong>${d.price.toFixed(2)}</strong></div>
+                          <div>מחיר: <strong>{sym}{d.price.toFixed(2)}</strong></div>
                           <div className={d.netProfit >= 0 ? "profit-val-positive" : "profit-val-negative"}>
-                            רווח נטו: {d.netProfit >= 0 ? "+" : ""}${formatNumber(d.netProfit)}
+                            רווח נטו: {d.netProfit >= 0 ? "+" : ""}{sym}{formatNumber(d.netProfit)}
                           </div>
                         </div>
                       );
@@ -612,14 +671,14 @@ const StockDetail = ({
                     {breakEvenPrice !== null && (
                       <tr>
                         <td>ללא הפסד</td>
-                        <td className="mono">${formatNumber(breakEvenPrice)}</td>
+                        <td className="mono">{sym}{formatNumber(breakEvenPrice)}</td>
                       </tr>
                     )}
                     {profitTargetRows.map((row) => (
                       <tr key={row.target}>
                         <td className="val-positive">+${row.target}</td>
                         <td className="mono">
-                          {row.price !== null ? `$${formatNumber(row.price)}` : "—"}
+                          {row.price !== null ? `${sym}${formatNumber(row.price)}` : "—"}
                         </td>
                       </tr>
                     ))}
@@ -633,9 +692,9 @@ const StockDetail = ({
                 <div key={dot.key} className="profit-legend-item">
                   <span className="profit-legend-dot" style={{ background: dot.fill }} />
                   <span className="profit-legend-label">{dot.label}</span>
-                  <span className="profit-legend-price">${formatNumber(dot.x)}</span>
+                  <span className="profit-legend-price">{sym}{formatNumber(dot.x)}</span>
                   <span className={`profit-legend-val ${dot.profit >= 0 ? "profit-val-positive" : "profit-val-negative"}`}>
-                    {dot.profit >= 0 ? "+" : ""}${formatNumber(dot.profit)}
+                    {dot.profit >= 0 ? "+" : ""}{sym}{formatNumber(dot.profit)}
                   </span>
                 </div>
               ))}
@@ -643,9 +702,9 @@ const StockDetail = ({
                 <div className="profit-legend-item">
                   <span className="profit-legend-dot" style={{ background: "#f59e0b" }} />
                   <span className="profit-legend-label">מותאם</span>
-                  <span className="profit-legend-price">${formatNumber(customPriceForChart.price)}</span>
+                  <span className="profit-legend-price">{sym}{formatNumber(customPriceForChart.price)}</span>
                   <span className={`profit-legend-val ${customPriceForChart.profit >= 0 ? "profit-val-positive" : "profit-val-negative"}`}>
-                    {customPriceForChart.profit >= 0 ? "+" : ""}${formatNumber(customPriceForChart.profit)}
+                    {customPriceForChart.profit >= 0 ? "+" : ""}{sym}{formatNumber(customPriceForChart.profit)}
                   </span>
                 </div>
               )}
@@ -686,8 +745,8 @@ const StockDetail = ({
                           {row.actionLabel}
                         </td>
                         <td>{formatNumber(row.quantity)}</td>
-                        <td>{row.price ? `${formatNumber(row.price)}$` : "-"}</td>
-                        <td>{row.fee ? `${formatNumber(row.fee)}$` : "-"}</td>
+                        <td>{row.price ? `${formatNumber(row.price)}${sym}` : "-"}</td>
+                        <td>{row.fee ? `${formatNumber(row.fee)}${sym}` : "-"}</td>
                         <td>{formatNumber(row.cumulative)}</td>
                       </tr>
                     ))}
@@ -696,6 +755,75 @@ const StockDetail = ({
               </div>
             )}
           </div>
+          <div className="stock-transactions-card">
+            <h2>פיצולים ואיחודים</h2>
+            <p className="split-note">
+              כמויות ומחירים של פעולות שלפני הפיצול מוצגים ומחושבים במונחי המניות של היום.
+            </p>
+            {tickerActions.length === 0 ? (
+              <div className="empty">לא זוהו פיצולים למניה זו.</div>
+            ) : (
+              <div className="table-wrap">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>תאריך</th>
+                      <th>יחס</th>
+                      <th>מקור</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tickerActions.map((action) => (
+                      <tr key={action.id}>
+                        <td>{action.date}</td>
+                        <td className="mono">{formatSplitRatio(action.ratio)}</td>
+                        <td>{action.source === "detected" ? "מקובץ IBI" : "הוגדר ידנית"}</td>
+                        <td>
+                          {action.source === "manual" && onRemoveCorporateAction && (
+                            <button className="alert-remove" onClick={() => onRemoveCorporateAction(action.id)}>
+                              ✕
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {onAddCorporateAction && (
+              <div className="split-declare-row">
+                <input
+                  type="date"
+                  value={splitDate}
+                  onChange={(e) => setSplitDate(e.target.value)}
+                  className="alert-price-input"
+                  aria-label="תאריך הפיצול"
+                />
+                <input
+                  type="number"
+                  placeholder="מניות חדשות"
+                  value={splitNewShares}
+                  onChange={(e) => setSplitNewShares(e.target.value)}
+                  className="alert-price-input split-shares-input"
+                  min="0"
+                />
+                <span>תמורת</span>
+                <input
+                  type="number"
+                  placeholder="מניות ישנות"
+                  value={splitOldShares}
+                  onChange={(e) => setSplitOldShares(e.target.value)}
+                  className="alert-price-input split-shares-input"
+                  min="0"
+                />
+                <button type="button" className="upload alert-add-button" onClick={declareSplit}>
+                  + הוסף פיצול
+                </button>
+              </div>
+            )}
+          </div>
           <div className="stock-transactions-card">
             <h2>דיבידנד לפי תאריך</h2>
             {dividendRows.length === 0 ? (
@@ -715,18 +843,18 @@ const StockDetail = ({
                     {dividendRows.map((row, index) => (
                       <tr key={`${row.dateLabel}-${index}`}>
                         <td>{row.dateLabel}</td>
-                        <td>{row.dividend ? `${formatNumber(row.dividend)}$` : "-"}</td>
-                        <td>{row.tax ? `${formatNumber(row.tax)}$` : "-"}</td>
-                        <td>{row.net ? `${formatNumber(row.net)}$` : "-"}</td>
+                        <td>{row.dividend ? `${formatNumber(row.dividend)}${sym}` : "-"}</td>
+                        <td>{row.tax ? `${formatNumber(row.tax)}${sym}` : "-"}</td>
+                        <td>{row.net ? `${formatNumber(row.net)}${sym}` : "-"}</td>
                       </tr>
                     ))}
                   </tbody>
                   <tfoot>
                     <tr className="dividend-summary-row">
                       <td>סה"כ</td>
-                      <td>{dividendTotals.dividend ? `${formatNumber(dividendTotals.dividend)}$` : "-"}</td>
-                      <td>{dividendTotals.tax ? `${formatNumber(dividendTotals.tax)}$` : "-"}</td>
-                      <td>{dividendTotals.net ? `${formatNumber(dividendTotals.net)}$` : "-"}</td>
+                      <td>{dividendTotals.dividend ? `${formatNumber(dividendTotals.dividend)}${sym}` : "-"}</td>
+                      <td>{dividendTotals.tax ? `${formatNumber(dividendTotals.tax)}${sym}` : "-"}</td>
+                      <td>{dividendTotals.net ? `${formatNumber(dividendTotals.net)}${sym}` : "-"}</td>
                     </tr>
                   </tfoot>
                 </table>
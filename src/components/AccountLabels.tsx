@@ -0,0 +1,46 @@
+import { useState } from "react";
+
+interface AccountLabelsProps {
+  accounts: string[];
+  fileAccounts: string[]; // account label per loaded file
+  onRename: (from: string, to: string) => void;
+}
+
+// Rename the accounts uploaded files were tagged with. Edits are committed on
+// blur / Enter.
+const AccountLabels = ({ accounts, fileAccounts, onRename }: AccountLabelsProps) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  if (accounts.length === 0) return null;
+
+  const commit = (account: string) => {
+    const draft = drafts[account];
+    if (draft === undefined) return;
+    onRename(account, draft);
+    setDrafts(({ [account]: _, ...rest }) => rest);
+  };
+
+  return (
+    <div className="account-labels">
+      {accounts.map((account) => {
+        const files = fileAccounts.filter((label) => label === account).length;
+        return (
+          <div key={account} className="account-label-row">
+            <input
+              className="alert-price-input account-label-input"
+              value={drafts[account] ?? account}
+              onChange={(event) => setDrafts((prev) => ({ ...prev, [account]: event.target.value }))}
+              onBlur={() => commit(account)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") commit(account);
+              }}
+              aria-label={`שם החשבון ${account}`}
+            />
+            <span className="import-history-files">{files} קבצים</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AccountLabels;
@@ -0,0 +1,30 @@
+interface AccountSelectorProps {
+  accounts: string[];
+  selected: string | null; // null = all accounts
+  onChange: (account: string | null) => void;
+}
+
+// Scopes every tab to one account, or consolidates them all. Hidden while only
+// one account is loaded.
+const AccountSelector = ({ accounts, selected, onChange }: AccountSelectorProps) => {
+  if (accounts.length < 2) return null;
+  return (
+    <label className="account-selector">
+      <span>חשבון</span>
+      <select
+        className="alert-select"
+        value={selected ?? ""}
+        onChange={(event) => onChange(event.target.value === "" ? null : event.target.value)}
+      >
+        <option value="">כל החשבונות</option>
+        {accounts.map((account) => (
+          <option key={account} value={account}>
+            {account}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default AccountSelector;
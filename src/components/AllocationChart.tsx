@@ -53,7 +53,10 @@ const AllocationChart = ({ data }: AllocationChartProps) => {
               const slice = payload[0].payload as AllocationSlice;
               return (
                 <div className="account-chart-tooltip">
-                  <div className="account-chart-tooltip-title">{slice.symbol}</div>
+                  <div className="account-chart-tooltip-title">
+                    {slice.symbol}
+                    {slice.manual && <span className="badge badge-manual">ידני</span>}
+                  </div>
                   <div className="account-chart-tooltip-row">
                     <span>שווי</span>
                     <span className="mono">{formatUsd(slice.value)}</span>
@@ -77,6 +80,11 @@ const AllocationChart = ({ data }: AllocationChartProps) => {
               style={{ background: COLORS[i % COLORS.length] }}
             />
             <span className="allocation-legend-symbol">{slice.symbol}</span>
+            {slice.manual && (
+              <span className="badge badge-manual" title="מחיר שהוזן ידנית">
+                ידני
+              </span>
+            )}
             <span className="allocation-legend-percent mono">{slice.percent.toFixed(1)}%</span>
           </li>
         ))}
@@ -12,11 +12,17 @@ import {
 } from "recharts";
 import SortableTable, { Column } from "../SortableTable";
 import { usePortfolio } from "../hooks/usePortfolio";
-import { CAPITAL_GAINS_TAX_RATE } from "../types";
-import { formatUsd, formatSignedUsd, formatNumber } from "../utils/format";
-import { exportToExcel } from "../utils/exportExcel";
+import { CAPITAL_GAINS_TAX_RATE, CostMethod } from "../types";
+import { formatUsd, formatSignedUsd, formatNumber, formatIls, formatSignedMoney } from "../utils/format";
+import { exportSheetsToExcel, exportToExcel } from "../utils/exportExcel";
+import { build1325Reports, form1325Sheets } from "../utils/form1325";
+import { COST_METHOD_LABELS } from "../utils/lots";
+import { cpiLatestMonth, parseCpiCsv, realGain } from "../utils/cpi";
 import FeeAnalysis from "./FeeAnalysis";
 import HoldingDistribution from "./HoldingDistribution";
+import TaxLossHarvesting from "./TaxLossHarvesting";
+import TaxReconciliation from "./TaxReconciliation";
+import DividendAudit from "./DividendAudit";
 
 type Portfolio = ReturnType<typeof usePortfolio>;
 
@@ -46,17 +52,53 @@ const signedCell = (value: unknown) => {
 };
 
 const Analytics = ({ portfolio }: AnalyticsProps) => {
-  const { realizedRounds, stockPerformance, yearlySummary, quarterlyComparison } = portfolio;
+  const {
+    transactions,
+    positions,
+    realizedRounds,
+    realizedSales,
+    dividends,
+    stockPerformance,
+    yearlySummary,
+    quarterlyComparison,
+    costMethod,
+    setCostMethod,
+    cpiSeries,
+    cpiImported,
+    setCpiImport,
+  } = portfolio;
 
   const years = yearlySummary.map((y) => y.year);
   const [taxScope, setTaxScope] = useState<"all" | number>("all");
   const [cpiPercent, setCpiPercent] = useState<string>("");
+  const [cpiNote, setCpiNote] = useState<{ text: string; error: boolean } | null>(null);
 
-  // Totals for the tax calculator over the selected scope. Annual filing nets
-  // gains against losses, so taxable = max(0, net trading P&L).
+  const importCpi = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { series, skipped } = parseCpiCsv(await file.text());
+      const months = Object.keys(series).length;
+      if (months === 0) {
+        setCpiNote({ text: "לא נמצאו בקובץ שורות של חודש וערך מדד — המדד לא עודכן.", error: true });
+        return;
+      }
+      setCpiImport(series);
+      setCpiNote({
+        text: `יובאו ${months} חודשי מדד${skipped.length > 0 ? ` · שורות שלא נקראו: ${skipped.join(", ")}` : ""}`,
+        error: false,
+      });
+    } catch (err) {
+      console.error("CPI import failed", err);
+      setCpiNote({ text: "קריאת קובץ המדד נכשלה — המדד לא עודכן.", error: true });
+    }
+  };
+
+  // Totals for the tax calculator over the selected scope. Every sale is a
+  // realization event; annual filing nets gains against losses, so
+  // taxable = max(0, net trading P&L).
   const taxTotals = useMemo(() => {
-    const scoped = realizedRounds.filter((r) =>
-      taxScope === "all" ? true : new Date(r.lastTimestamp).getFullYear() === taxScope
+    const scoped = realizedSales.filter((r) =>
+      taxScope === "all" ? true : new Date(r.timestamp).getFullYear() === taxScope
     );
     const gains = scoped.filter((r) => r.netFromTrading >= 0).reduce((s, r) => s + r.netFromTrading, 0);
     const losses = scoped.filter((r) => r.netFromTrading < 0).reduce((s, r) => s + r.netFromTrading, 0);
@@ -65,15 +107,48 @@ const Analytics = ({ portfolio }: AnalyticsProps) => {
     const taxable = Math.max(0, net);
     const tax = taxable * CAPITAL_GAINS_TAX_RATE;
 
+    // Real gain: each lot indexed from its purchase month to its sale month by
+    // the CPI series, unless a single inflation % is typed in to override it
+    // for the whole scope.
+    const real = scoped.map((sale) => realGain(sale, cpiSeries));
+    const unindexed = scoped.filter((_, i) => !real[i].indexed);
+    const realNet = real.reduce((s, r) => s + r.realNetFromTrading, 0);
+    const realNetIls = real.reduce((s, r) => s + r.realNetFromTradingIls, 0);
     const cpi = parseFloat(cpiPercent);
-    const hasCpi = Number.isFinite(cpi) && cpi > 0;
-    const realTaxable = hasCpi ? Math.max(0, net - (costBasis * cpi) / 100) : taxable;
+    const cpiOverride = Number.isFinite(cpi) && cpi > 0;
+    const realTaxable = cpiOverride ? Math.max(0, net - (costBasis * cpi) / 100) : Math.max(0, realNet);
     const realTax = realTaxable * CAPITAL_GAINS_TAX_RATE;
+    const realTaxIls = Math.max(0, realNetIls) * CAPITAL_GAINS_TAX_RATE;
 
     const lossShield = net < 0 ? Math.abs(net) : 0;
 
-    return { gains, losses, net, costBasis, taxable, tax, hasCpi, realTaxable, realTax, lossShield };
-  }, [realizedRounds, taxScope, cpiPercent]);
+    // Nominal shekel track: what the Israeli return is assessed on, with the
+    // exchange-rate move between buy and sell included in the gain.
+    const gainsIls = scoped.filter((r) => r.netFromTradingIls >= 0).reduce((s, r) => s + r.netFromTradingIls, 0);
+    const lossesIls = scoped.filter((r) => r.netFromTradingIls < 0).reduce((s, r) => s + r.netFromTradingIls, 0);
+    const netIls = gainsIls + lossesIls;
+    const taxIls = Math.max(0, netIls) * CAPITAL_GAINS_TAX_RATE;
+
+    return {
+      gains,
+      losses,
+      net,
+      costBasis,
+      taxable,
+      tax,
+      cpiOverride,
+      unindexed,
+      realTaxable,
+      realTax,
+      realNetIls,
+      realTaxIls,
+      lossShield,
+      gainsIls,
+      lossesIls,
+      netIls,
+      taxIls,
+    };
+  }, [realizedSales, taxScope, cpiPercent, cpiSeries]);
 
   const perfRows: PerfRow[] = useMemo(
     () =>
@@ -150,32 +225,68 @@ const Analytics = ({ portfolio }: AnalyticsProps) => {
       [
         {
           תקופה: scopeLabel,
+          "שיטת עלות": COST_METHOD_LABELS[costMethod],
           "רווחים ($)": taxTotals.gains,
           "הפסדים ($)": taxTotals.losses,
           "נטו לפני מס ($)": taxTotals.net,
           "בסיס חייב במס ($)": taxTotals.taxable,
           "מס משוער 25% ($)": taxTotals.tax,
           "מגן מס אפשרי ($)": taxTotals.lossShield,
-          "מדד/אינפלציה (%)": cpiPercent ? Number(cpiPercent) : 0,
-          "מס ריאלי משוער ($)": taxTotals.hasCpi ? taxTotals.realTax : taxTotals.tax,
+          "מדד/אינפלציה (%)": taxTotals.cpiOverride
+            ? Number(cpiPercent)
+            : cpiImported
+              ? "לפי מדד מיובא"
+              : "ללא מדד",
+          "בסיס ריאלי חייב במס ($)": taxTotals.realTaxable,
+          "מס ריאלי משוער ($)": taxTotals.realTax,
+          "רווחים (₪)": taxTotals.gainsIls,
+          "הפסדים (₪)": taxTotals.lossesIls,
+          "נטו לפני מס (₪)": taxTotals.netIls,
+          "מס משוער 25% (₪)": taxTotals.taxIls,
+          "רווח ריאלי (₪)": taxTotals.realNetIls,
+          "מס ריאלי משוער (₪)": taxTotals.realTaxIls,
         },
-        ...yearlySummary.map((year) => ({
-          תקופה: String(year.year),
-          "רווחים ($)": year.gains,
-          "הפסדים ($)": year.losses,
-          "נטו לפני מס ($)": year.netFromTrading,
-          "בסיס חייב במס ($)": Math.max(0, year.netFromTrading),
-          "מס משוער 25% ($)": Math.max(0, year.netFromTrading) * CAPITAL_GAINS_TAX_RATE,
-          "מגן מס אפשרי ($)": year.netFromTrading < 0 ? Math.abs(year.netFromTrading) : 0,
-          "דיבידנד נטו ($)": year.dividendsNet,
-          "רווח נטו סופי ($)": year.finalPnL,
-        })),
+        ...yearlySummary.map((year) => {
+          const real = realizedSales
+            .filter((sale) => new Date(sale.timestamp).getFullYear() === year.year)
+            .map((sale) => realGain(sale, cpiSeries));
+          const realNet = real.reduce((s, r) => s + r.realNetFromTrading, 0);
+          const realNetIls = real.reduce((s, r) => s + r.realNetFromTradingIls, 0);
+          return {
+            תקופה: String(year.year),
+            "רווחים ($)": year.gains,
+            "הפסדים ($)": year.losses,
+            "נטו לפני מס ($)": year.netFromTrading,
+            "בסיס חייב במס ($)": Math.max(0, year.netFromTrading),
+            "מס משוער 25% ($)": Math.max(0, year.netFromTrading) * CAPITAL_GAINS_TAX_RATE,
+            "מגן מס אפשרי ($)": year.netFromTrading < 0 ? Math.abs(year.netFromTrading) : 0,
+            "דיבידנד נטו ($)": year.dividendsNet,
+            "רווח נטו סופי ($)": year.finalPnL,
+            "רווחים (₪)": year.gainsIls,
+            "הפסדים (₪)": year.lossesIls,
+            "נטו לפני מס (₪)": year.netFromTradingIls,
+            "מס משוער 25% (₪)": Math.max(0, year.netFromTradingIls) * CAPITAL_GAINS_TAX_RATE,
+            "בסיס ריאלי חייב במס ($)": Math.max(0, realNet),
+            "מס ריאלי משוער ($)": Math.max(0, realNet) * CAPITAL_GAINS_TAX_RATE,
+            "רווח ריאלי (₪)": realNetIls,
+            "מס ריאלי משוער (₪)": Math.max(0, realNetIls) * CAPITAL_GAINS_TAX_RATE,
+          };
+        }),
       ],
       "ibi_tax_center",
       "מס"
     );
   };
 
+  const handleExport1325 = () => {
+    const reports = build1325Reports(realizedSales, dividends, transactions, cpiSeries, portfolio.usdIlsRate).filter(
+      (report) => taxScope === "all" || report.year === taxScope
+    );
+    exportSheetsToExcel(form1325Sheets(reports), taxScope === "all" ? "ibi_1325" : `ibi_1325_${taxScope}`, {
+      formatted: true,
+    });
+  };
+
   return (
     <div className="analytics-panel">
       {/* Year comparison */}
@@ -221,11 +332,13 @@ const Analytics = ({ portfolio }: AnalyticsProps) => {
               <thead>
                 <tr>
                   <th>שנה</th>
-                  <th>עסקאות</th>
+                  <th>מכירות</th>
                   <th>רווחים</th>
                   <th>הפסדים</th>
                   <th>נטו לפני מס</th>
                   <th>מס משוער</th>
+                  <th>נטו לפני מס (₪)</th>
+                  <th>מס משוער (₪)</th>
                   <th>דיבידנד נטו</th>
                   <th>רווח נטו סופי</th>
                 </tr>
@@ -241,6 +354,14 @@ const Analytics = ({ portfolio }: AnalyticsProps) => {
                       {formatSignedUsd(y.netFromTrading)}
                     </td>
                     <td className="mono">{y.capitalGainsTax > 0 ? `-${formatUsd(y.capitalGainsTax)}` : "-"}</td>
+                    <td className={`mono ${y.netFromTradingIls >= 0 ? "val-positive" : "val-negative"}`}>
+                      {formatSignedMoney(y.netFromTradingIls, "ILS")}
+                    </td>
+                    <td className="mono">
+                      {y.netFromTradingIls > 0
+                        ? `-${formatIls(y.netFromTradingIls * CAPITAL_GAINS_TAX_RATE)}`
+                        : "-"}
+                    </td>
                     <td className="mono">{y.dividendsNet !== 0 ? formatSignedUsd(y.dividendsNet) : "-"}</td>
                     <td className={`mono ${y.finalPnL >= 0 ? "val-positive" : "val-negative"}`}>
                       {formatSignedUsd(y.finalPnL)}
@@ -273,7 +394,17 @@ const Analytics = ({ portfolio }: AnalyticsProps) => {
               </select>
             </label>
             <label>
-              מדד/אינפלציה %:
+              שיטת עלות:
+              <select value={costMethod} onChange={(e) => setCostMethod(e.target.value as CostMethod)}>
+                {(Object.keys(COST_METHOD_LABELS) as CostMethod[]).map((method) => (
+                  <option key={method} value={method}>
+                    {COST_METHOD_LABELS[method]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              עקיפת מדד %:
               <input
                 type="text"
                 inputMode="decimal"
@@ -286,6 +417,9 @@ const Analytics = ({ portfolio }: AnalyticsProps) => {
             <button type="button" className="export-btn" onClick={handleExportTax}>
               ⬇ ייצוא סיכום מס
             </button>
+            <button type="button" className="export-btn" onClick={handleExport1325}>
+              ⬇ דוח שנתי (נספח 1325)
+            </button>
           </div>
         </div>
 
@@ -316,20 +450,98 @@ const Analytics = ({ portfolio }: AnalyticsProps) => {
             <span className="analytics-tax-label">מגן מס אפשרי</span>
             <span className="mono">{taxTotals.lossShield > 0 ? formatUsd(taxTotals.lossShield) : "-"}</span>
           </div>
-          {taxTotals.hasCpi && (
-            <div className="analytics-tax-item highlight">
-              <span className="analytics-tax-label">מס ריאלי משוער</span>
-              <span className="mono val-negative">{formatUsd(taxTotals.realTax)}</span>
-            </div>
-          )}
+          <div className="analytics-tax-item">
+            <span className="analytics-tax-label">נטו נומינלי בשקלים</span>
+            <span className={`mono ${taxTotals.netIls >= 0 ? "val-positive" : "val-negative"}`}>
+              {formatSignedMoney(taxTotals.netIls, "ILS")}
+            </span>
+          </div>
+          <div className="analytics-tax-item highlight">
+            <span className="analytics-tax-label">מס משוער בשקלים</span>
+            <span className="mono val-negative">{formatIls(taxTotals.taxIls)}</span>
+          </div>
+          <div className="analytics-tax-item">
+            <span className="analytics-tax-label">בסיס ריאלי חייב במס</span>
+            <span className="mono">{formatUsd(taxTotals.realTaxable)}</span>
+          </div>
+          <div className="analytics-tax-item highlight">
+            <span className="analytics-tax-label">מס ריאלי משוער</span>
+            <span className="mono val-negative">{formatUsd(taxTotals.realTax)}</span>
+          </div>
+          <div className="analytics-tax-item">
+            <span className="analytics-tax-label">מס ריאלי בשקלים</span>
+            <span className="mono val-negative">{formatIls(taxTotals.realTaxIls)}</span>
+          </div>
         </div>
         <p className="analytics-tax-note">
-          אומדן בלבד. חישוב שנתי מקזז רווחים מול הפסדים; המס מחושב על הרווח הריאלי בלבד.
+          אומדן בלבד. כל מכירה (גם חלקית) ממומשת מול מנות הקנייה לפי שיטת העלות שנבחרה; חישוב
+          שנתי מקזז רווחים מול הפסדים; המס מחושב על הרווח הריאלי בלבד. המסלול השקלי מתרגם כל
+          קנייה ומכירה לפי שער הדולר ביום העסקה, כך ששינויי שער נכללים ברווח.
           {" "}הייצוא נוצר מקומית בדפדפן ואינו שולח נתונים החוצה.
-          {taxTotals.hasCpi
+          {taxTotals.cpiOverride
             ? ` הבסיס הריאלי מתחשב באינפלציה של ${formatNumber(parseFloat(cpiPercent))}% על עלות הרכישה.`
-            : ""}
+            : cpiImported
+              ? ` הבסיס הריאלי מצמיד את עלות כל מנה למדד המחירים לצרכן מחודש הקנייה ועד חודש המכירה (סדרת מדד מיובאת, מעודכנת עד ${cpiLatestMonth(cpiSeries)}).`
+              : ""}
         </p>
+        {!taxTotals.cpiOverride && !cpiImported && (
+          <p className="dashboard-price-note error">
+            לא יובא מדד המחירים לצרכן — הבסיס הריאלי כאן שווה לנומינלי. לחישוב ריאלי יש לייבא את סדרת המדד החודשית של
+            הלמ״ס.
+          </p>
+        )}
+        {!taxTotals.cpiOverride && cpiImported && taxTotals.unindexed.length > 0 && (
+          <p className="dashboard-price-note error">
+            מחוץ לטווח המדד המיובא (עד {cpiLatestMonth(cpiSeries)}) — העלות לא הוצמדה והרווח הריאלי נומינלי:{" "}
+            {taxTotals.unindexed.map((sale) => `${sale.symbol} ${sale.date}`).join(", ")}
+          </p>
+        )}
+        <div className="split-declare-row">
+          <label className="upload ghost">
+            <input
+              type="file"
+              accept=".csv,.txt"
+              onChange={(event) => {
+                importCpi(event.target.files?.[0]);
+                event.target.value = "";
+              }}
+            />
+            📥 ייבוא מדד (CSV: חודש, ערך)
+          </label>
+          {cpiImported && (
+            <button
+              type="button"
+              className="upload ghost"
+              onClick={() => {
+                setCpiImport(null);
+                setCpiNote(null);
+              }}
+            >
+              הסרת המדד המיובא
+            </button>
+          )}
+        </div>
+        {cpiNote && (
+          <p className={cpiNote.error ? "dashboard-price-note error" : "analytics-tax-note"}>{cpiNote.text}</p>
+        )}
+      </div>
+
+      {/* Tax reconciliation */}
+      <div className="analytics-card">
+        <h3>התאמת מס: אומדן מול IBI מול חיוב בפועל</h3>
+        <TaxReconciliation transactions={transactions} realizedSales={realizedSales} />
+      </div>
+
+      {/* Dividend withholding */}
+      <div className="analytics-card">
+        <h3>ביקורת ניכוי מס במקור על דיבידנדים</h3>
+        <DividendAudit dividends={dividends} />
+      </div>
+
+      {/* Tax-loss harvesting */}
+      <div className="analytics-card">
+        <h3>קציר הפסדים לפני סוף השנה</h3>
+        <TaxLossHarvesting positions={positions} realizedSales={realizedSales} />
       </div>
 
       {/* Fee analysis */}
@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useState } from "react";
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from "recharts";
+import type { Transaction } from "../types";
+import { fetchLongHistory, HistoricalDataPoint } from "../stockPriceService";
+import { formatNumber, formatPercent, formatSignedUsd, formatUsd } from "../utils/format";
+import {
+  BENCHMARKS,
+  benchmarkComparison,
+  benchmarkSummary,
+  readBenchmark,
+  saveBenchmark,
+} from "../utils/benchmark";
+
+interface BenchmarkComparisonProps {
+  transactions: Transaction[];
+  histories: Map<string, HistoricalDataPoint[]> | null; // null while loading
+  usdIlsRate: number;
+}
+
+// The portfolio against the same deposits put into an index on the same days.
+const BenchmarkComparison = ({ transactions, histories, usdIlsRate }: BenchmarkComparisonProps) => {
+  const [symbol, setSymbol] = useState(() => readBenchmark(localStorage));
+  const [benchmarkHistory, setBenchmarkHistory] = useState<HistoricalDataPoint[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBenchmarkHistory(null);
+    fetchLongHistory(symbol)
+      .catch(() => [])
+      .then((history) => {
+        if (!cancelled) setBenchmarkHistory(history);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol]);
+
+  const handleChange = (next: string) => {
+    setSymbol(next);
+    saveBenchmark(localStorage, next);
+  };
+
+  const points = useMemo(
+    () =>
+      histories && benchmarkHistory
+        ? benchmarkComparison(transactions, histories, symbol, benchmarkHistory, usdIlsRate)
+        : [],
+    [transactions, histories, symbol, benchmarkHistory, usdIlsRate]
+  );
+  const summary = benchmarkSummary(points);
+  const label = BENCHMARKS.find((b) => b.symbol === symbol)?.label ?? symbol;
+  const loading = histories === null || benchmarkHistory === null;
+
+  return (
+    <div className="dashboard-card">
+      <div className="dashboard-card-head">
+        <div>
+          <h3>התיק מול מדד ייחוס</h3>
+          <p className="dashboard-card-note">כל הפקדה מושקעת במדד באותו יום, וכל משיכה נמכרת ממנו.</p>
+        </div>
+        <select value={symbol} onChange={(e) => handleChange(e.target.value)} aria-label="מדד ייחוס">
+          {BENCHMARKS.map((b) => (
+            <option key={b.symbol} value={b.symbol}>
+              {b.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="dashboard-card-empty">טוען מחירי עבר…</div>
+      ) : !summary ? (
+        <div className="dashboard-card-empty">אין נתוני מחיר עבר עבור {label}.</div>
+      ) : (
+        <>
+          <div className="analytics-tax-grid">
+            <div className="analytics-tax-item">
+              <span className="analytics-tax-label">התיק</span>
+              <span className="mono">{formatUsd(summary.portfolio)}</span>
+            </div>
+            <div className="analytics-tax-item">
+              <span className="analytics-tax-label">{label}</span>
+              <span className="mono">{formatUsd(summary.benchmark)}</span>
+            </div>
+            <div className="analytics-tax-item highlight">
+              <span className="analytics-tax-label">הפרש</span>
+              <span className={`mono ${summary.difference >= 0 ? "val-positive" : "val-negative"}`}>
+                {formatSignedUsd(summary.difference)} ({formatPercent(summary.differencePercent)})
+              </span>
+            </div>
+          </div>
+
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={points} margin={{ top: 12, right: 16, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#eef2f6" vertical={false} />
+              <XAxis dataKey="date" tick={{ fontSize: 11, fill: "#64748b" }} tickLine={false} minTickGap={32} />
+              <YAxis
+                tick={{ fontSize: 11, fill: "#64748b" }}
+                tickFormatter={(v) => `$${formatNumber(Number(v) || 0)}`}
+                axisLine={false}
+                tickLine={false}
+                width={80}
+              />
+              <Tooltip formatter={(value, name) => [formatUsd(Number(value) || 0), String(name)]} />
+              <Legend />
+              <Line type="monotone" dataKey="portfolio" name="התיק" stroke="#4f8ef7" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="benchmark" name={label} stroke="#f5a623" strokeWidth={2} dot={false} />
+              <Line
+                type="stepAfter"
+                dataKey="invested"
+                name="הפקדות נטו"
+                stroke="#94a3b8"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BenchmarkComparison;
@@ -0,0 +1,114 @@
+import { useMemo } from "react";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from "recharts";
+import type { Transaction } from "../types";
+import { formatIls, formatNumber, formatSignedMoney } from "../utils/format";
+import {
+  buildCashLedger,
+  cashBalanceSeries,
+  cashTotals,
+  CashCategory,
+  CASH_CATEGORY_LABELS,
+  isBalanceMismatch,
+} from "../utils/cashLedger";
+
+interface CashLedgerProps {
+  transactions: Transaction[];
+}
+
+// Categorized cash movements, the running shekel balance, and a row-by-row
+// check of that balance against the one IBI reports.
+const CashLedger = ({ transactions }: CashLedgerProps) => {
+  const entries = useMemo(() => buildCashLedger(transactions), [transactions]);
+  const totals = useMemo(() => cashTotals(entries), [entries]);
+  const series = useMemo(() => cashBalanceSeries(entries), [entries]);
+  const checked = entries.filter((e) => e.differenceIls !== undefined);
+  const mismatches = checked.filter(isBalanceMismatch);
+
+  if (entries.length === 0) {
+    return (
+      <div className="account-chart-card">
+        <div className="account-chart-header">ספר מזומנים</div>
+        <div className="account-chart-empty">אין תנועות מזומן להצגה.</div>
+      </div>
+    );
+  }
+
+  const categories = (Object.keys(CASH_CATEGORY_LABELS) as CashCategory[]).filter(
+    (category) => totals[category].ils !== 0 || totals[category].fx !== 0
+  );
+
+  return (
+    <div className="account-chart-card">
+      <div className="account-chart-header">ספר מזומנים</div>
+      <div className="cash-ledger-totals">
+        {categories.map((category) => (
+          <div key={category} className="analytics-tax-item">
+            <span className="analytics-tax-label">{CASH_CATEGORY_LABELS[category]}</span>
+            {totals[category].ils !== 0 && (
+              <span className={`mono ${totals[category].ils >= 0 ? "val-positive" : "val-negative"}`}>
+                {formatSignedMoney(totals[category].ils, "ILS")}
+              </span>
+            )}
+            {totals[category].fx !== 0 && (
+              <span className={`mono ${totals[category].fx >= 0 ? "val-positive" : "val-negative"}`}>
+                {formatSignedMoney(totals[category].fx, "USD")}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="account-chart">
+        <ResponsiveContainer width="100%" height={260}>
+          <LineChart data={series} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#eef2f6" vertical={false} />
+            <XAxis dataKey="date" tick={{ fontSize: 12 }} minTickGap={24} />
+            <YAxis tick={{ fontSize: 12 }} tickFormatter={(value) => `₪${formatNumber(Number(value) || 0)}`} width={80} />
+            <Tooltip formatter={(value) => [formatIls(Number(value) || 0), "יתרה שקלית"]} />
+            <Line type="stepAfter" dataKey="balance" stroke="#4f8ef7" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="account-card-subtext">
+        {checked.length === 0
+          ? "הקובץ אינו כולל יתרה שקלית לאימות."
+          : mismatches.length === 0
+            ? `היתרה המחושבת תואמת את היתרה של IBI בכל ${checked.length} השורות.`
+            : `${mismatches.length} מתוך ${checked.length} שורות חורגות מהיתרה של IBI.`}
+      </p>
+      {mismatches.length > 0 && (
+        <div className="table-wrap cash-ledger-mismatches">
+          <table>
+            <thead>
+              <tr>
+                <th>תאריך</th>
+                <th>פעולה</th>
+                <th>נייר</th>
+                <th>תנועה</th>
+                <th>יתרה צפויה</th>
+                <th>יתרה לפי IBI</th>
+                <th>פער</th>
+              </tr>
+            </thead>
+            <tbody>
+              {mismatches.map((e, i) => (
+                <tr key={`${e.account}-${e.timestamp}-${i}`} className="tax-mismatch">
+                  <td className="mono">{e.date}</td>
+                  <td>{e.action}</td>
+                  <td>{e.name}</td>
+                  <td className="mono">{formatSignedMoney(e.amountIls, "ILS")}</td>
+                  <td className="mono">{formatIls((e.reportedBalanceIls ?? 0) - (e.differenceIls ?? 0))}</td>
+                  <td className="mono">{formatIls(e.reportedBalanceIls ?? 0)}</td>
+                  <td className="mono val-negative">{formatSignedMoney(e.differenceIls ?? 0, "ILS")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CashLedger;
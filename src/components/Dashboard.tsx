@@ -1,5 +1,7 @@
-import { useEffect } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import { usePortfolio } from "../hooks/usePortfolio";
+import { usePriceHistories } from "../hooks/usePriceHistories";
+import type { PriceFailure } from "../stockPriceService";
 import KPICard from "./KPICard";
 import AllocationChart from "./AllocationChart";
 import PnLTimeline from "./PnLTimeline";
@@ -7,7 +9,16 @@ import BestWorstTrades from "./BestWorstTrades";
 import WinRateCard from "./WinRateCard";
 import PortfolioHealth from "./PortfolioHealth";
 import TargetAllocation from "./TargetAllocation";
-import { formatUsd, formatSignedUsd, formatPercent } from "../utils/format";
+import TaseSymbols from "./TaseSymbols";
+import TickerAliases from "./TickerAliases";
+import PriceProviders from "./PriceProviders";
+import ManualPrices from "./ManualPrices";
+import DividendProjection from "./DividendProjection";
+import PortfolioReturns from "./PortfolioReturns";
+import PortfolioValueHistory from "./PortfolioValueHistory";
+import BenchmarkComparison from "./BenchmarkComparison";
+import { formatIls, formatUsd, formatSignedUsd, formatPercent } from "../utils/format";
+import { symbolsNeedingHistory } from "../utils/valueHistory";
 
 type Portfolio = ReturnType<typeof usePortfolio>;
 
@@ -18,6 +29,12 @@ interface DashboardProps {
 const sign = (v: number): "positive" | "negative" | "neutral" =>
   v > 0 ? "positive" : v < 0 ? "negative" : "neutral";
 
+const FAILURE_LABELS: Record<PriceFailure, string> = {
+  unavailable: "לא נמצא במקורות המחירים",
+  "rate-limited": "מגבלת שימוש",
+  failed: "שגיאה בטעינה",
+};
+
 const Dashboard = ({ portfolio }: DashboardProps) => {
   const {
     summary,
@@ -25,16 +42,48 @@ const Dashboard = ({ portfolio }: DashboardProps) => {
     allocation,
     realizedTimeline,
     realizedRounds,
+    transactions,
+    dividends,
     pricesLoading,
     priceError,
+    priceProgress,
+    priceFailures,
     refreshPrices,
+    livePrices,
+    taseSymbols,
+    setTaseSymbol,
+    usdIlsRate,
+    tickerAliases,
+    userAliases,
+    setTickerAlias,
+    priceProviders,
+    setPriceProviderOrder,
+    manualPrices,
+    addManualPrices,
+    removeManualPrice,
   } = portfolio;
 
+  const historySymbols = useMemo(() => symbolsNeedingHistory(transactions), [transactions]);
+  const { histories, error: historyError } = usePriceHistories(historySymbols, taseSymbols);
+
+  // One controller per price load, whether started here or by the button:
+  // starting another, leaving the tab or loading another file cancels it.
+  const loading = useRef<AbortController | null>(null);
+  const loadPrices = useCallback(() => {
+    loading.current?.abort();
+    const controller = new AbortController();
+    loading.current = controller;
+    refreshPrices({ signal: controller.signal });
+  }, [refreshPrices]);
+
   // Fetch live prices once when holdings load (cached symbols resolve instantly,
   // so reloads within the cache window don't re-hit the network).
   useEffect(() => {
-    refreshPrices();
-  }, [refreshPrices]);
+    loadPrices();
+    return () => loading.current?.abort();
+  }, [loadPrices]);
+
+  const unpriced = [...priceFailures.keys()].filter((symbol) => !livePrices.has(symbol));
 
   if (positions.length === 0) {
     return null;
@@ -49,13 +98,26 @@ const Dashboard = ({ portfolio }: DashboardProps) => {
           {!priceError && !summary.hasLivePrices ? (
             <span className="dashboard-price-note">שווי לפי עלות — אין מחיר חי</span>
           ) : null}
+          {!pricesLoading && unpriced.length > 0 ? (
+            <span
+              className="dashboard-price-note"
+              title={unpriced.map((symbol) => `${symbol}: ${FAILURE_LABELS[priceFailures.get(symbol)!]}`).join("\n")}
+            >
+              אין מחיר ל-{unpriced.length} ניירות: {unpriced.slice(0, 5).join(", ")}
+              {unpriced.length > 5 ? "…" : ""}
+            </span>
+          ) : null}
           <button
             type="button"
             className="ghost"
-            onClick={refreshPrices}
+            onClick={loadPrices}
             disabled={pricesLoading}
           >
-            {pricesLoading ? "מרענן…" : "רענן מחירים"}
+            {pricesLoading
+              ? priceProgress && priceProgress.total > 0
+                ? `מרענן… ${priceProgress.done}/${priceProgress.total}`
+                : "מרענן…"
+              : "רענן מחירים"}
           </button>
         </div>
       </div>
@@ -84,6 +146,14 @@ const Dashboard = ({ portfolio }: DashboardProps) => {
           sub={`כל הזמן: ${formatSignedUsd(summary.realizedPnLAllTime)}`}
         />
         <KPICard label="מספר אחזקות" value={String(summary.holdingsCount)} icon="📦" />
+        {summary.ilsHoldingsCount > 0 && (
+          <KPICard
+            label="אחזקות בת״א"
+            value={formatIls(summary.ilsMarketValue)}
+            icon="🇮🇱"
+            sub={`${summary.ilsHoldingsCount} ניירות · $1 = ₪${summary.usdIlsRate.toFixed(3)}`}
+          />
+        )}
         <KPICard
           label="ביצוע יומי"
           value={formatSignedUsd(summary.dayChange)}
@@ -94,6 +164,17 @@ const Dashboard = ({ portfolio }: DashboardProps) => {
         />
       </div>
 
+      <PortfolioValueHistory transactions={transactions} histories={histories} usdIlsRate={usdIlsRate} />
+
+      <PortfolioReturns
+        transactions={transactions}
+        histories={histories}
+        historyError={historyError}
+        usdIlsRate={usdIlsRate}
+      />
+
+      <BenchmarkComparison transactions={transactions} histories={histories} usdIlsRate={usdIlsRate} />
+
       <PortfolioHealth portfolio={portfolio} />
 
       <div className="dashboard-charts">
@@ -107,6 +188,8 @@ const Dashboard = ({ portfolio }: DashboardProps) => {
         </div>
       </div>
 
+      <DividendProjection transactions={transactions} positions={positions} dividends={dividends} />
+
       {realizedRounds.length > 0 && (
         <>
           <div className="dashboard-card">
@@ -120,6 +203,24 @@ const Dashboard = ({ portfolio }: DashboardProps) => {
         </>
       )}
 
+      <TaseSymbols
+        positions={positions}
+        taseSymbols={taseSymbols}
+        livePrices={livePrices}
+        onChange={setTaseSymbol}
+      />
+
+      <TickerAliases aliases={tickerAliases} userAliases={userAliases} onChange={setTickerAlias} />
+
+      <PriceProviders order={priceProviders} onChange={setPriceProviderOrder} />
+
+      <ManualPrices
+        positions={positions}
+        manualPrices={manualPrices}
+        onAdd={addManualPrices}
+        onRemove={removeManualPrice}
+      />
+
       <TargetAllocation positions={positions} totalValue={summary.totalMarketValue} />
     </section>
   );
@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import type { DividendEntry } from "../utils/calculations";
+import { formatUsd } from "../utils/format";
+import { auditDividends, WITHHOLDING_STATUS_LABELS } from "../utils/dividendAudit";
+
+interface DividendAuditProps {
+  dividends: DividendEntry[];
+}
+
+// Effective US withholding per payment, payments off the 25% treaty rate, and
+// the Israeli top-up still owed on under-withheld ones.
+const DividendAudit = ({ dividends }: DividendAuditProps) => {
+  const lines = useMemo(() => auditDividends(dividends), [dividends]);
+  const flagged = lines.filter((line) => line.flagged).reverse();
+
+  if (lines.length === 0) {
+    return <div className="dashboard-card-empty">אין תשלומי דיבידנד לבדיקה.</div>;
+  }
+
+  const gross = dividends.reduce((s, d) => s + d.dividend, 0);
+  const withheld = dividends.reduce((s, d) => s + d.tax, 0);
+  const topUp = dividends.reduce((s, d) => s + d.topUpTax, 0);
+  const overWithheld = lines.reduce((s, line) => s + line.overWithheld, 0);
+
+  return (
+    <>
+      <div className="analytics-tax-grid">
+        <div className="analytics-tax-item">
+          <span className="analytics-tax-label">ניכוי אפקטיבי</span>
+          <span className="mono">{gross > 0 ? `${((withheld / gross) * 100).toFixed(1)}%` : "-"}</span>
+        </div>
+        <div className="analytics-tax-item">
+          <span className="analytics-tax-label">תשלומים חריגים</span>
+          <span className={`mono ${flagged.length > 0 ? "val-negative" : "val-positive"}`}>
+            {flagged.length} מתוך {lines.length}
+          </span>
+        </div>
+        <div className="analytics-tax-item highlight">
+          <span className="analytics-tax-label">השלמת מס בישראל</span>
+          <span className="mono val-negative">{topUp > 0 ? formatUsd(topUp) : "-"}</span>
+        </div>
+        <div className="analytics-tax-item">
+          <span className="analytics-tax-label">ניכוי עודף שלא יוחזר</span>
+          <span className="mono val-negative">{overWithheld > 0 ? formatUsd(overWithheld) : "-"}</span>
+        </div>
+      </div>
+
+      {flagged.length > 0 && (
+        <div className="table-wrap analytics-year-table">
+          <table>
+            <thead>
+              <tr>
+                <th>תאריך</th>
+                <th>מניה</th>
+                <th>ברוטו</th>
+                <th>נוכה</th>
+                <th>שיעור</th>
+                <th>סטטוס</th>
+                <th>השלמת מס</th>
+              </tr>
+            </thead>
+            <tbody>
+              {flagged.map(({ entry, ratePercent, status }) => (
+                <tr key={`${entry.symbol}-${entry.timestamp}`} className="tax-mismatch">
+                  <td className="mono">{entry.date}</td>
+                  <td className="mono">{entry.symbol}</td>
+                  <td className="mono">{formatUsd(entry.dividend)}</td>
+                  <td className="mono">{formatUsd(entry.tax)}</td>
+                  <td className="mono">{entry.dividend > 0 ? `${ratePercent.toFixed(1)}%` : "-"}</td>
+                  <td>{WITHHOLDING_STATUS_LABELS[status]}</td>
+                  <td className="mono">{entry.topUpTax > 0 ? formatUsd(entry.topUpTax) : "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="analytics-tax-note">
+        עם טופס W-8BEN בתוקף ארה״ב מנכה 25% לפי האמנה, והמס בישראל מתקזז במלואו. ניכוי של 30% מעיד בדרך
+        כלל על טופס חסר או שפג תוקפו — ההפרש אינו מוחזר בישראל. כשנוכה פחות מ-25%, ההשלמה לישראל
+        מופחתת מהדיבידנד נטו בכל המסכים.
+      </p>
+    </>
+  );
+};
+
+export default DividendAudit;
@@ -0,0 +1,109 @@
+import { useMemo } from "react";
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from "recharts";
+import type { Position, Transaction } from "../types";
+import type { DividendEntry } from "../utils/calculations";
+import { formatUsd, formatNumber } from "../utils/format";
+import { projectDividends, projectionCalendar } from "../utils/dividendProjection";
+
+interface DividendProjectionProps {
+  transactions: Transaction[];
+  positions: Position[];
+  dividends: DividendEntry[];
+}
+
+const FREQUENCY_LABELS: Record<number, string> = {
+  12: "חודשי",
+  4: "רבעוני",
+  2: "חצי שנתי",
+  1: "שנתי",
+};
+
+// Expected dividends over the next 12 months for the current holdings.
+const DividendProjection = ({ transactions, positions, dividends }: DividendProjectionProps) => {
+  const forecasts = useMemo(
+    () => projectDividends(transactions, positions, dividends),
+    [transactions, positions, dividends]
+  );
+  const calendar = useMemo(() => projectionCalendar(forecasts), [forecasts]);
+  const gross = calendar.reduce((s, m) => s + m.gross, 0);
+  const net = calendar.reduce((s, m) => s + m.net, 0);
+
+  return (
+    <div className="dashboard-card">
+      <div className="dashboard-card-head">
+        <div>
+          <h3>תחזית דיבידנדים ל-12 החודשים הבאים</h3>
+          <p className="dashboard-card-note">
+            לפי תדירות התשלומים בעבר והסכום האחרון למניה, על הכמות המוחזקת היום. ניכוי משוער 25%.
+          </p>
+        </div>
+        {forecasts.length > 0 && (
+          <div className="dividend-projection-totals">
+            <span className="mono val-positive">{formatUsd(gross)}</span>
+            <span className="dashboard-card-note">נטו {formatUsd(net)}</span>
+          </div>
+        )}
+      </div>
+
+      {forecasts.length === 0 ? (
+        <div className="dashboard-card-empty">אין אחזקות עם היסטוריית דיבידנד פעילה.</div>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={240}>
+            <BarChart data={calendar} margin={{ top: 12, right: 16, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#eef2f6" vertical={false} />
+              <XAxis dataKey="label" tick={{ fontSize: 11, fill: "#64748b" }} tickLine={false} />
+              <YAxis
+                tick={{ fontSize: 11, fill: "#64748b" }}
+                tickFormatter={(v) => `$${formatNumber(Number(v) || 0)}`}
+                axisLine={false}
+                tickLine={false}
+                width={60}
+              />
+              <Tooltip
+                cursor={{ fill: "rgba(15,23,42,0.04)" }}
+                formatter={(value, name) => [formatUsd(Number(value) || 0), String(name)]}
+                labelFormatter={(label, payload) => {
+                  const symbols = (payload?.[0]?.payload as { symbols?: string[] } | undefined)?.symbols ?? [];
+                  return symbols.length > 0 ? `${label} · ${symbols.join(", ")}` : String(label);
+                }}
+              />
+              <Legend />
+              <Bar dataKey="net" name="נטו" stackId="dividend" fill="#16a34a" maxBarSize={36} />
+              <Bar dataKey="withholding" name="ניכוי מס" stackId="dividend" fill="#f5a623" radius={[4, 4, 0, 0]} maxBarSize={36} />
+            </BarChart>
+          </ResponsiveContainer>
+
+          <div className="target-table-wrap">
+            <table className="target-table">
+              <thead>
+                <tr>
+                  <th>מניה</th>
+                  <th>תדירות</th>
+                  <th>אחרון למניה</th>
+                  <th>כמות</th>
+                  <th>שנתי ברוטו</th>
+                  <th>תשואה על העלות</th>
+                </tr>
+              </thead>
+              <tbody>
+                {forecasts.map((f) => (
+                  <tr key={f.symbol}>
+                    <td className="target-symbol">{f.symbol}</td>
+                    <td>{FREQUENCY_LABELS[f.perYear] ?? `${f.perYear} בשנה`}</td>
+                    <td className="mono">${f.perShare.toFixed(4)}</td>
+                    <td className="mono">{formatNumber(f.quantity)}</td>
+                    <td className="mono">{formatUsd(f.annualGross)}</td>
+                    <td className="mono">{f.yieldOnCostPercent.toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DividendProjection;
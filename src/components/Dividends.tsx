@@ -0,0 +1,316 @@
+import { useMemo, useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from "recharts";
+import SortableTable, { Column } from "../SortableTable";
+import { usePortfolio } from "../hooks/usePortfolio";
+import { formatUsd, formatNumber } from "../utils/format";
+import { parseDateToTimestamp } from "../utils/dates";
+import { exportSheetsToExcel } from "../utils/exportExcel";
+import {
+  dividendGrowth,
+  dividendPeriods,
+  DividendPeriodKind,
+  dividendYears,
+  filterDividends,
+  topPayers,
+} from "../utils/dividendHistory";
+
+type Portfolio = ReturnType<typeof usePortfolio>;
+
+interface DividendsProps {
+  portfolio: Portfolio;
+}
+
+interface PaymentRow extends Record<string, unknown> {
+  key: string;
+  date: string;
+  symbol: string;
+  gross: number;
+  withheld: number;
+  topUp: number;
+  net: number;
+}
+
+const moneyCell = (value: unknown) => {
+  const n = Number(value) || 0;
+  return <span className="mono">{n !== 0 ? formatUsd(n) : "-"}</span>;
+};
+
+const paymentColumns: Column<PaymentRow>[] = [
+  {
+    key: "date",
+    label: "תאריך",
+    sortable: true,
+    sortComparator: (a, b) => parseDateToTimestamp(String(a ?? "")) - parseDateToTimestamp(String(b ?? "")),
+    render: (v) => <span className="mono">{String(v)}</span>,
+  },
+  { key: "symbol", label: "מניה", sortable: true, filterable: true },
+  { key: "gross", label: "ברוטו", sortable: true, render: moneyCell },
+  { key: "withheld", label: "נוכה במקור", sortable: true, render: moneyCell },
+  { key: "topUp", label: "השלמת מס", sortable: true, render: moneyCell },
+  {
+    key: "net",
+    label: "נטו",
+    sortable: true,
+    render: (v) => <span className="mono val-positive">{formatUsd(Number(v) || 0)}</span>,
+  },
+];
+
+// Every dividend payment across the portfolio, with the charts and rankings
+// built on them. The symbol and year filters apply to everything on the tab.
+const Dividends = ({ portfolio }: DividendsProps) => {
+  const { dividends } = portfolio;
+  const [symbol, setSymbol] = useState<string>("all");
+  const [year, setYear] = useState<"all" | number>("all");
+  const [periodKind, setPeriodKind] = useState<DividendPeriodKind>("month");
+
+  const symbols = useMemo(() => Array.from(new Set(dividends.map((d) => d.symbol))).sort(), [dividends]);
+  const years = useMemo(() => dividendYears(dividends), [dividends]);
+  const filtered = useMemo(() => filterDividends(dividends, { symbol, year }), [dividends, symbol, year]);
+  const periods = useMemo(() => dividendPeriods(filtered, periodKind), [filtered, periodKind]);
+  const payers = useMemo(() => topPayers(filtered), [filtered]);
+  const growth = useMemo(() => dividendGrowth(filtered), [filtered]);
+  const growthYears = useMemo(() => [...dividendYears(filtered)].reverse(), [filtered]);
+
+  const rows = useMemo<PaymentRow[]>(
+    () =>
+      [...filtered].reverse().map((d) => ({
+        key: `${d.symbol}-${d.timestamp}`,
+        date: d.date,
+        symbol: d.symbol,
+        gross: d.dividend,
+        withheld: d.tax,
+        topUp: d.topUpTax,
+        net: d.net,
+      })),
+    [filtered]
+  );
+
+  const totals = {
+    gross: filtered.reduce((s, d) => s + d.dividend, 0),
+    withheld: filtered.reduce((s, d) => s + d.tax, 0),
+    topUp: filtered.reduce((s, d) => s + d.topUpTax, 0),
+    net: filtered.reduce((s, d) => s + d.net, 0),
+  };
+
+  const handleExport = () => {
+    const suffix = [symbol !== "all" ? symbol : "", year !== "all" ? String(year) : ""].filter(Boolean).join("_");
+    exportSheetsToExcel(
+      [
+        {
+          name: "תשלומים",
+          rows: rows.map((r) => ({
+            תאריך: r.date,
+            מניה: r.symbol,
+            "ברוטו ($)": r.gross,
+            "נוכה במקור ($)": r.withheld,
+            "השלמת מס ($)": r.topUp,
+            "נטו ($)": r.net,
+          })),
+        },
+        {
+          name: periodKind === "year" ? "לפי שנה" : "לפי חודש",
+          rows: periods.map((p) => ({ תקופה: p.label, "ברוטו ($)": p.gross, "מס ($)": p.tax, "נטו ($)": p.net })),
+        },
+        {
+          name: "צמיחה",
+          rows: growth.map((g) => ({
+            מניה: g.symbol,
+            ...Object.fromEntries(growthYears.map((y) => [`${y} ($)`, g.byYear[y] ?? 0])),
+            "שינוי אחרון (%)": g.lastChangePercent !== null ? Number(g.lastChangePercent.toFixed(2)) : "",
+          })),
+        },
+      ],
+      suffix ? `ibi_dividends_${suffix}` : "ibi_dividends",
+      { formatted: true }
+    );
+  };
+
+  if (dividends.length === 0) {
+    return <p className="empty">לא נמצאו תשלומי דיבידנד בקבצים שנטענו.</p>;
+  }
+
+  return (
+    <div className="analytics-panel">
+      <div className="analytics-card">
+        <div className="analytics-card-head">
+          <h3>דיבידנדים</h3>
+          <div className="analytics-tax-controls">
+            <label>
+              מניה:
+              <select value={symbol} onChange={(e) => setSymbol(e.target.value)}>
+                <option value="all">כל המניות</option>
+                {symbols.map((s) => (
+                  <option key={s} value={s}>
+                    {s}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              שנה:
+              <select
+                value={String(year)}
+                onChange={(e) => setYear(e.target.value === "all" ? "all" : Number(e.target.value))}
+              >
+                <option value="all">כל הזמן</option>
+                {years.map((y) => (
+                  <option key={y} value={y}>
+                    {y}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="button" className="export-btn" onClick={handleExport}>
+              ⬇ ייצוא לאקסל
+            </button>
+          </div>
+        </div>
+
+        <div className="analytics-tax-grid">
+          <div className="analytics-tax-item">
+            <span className="analytics-tax-label">ברוטו</span>
+            <span className="mono">{formatUsd(totals.gross)}</span>
+          </div>
+          <div className="analytics-tax-item">
+            <span className="analytics-tax-label">נוכה במקור</span>
+            <span className="mono val-negative">{formatUsd(totals.withheld)}</span>
+          </div>
+          <div className="analytics-tax-item">
+            <span className="analytics-tax-label">השלמת מס בישראל</span>
+            <span className="mono val-negative">{totals.topUp > 0 ? formatUsd(totals.topUp) : "-"}</span>
+          </div>
+          <div className="analytics-tax-item highlight">
+            <span className="analytics-tax-label">נטו</span>
+            <span className="mono val-positive">{formatUsd(totals.net)}</span>
+          </div>
+          <div className="analytics-tax-item">
+            <span className="analytics-tax-label">תשלומים</span>
+            <span className="mono">{formatNumber(rows.length)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="analytics-card">
+        <div className="analytics-card-head">
+          <h3>{periodKind === "year" ? "דיבידנדים לפי שנה" : "דיבידנדים לפי חודש"}</h3>
+          <div className="analytics-tax-controls">
+            <label>
+              תצוגה:
+              <select value={periodKind} onChange={(e) => setPeriodKind(e.target.value as DividendPeriodKind)}>
+                <option value="month">חודשית</option>
+                <option value="year">שנתית</option>
+              </select>
+            </label>
+          </div>
+        </div>
+        {periods.length === 0 ? (
+          <div className="dashboard-card-empty">אין תשלומים בסינון הנוכחי.</div>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={periods} margin={{ top: 12, right: 16, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#eef2f6" vertical={false} />
+              <XAxis dataKey="label" tick={{ fontSize: 11, fill: "#64748b" }} tickLine={false} />
+              <YAxis
+                tick={{ fontSize: 11, fill: "#64748b" }}
+                tickFormatter={(v) => `$${formatNumber(Number(v) || 0)}`}
+                axisLine={false}
+                tickLine={false}
+                width={70}
+              />
+              <Tooltip
+                cursor={{ fill: "rgba(15,23,42,0.04)" }}
+                formatter={(value, name) => [formatUsd(Number(value) || 0), String(name)]}
+              />
+              <Legend />
+              <Bar dataKey="gross" name="ברוטו" fill="#4f8ef7" radius={[4, 4, 0, 0]} maxBarSize={28} />
+              <Bar dataKey="tax" name="מס" fill="#f5a623" radius={[4, 4, 0, 0]} maxBarSize={28} />
+              <Bar dataKey="net" name="נטו" fill="#16a34a" radius={[4, 4, 0, 0]} maxBarSize={28} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="analytics-card">
+        <h3>משלמי הדיבידנד הגדולים</h3>
+        <div className="table-wrap analytics-year-table">
+          <table>
+            <thead>
+              <tr>
+                <th>מניה</th>
+                <th>תשלומים</th>
+                <th>ברוטו</th>
+                <th>נטו</th>
+                <th>חלק מהסך</th>
+              </tr>
+            </thead>
+            <tbody>
+              {payers.map((p) => (
+                <tr key={p.symbol}>
+                  <td className="mono">{p.symbol}</td>
+                  <td className="mono">{p.payments}</td>
+                  <td className="mono">{formatUsd(p.gross)}</td>
+                  <td className="mono val-positive">{formatUsd(p.net)}</td>
+                  <td className="mono">{p.sharePercent.toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="analytics-card">
+        <h3>צמיחת הדיבידנד לפי מניה</h3>
+        <div className="table-wrap analytics-year-table">
+          <table>
+            <thead>
+              <tr>
+                <th>מניה</th>
+                {growthYears.map((y) => (
+                  <th key={y}>{y}</th>
+                ))}
+                <th>שינוי אחרון</th>
+              </tr>
+            </thead>
+            <tbody>
+              {growth.map((g) => (
+                <tr key={g.symbol}>
+                  <td className="mono">{g.symbol}</td>
+                  {growthYears.map((y) => (
+                    <td key={y} className="mono">
+                      {g.byYear[y] ? formatUsd(g.byYear[y]) : "-"}
+                    </td>
+                  ))}
+                  <td
+                    className={`mono ${
+                      g.lastChangePercent === null ? "" : g.lastChangePercent >= 0 ? "val-positive" : "val-negative"
+                    }`}
+                  >
+                    {g.lastChangePercent === null
+                      ? "-"
+                      : `${g.lastChangePercent >= 0 ? "+" : ""}${g.lastChangePercent.toFixed(1)}%`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="analytics-tax-note">
+          השינוי משווה את שתי השנים האחרונות שבהן שולם דיבידנד. שנה שטרם הסתיימה תיראה כירידה עד שכל התשלומים
+          יתקבלו.
+        </p>
+      </div>
+
+      <div className="analytics-card">
+        <h3>כל התשלומים</h3>
+        <SortableTable
+          columns={paymentColumns}
+          data={rows}
+          getRowKey={(row) => row.key}
+          emptyMessage="אין תשלומים בסינון הנוכחי."
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Dividends;
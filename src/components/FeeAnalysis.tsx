@@ -6,7 +6,7 @@ interface FeeAnalysisProps {
 }
 
 const FeeAnalysis = ({ stockPerformance }: FeeAnalysisProps) => {
-  const closed = stockPerformance.filter((s) => s.rounds > 0);
+  const closed = stockPerformance.filter((s) => s.sales > 0);
   if (closed.length === 0) return null;
 
   const totalFees = closed.reduce((s, p) => s + p.fees, 0);
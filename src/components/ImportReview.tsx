@@ -0,0 +1,98 @@
+import { Fragment, useState } from "react";
+import { AmbiguousMatch, FileMergeStats } from "../utils/importMerge";
+
+interface ImportReviewProps {
+  stats: FileMergeStats[];
+  ambiguous: AmbiguousMatch[];
+  onConfirm: (keptIds: Set<string>) => void;
+  onCancel: () => void;
+}
+
+const SHOWN_COLUMNS = ["תאריך", "סוג פעולה", "מס' נייר / סימבול", "כמות", "שער ביצוע", 'תמורה במט"ח', "תמורה בשקלים"] as const;
+
+// Shown between parsing and loading when files overlap with near-duplicate
+// rows. Every ambiguous row starts unchecked (treated as a duplicate), since
+// overlapping exports are far more common than two near-identical trades.
+const ImportReview = ({ stats, ambiguous, onConfirm, onCancel }: ImportReviewProps) => {
+  const [kept, setKept] = useState<Set<string>>(() => new Set());
+
+  const toggle = (id: string) =>
+    setKept((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <div className="import-review" role="dialog" aria-label="סקירת כפילויות">
+      <div className="import-review-head">
+        <h3>סקירת שורות חופפות לפני טעינה</h3>
+        <p className="account-card-subtext">
+          נמצאו שורות שתואמות בתאריך, פעולה, נייר וכמות לשורה מקובץ אחר אך שונות במחיר או בתמורה.
+          סמנו רק שורות שהן עסקה נפרדת באמת.
+        </p>
+      </div>
+
+      <div className="import-review-stats">
+        {stats.map((s) => (
+          <div key={s.fileName} className="import-review-stat">
+            <strong>{s.fileName}</strong>
+            <span className="mono">{s.total} שורות</span>
+            <span className="mono">{s.added} חדשות</span>
+            <span className="mono val-muted">{s.duplicates} כפולות</span>
+            {s.ambiguous > 0 && <span className="mono import-review-flag">{s.ambiguous} לבדיקה</span>}
+          </div>
+        ))}
+      </div>
+
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>לשמור</th>
+              <th>קובץ</th>
+              {SHOWN_COLUMNS.map((column) => (
+                <th key={column}>{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ambiguous.map((match) => (
+              <Fragment key={match.id}>
+                <tr className="import-review-row">
+                  <td rowSpan={2}>
+                    <input type="checkbox" checked={kept.has(match.id)} onChange={() => toggle(match.id)} />
+                  </td>
+                  <td>{match.fileName}</td>
+                  {SHOWN_COLUMNS.map((column) => (
+                    <td key={column} className={match.differences.includes(column) ? "import-review-diff" : undefined}>
+                      {match.row[column]}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="import-review-existing">
+                  <td>{match.existingFileName}</td>
+                  {SHOWN_COLUMNS.map((column) => (
+                    <td key={column}>{match.existing[column]}</td>
+                  ))}
+                </tr>
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="import-review-actions">
+        <button type="button" className="upload" onClick={() => onConfirm(kept)}>
+          טען ({kept.size} מתוך {ambiguous.length} נשמרות)
+        </button>
+        <button type="button" className="ghost" onClick={onCancel}>
+          ביטול העלאה
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReview;
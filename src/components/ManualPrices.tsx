@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { ManualPrice, Position } from "../types";
+import { formatMoney } from "../utils/format";
+import { isManualPriceActive, manualPrice, MANUAL_PRICE_DAYS, parseManualPriceCsv } from "../utils/manualPrices";
+import { currencyFor } from "../utils/securities";
+
+interface ManualPricesProps {
+  positions: Position[];
+  manualPrices: ManualPrice[];
+  onAdd: (prices: ManualPrice[]) => void;
+  onRemove: (symbol: string) => void;
+}
+
+const today = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+// Prices typed in or imported from CSV for holdings no price source quotes.
+// Each one replaces the live price until its expiry date.
+const ManualPrices = ({ positions, manualPrices, onAdd, onRemove }: ManualPricesProps) => {
+  const unpriced = positions.filter((p) => p.priceSource === undefined).map((p) => p.symbol);
+  const [symbol, setSymbol] = useState("");
+  const [price, setPrice] = useState("");
+  const [date, setDate] = useState(today);
+  const [expires, setExpires] = useState("");
+  const [importNote, setImportNote] = useState<string | null>(null);
+
+  const selected = symbol || unpriced[0] || positions[0]?.symbol || "";
+
+  const add = () => {
+    const entry = manualPrice(selected, Number(price), date, expires || undefined);
+    if (!entry) return;
+    onAdd([entry]);
+    setPrice("");
+    setExpires("");
+  };
+
+  const importCsv = async (file: File | undefined) => {
+    if (!file) return;
+    const { prices, skipped } = parseManualPriceCsv(await file.text());
+    if (prices.length > 0) onAdd(prices);
+    setImportNote(
+      `יובאו ${prices.length} מחירים${skipped.length > 0 ? ` · שורות שלא נקראו: ${skipped.join(", ")}` : ""}`
+    );
+  };
+
+  return (
+    <div className="dashboard-card">
+      <div className="dashboard-card-head">
+        <div>
+          <h3>מחירים ידניים</h3>
+          <p className="dashboard-card-note">
+            מחיר ידני גובר על המחיר החי עד תאריך התפוגה (ברירת מחדל: {MANUAL_PRICE_DAYS} יום מתאריך המחיר). ייבוא CSV:
+            סימול, מחיר, תאריך ותפוגה אופציונלית בכל שורה. מחיר בשקלים לניירות ת״א.
+          </p>
+          {unpriced.length > 0 && (
+            <p className="dashboard-price-note error">ללא מחיר, מוצגים לפי עלות: {unpriced.join(", ")}</p>
+          )}
+        </div>
+      </div>
+      {manualPrices.length > 0 && (
+        <div className="target-table-wrap">
+          <table className="target-table">
+            <thead>
+              <tr>
+                <th>סימול</th>
+                <th>מחיר</th>
+                <th>תאריך</th>
+                <th>בתוקף עד</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {manualPrices.map((entry) => {
+                const active = isManualPriceActive(entry);
+                return (
+                  <tr key={entry.symbol} className={active ? undefined : "val-muted"}>
+                    <td className="target-symbol">{entry.symbol}</td>
+                    <td className="mono">{formatMoney(entry.price, currencyFor(entry.symbol))}</td>
+                    <td>{entry.date}</td>
+                    <td>{active ? entry.expires : `פג תוקף (${entry.expires})`}</td>
+                    <td>
+                      <button
+                        className="alert-remove"
+                        onClick={() => onRemove(entry.symbol)}
+                        aria-label={`הסר ${entry.symbol}`}
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="split-declare-row">
+        <select
+          className="alert-price-input"
+          value={selected}
+          onChange={(e) => setSymbol(e.target.value)}
+          aria-label="סימול"
+        >
+          {positions.map((p) => (
+            <option key={p.symbol} value={p.symbol}>
+              {p.symbol}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          className="alert-price-input"
+          value={price}
+          placeholder="מחיר"
+          min="0"
+          step="any"
+          onChange={(e) => setPrice(e.target.value)}
+        />
+        <input
+          type="date"
+          className="alert-price-input"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          aria-label="תאריך המחיר"
+        />
+        <input
+          type="date"
+          className="alert-price-input"
+          value={expires}
+          onChange={(e) => setExpires(e.target.value)}
+          aria-label="בתוקף עד"
+          title="בתוקף עד"
+        />
+        <button type="button" className="upload alert-add-button" onClick={add}>
+          + הוסף מחיר
+        </button>
+        <label className="upload ghost">
+          <input
+            type="file"
+            accept=".csv,.txt"
+            onChange={(event) => {
+              importCsv(event.target.files?.[0]);
+              event.target.value = "";
+            }}
+          />
+          📥 ייבוא CSV
+        </label>
+      </div>
+      {importNote && <p className="dashboard-card-note">{importNote}</p>}
+    </div>
+  );
+};
+
+export default ManualPrices;
@@ -0,0 +1,107 @@
+import { CellIssue, SheetDiagnostics, sheetHasIssues } from "../utils/ibiParser";
+import { IBI_COLUMNS } from "../types";
+
+export interface FileDiagnostics {
+  fileName: string;
+  sheets: SheetDiagnostics[];
+}
+
+interface ParserDiagnosticsProps {
+  reports: FileDiagnostics[];
+  onDismiss: () => void;
+}
+
+// Long lists are cut here; the count in the heading stays exact.
+const MAX_ISSUES = 8;
+
+const IssueList = ({ title, issues }: { title: string; issues: CellIssue[] }) => {
+  if (issues.length === 0) return null;
+  return (
+    <div className="parser-diag-block">
+      <div className="parser-diag-label">
+        {title} ({issues.length})
+      </div>
+      <ul className="parser-diag-issues">
+        {issues.slice(0, MAX_ISSUES).map((issue) => (
+          <li key={`${issue.row}-${issue.column}`}>
+            <span className="mono">שורה {issue.row}</span> · {issue.column}:{" "}
+            <span className="mono parser-diag-value">{issue.value || "(ריק)"}</span>
+          </li>
+        ))}
+        {issues.length > MAX_ISSUES && <li className="val-muted">ועוד {issues.length - MAX_ISSUES}…</li>}
+      </ul>
+    </div>
+  );
+};
+
+// Shown after an upload when a sheet doesn't look like the IBI export the
+// parser expects: missing columns, action types the calculations ignore,
+// and cells that were read as empty / zero.
+const ParserDiagnostics = ({ reports, onDismiss }: ParserDiagnosticsProps) => {
+  const flagged = reports.flatMap((report) =>
+    report.sheets.filter(sheetHasIssues).map((sheet) => ({ fileName: report.fileName, sheet }))
+  );
+  if (flagged.length === 0) return null;
+
+  return (
+    <div className="parser-diag" role="status">
+      <div className="parser-diag-head">
+        <div>
+          <h3>⚠️ דוח פענוח הקבצים</h3>
+          <p className="account-card-subtext">
+            ייתכן ש-IBI שינו את מבנה הייצוא. שורות עם ערכים שלא פוענחו נטענו כאפס או ריק, ופעולות לא מוכרות לא נכללות בחישובים.
+          </p>
+        </div>
+        <button type="button" className="ghost" onClick={onDismiss}>
+          סגירה
+        </button>
+      </div>
+
+      {flagged.map(({ fileName, sheet }) => (
+        <div key={`${fileName}-${sheet.sheetName}`} className="parser-diag-sheet">
+          <div className="parser-diag-sheet-title">
+            <strong>{fileName}</strong> · גיליון {sheet.sheetName}
+            <span className="mono val-muted">
+              {" "}
+              · {sheet.rowCount} שורות · {sheet.matchedColumns.length}/{IBI_COLUMNS.length} עמודות זוהו
+            </span>
+          </div>
+
+          {sheet.missingColumns.length > 0 && (
+            <div className="parser-diag-block">
+              <div className="parser-diag-label">עמודות חסרות</div>
+              <div className="parser-diag-chips">
+                {sheet.missingColumns.map((column) => (
+                  <span key={column} className="parser-diag-chip">
+                    {column}
+                  </span>
+                ))}
+              </div>
+              {sheet.unknownHeaders.length > 0 && (
+                <div className="parser-diag-note">כותרות לא מוכרות בגיליון: {sheet.unknownHeaders.join(", ")}</div>
+              )}
+            </div>
+          )}
+
+          {sheet.unknownActions.length > 0 && (
+            <div className="parser-diag-block">
+              <div className="parser-diag-label">סוגי פעולה לא מוכרים</div>
+              <div className="parser-diag-chips">
+                {sheet.unknownActions.map((entry) => (
+                  <span key={entry.action} className="parser-diag-chip" title={`לראשונה בשורה ${entry.firstRow}`}>
+                    {entry.action} <span className="mono">×{entry.count}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <IssueList title="תאריכים שלא פוענחו" issues={sheet.invalidDates} />
+          <IssueList title="מספרים שלא פוענחו" issues={sheet.invalidNumbers} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ParserDiagnostics;
@@ -19,13 +19,13 @@ interface HealthItem {
 }
 
 const PortfolioHealth = ({ portfolio }: PortfolioHealthProps) => {
-  const { positions, allocation, livePrices, stockPerformance, realizedRounds, transactions, summary } =
+  const { positions, allocation, stockPerformance, realizedRounds, transactions, dividends, summary } =
     portfolio;
 
   const items = useMemo<HealthItem[]>(() => {
     const top = allocation[0];
     const top3 = allocation.slice(0, 3).reduce((sum, slice) => sum + slice.percent, 0);
-    const pricedCount = positions.filter((p) => livePrices.has(p.symbol)).length;
+    const pricedCount = positions.filter((p) => p.priceSource !== undefined).length;
     const priceCoverage = positions.length > 0 ? (pricedCount / positions.length) * 100 : 0;
 
     const totalFees = stockPerformance.reduce((sum, stock) => sum + stock.fees, 0);
@@ -36,11 +36,13 @@ const PortfolioHealth = ({ portfolio }: PortfolioHealthProps) => {
     const winners = realizedRounds.filter((round) => round.finalPnL > 0).length;
     const winRate = closed > 0 ? (winners / closed) * 100 : 0;
 
+    // Net of the Israeli top-up still due where less than 25% was withheld.
+    const topUpTax = dividends.reduce((sum, dividend) => sum + dividend.topUpTax, 0);
     const dividendsNet = transactions.reduce((sum, transaction) => {
       if (transaction.action === ACTION.DIVIDEND) return sum + transaction.quantity;
       if (transaction.action === ACTION.DIVIDEND_TAX) return sum - transaction.quantity;
       return sum;
-    }, 0);
+    }, -topUpTax);
 
     return [
       {
@@ -62,12 +64,12 @@ const PortfolioHealth = ({ portfolio }: PortfolioHealthProps) => {
         kind: top3 > 65 ? "warn" : "good",
       },
       {
-        title: "כיסוי מחירים חיים",
+        title: "כיסוי מחירים",
         value: `${pricedCount}/${positions.length}`,
         note:
           priceCoverage < 80
             ? "חלק גדול מהשווי עדיין מחושב לפי עלות רכישה."
-            : "רוב האחזקות מתומחרות לפי מחיר עדכני או מטמון טרי.",
+            : "רוב האחזקות מתומחרות לפי מחיר עדכני, מטמון טרי או מחיר ידני.",
         kind: priceCoverage < 80 ? "warn" : "good",
       },
       {
@@ -98,7 +100,7 @@ const PortfolioHealth = ({ portfolio }: PortfolioHealthProps) => {
         kind: dividendsNet > 0 ? "good" : "info",
       },
     ];
-  }, [allocation, livePrices, positions, realizedRounds, stockPerformance, summary, transactions]);
+  }, [allocation, dividends, positions, realizedRounds, stockPerformance, summary, transactions]);
 
   if (positions.length === 0) {
     return null;
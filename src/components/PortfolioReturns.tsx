@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import type { Transaction } from "../types";
+import type { HistoricalDataPoint } from "../stockPriceService";
+import { formatPercent } from "../utils/format";
+import { periodReturns, RETURN_PERIOD_LABELS } from "../utils/returns";
+
+interface PortfolioReturnsProps {
+  transactions: Transaction[];
+  histories: Map<string, HistoricalDataPoint[]> | null; // null while loading
+  historyError: string | null;
+  usdIlsRate: number;
+}
+
+const percentCell = (value: number | null) =>
+  value === null ? (
+    <span className="mono">-</span>
+  ) : (
+    <span className={`mono ${value >= 0 ? "val-positive" : "val-negative"}`}>{formatPercent(value * 100)}</span>
+  );
+
+// Time- and money-weighted returns per period, valued with the long price
+// history of every symbol ever held.
+const PortfolioReturns = ({ transactions, histories, historyError, usdIlsRate }: PortfolioReturnsProps) => {
+  const returns = useMemo(
+    () => (histories ? periodReturns(transactions, histories, usdIlsRate) : []),
+    [transactions, histories, usdIlsRate]
+  );
+
+  return (
+    <div className="dashboard-card">
+      <div className="dashboard-card-head">
+        <div>
+          <h3>תשואת התיק</h3>
+          <p className="dashboard-card-note">
+            TWR מנטרל את עיתוי ההפקדות ומודד את ההשקעות; XIRR (שנתי) מודד את הכסף שלך כולל העיתוי.
+          </p>
+        </div>
+      </div>
+      {historyError ? <p className="dashboard-price-note error">{historyError}</p> : null}
+      {histories === null ? (
+        <div className="dashboard-card-empty">טוען מחירי עבר…</div>
+      ) : (
+        <div className="returns-grid">
+          {returns.map((r) => (
+            <div key={r.period} className="returns-item">
+              <span className="analytics-tax-label">{RETURN_PERIOD_LABELS[r.period]}</span>
+              <div className="returns-row">
+                <span>TWR</span>
+                {percentCell(r.twr)}
+              </div>
+              {r.period !== "ytd" && r.period !== "1y" && (
+                <div className="returns-row">
+                  <span>TWR שנתי</span>
+                  {percentCell(r.twrAnnualized)}
+                </div>
+              )}
+              <div className="returns-row">
+                <span>XIRR</span>
+                {percentCell(r.xirr)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioReturns;
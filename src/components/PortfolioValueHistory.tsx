@@ -0,0 +1,103 @@
+import { useMemo, useState } from "react";
+import { ComposedChart, Area, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from "recharts";
+import type { Transaction } from "../types";
+import type { HistoricalDataPoint } from "../stockPriceService";
+import { formatNumber, formatPercent, formatSignedUsd, formatUsd } from "../utils/format";
+import { sliceRange, ValueRange, valueHistory, VALUE_RANGE_LABELS } from "../utils/valueHistory";
+import RangePicker from "./RangePicker";
+
+interface PortfolioValueHistoryProps {
+  transactions: Transaction[];
+  histories: Map<string, HistoricalDataPoint[]> | null; // null while loading
+  usdIlsRate: number;
+}
+
+// Total portfolio value per trading day against the money put in.
+const PortfolioValueHistory = ({ transactions, histories, usdIlsRate }: PortfolioValueHistoryProps) => {
+  const [range, setRange] = useState<ValueRange>("1y");
+  const points = useMemo(
+    () => (histories ? valueHistory(transactions, histories, usdIlsRate) : []),
+    [transactions, histories, usdIlsRate]
+  );
+  const visible = useMemo(() => sliceRange(points, range), [points, range]);
+
+  const first = visible[0];
+  const last = visible[visible.length - 1];
+  // Change over the range net of money added or withdrawn during it.
+  const change = first && last ? last.value - first.value - (last.invested - first.invested) : 0;
+  const changePercent = first && first.value > 0 ? (change / first.value) * 100 : 0;
+
+  return (
+    <div className="dashboard-card">
+      <div className="dashboard-card-head">
+        <div>
+          <h3>שווי התיק לאורך זמן</h3>
+          <p className="dashboard-card-note">
+            משוחזר מהפעולות ומחירי הסגירה, כולל מזומן. הון מושקע = הפקדות פחות משיכות.
+          </p>
+        </div>
+        <RangePicker labels={VALUE_RANGE_LABELS} value={range} onChange={setRange} />
+      </div>
+
+      {histories === null ? (
+        <div className="dashboard-card-empty">טוען מחירי עבר…</div>
+      ) : visible.length < 2 ? (
+        <div className="dashboard-card-empty">אין מספיק נתונים בטווח שנבחר.</div>
+      ) : (
+        <>
+          <div className="analytics-tax-grid">
+            <div className="analytics-tax-item">
+              <span className="analytics-tax-label">שווי</span>
+              <span className="mono">{formatUsd(last.value)}</span>
+            </div>
+            <div className="analytics-tax-item">
+              <span className="analytics-tax-label">הון מושקע</span>
+              <span className="mono">{formatUsd(last.invested)}</span>
+            </div>
+            <div className="analytics-tax-item highlight">
+              <span className="analytics-tax-label">שינוי בטווח (ללא הפקדות)</span>
+              <span className={`mono ${change >= 0 ? "val-positive" : "val-negative"}`}>
+                {formatSignedUsd(change)} ({formatPercent(changePercent)})
+              </span>
+            </div>
+          </div>
+
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={visible} margin={{ top: 12, right: 16, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#eef2f6" vertical={false} />
+              <XAxis dataKey="date" tick={{ fontSize: 11, fill: "#64748b" }} tickLine={false} minTickGap={32} />
+              <YAxis
+                tick={{ fontSize: 11, fill: "#64748b" }}
+                tickFormatter={(v) => `$${formatNumber(Number(v) || 0)}`}
+                axisLine={false}
+                tickLine={false}
+                width={80}
+              />
+              <Tooltip formatter={(value, name) => [formatUsd(Number(value) || 0), String(name)]} />
+              <Legend />
+              <Area
+                type="monotone"
+                dataKey="value"
+                name="שווי"
+                stroke="#4f8ef7"
+                fill="#4f8ef7"
+                fillOpacity={0.12}
+                strokeWidth={2}
+              />
+              <Line
+                type="stepAfter"
+                dataKey="invested"
+                name="הון מושקע"
+                stroke="#94a3b8"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioValueHistory;
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ReferenceLine, ResponsiveContainer, CartesianGrid } from "recharts";
+import { fetchHistoricalData, HistoricalDataPoint, HistoryRange } from "../stockPriceService";
+import { formatDateLabel } from "../utils/dates";
+import { formatNumber } from "../utils/format";
+import RangePicker from "./RangePicker";
+
+type ChartRange = Exclude<HistoryRange, "10y">;
+
+const CHART_RANGE_LABELS: Record<ChartRange, string> = {
+  "1mo": "חודש",
+  "3mo": "3 חודשים",
+  "6mo": "חצי שנה",
+  "1y": "שנה",
+  "5y": "5 שנים",
+  max: "מקסימום",
+};
+
+interface PriceHistoryChartProps {
+  quoteSymbol: string; // Yahoo symbol
+  currencySymbol: string; // "$" or "₪"
+  avgCost?: number | null; // drawn as a reference line
+}
+
+// Closing price over a selectable range, with the average cost for reference.
+const PriceHistoryChart = ({ quoteSymbol, currencySymbol, avgCost }: PriceHistoryChartProps) => {
+  const [range, setRange] = useState<ChartRange>("3mo");
+  const [history, setHistory] = useState<HistoricalDataPoint[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistory(null);
+    fetchHistoricalData(quoteSymbol, range)
+      .catch(() => [])
+      .then((points) => {
+        if (!cancelled) setHistory(points);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [quoteSymbol, range]);
+
+  return (
+    <div className="stock-stats-card">
+      <div className="profit-chart-card">
+        <div className="profit-chart-header">
+          <h3>מחיר לאורך זמן</h3>
+          <RangePicker labels={CHART_RANGE_LABELS} value={range} onChange={setRange} />
+        </div>
+        {history === null ? (
+          <div className="profit-chart-empty">טוען היסטוריית מחיר…</div>
+        ) : history.length === 0 ? (
+          <div className="profit-chart-empty">אין היסטוריית מחיר עבור {quoteSymbol}.</div>
+        ) : (
+          <ResponsiveContainer width="100%" height={260}>
+            <AreaChart data={history} margin={{ top: 14, right: 16, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickFormatter={(v) => formatDateLabel(String(v))}
+                tick={{ fontSize: 11, fill: "#64748b" }}
+                tickLine={false}
+                minTickGap={32}
+              />
+              <YAxis
+                domain={["auto", "auto"]}
+                tickFormatter={(v) => `${currencySymbol}${formatNumber(Number(v) || 0)}`}
+                tick={{ fontSize: 11, fill: "#64748b" }}
+                axisLine={false}
+                tickLine={false}
+                width={72}
+              />
+              <Tooltip
+                labelFormatter={(label) => formatDateLabel(String(label))}
+                formatter={(value) => [`${currencySymbol}${formatNumber(Number(value) || 0)}`, "סגירה"]}
+              />
+              {avgCost ? (
+                <ReferenceLine
+                  y={avgCost}
+                  stroke="#94a3b8"
+                  strokeDasharray="5 3"
+                  label={{ value: "מחיר ממוצע", position: "insideTopLeft", fontSize: 11, fill: "#64748b" }}
+                />
+              ) : null}
+              <Area
+                type="monotone"
+                dataKey="close"
+                stroke="#4f8ef7"
+                fill="#4f8ef7"
+                fillOpacity={0.12}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PriceHistoryChart;
@@ -0,0 +1,106 @@
+import { PRICE_PROVIDERS } from "../priceProviders/registry";
+import type { PriceProviderId } from "../priceProviders/types";
+
+interface PriceProvidersProps {
+  order: PriceProviderId[]; // enabled providers, first asked first
+  onChange: (order: PriceProviderId[]) => void;
+}
+
+const PROVIDER_LABELS: Record<PriceProviderId, { name: string; note: string }> = {
+  yahoo: { name: "Yahoo Finance", note: "מניות ארה״ב ות״א, מדדים ושערי מט״ח" },
+  stooq: { name: "Stooq", note: "מניות ארה״ב ושערי מט״ח (קובצי CSV)" },
+  fixture: { name: "קבצים מקומיים", note: "קובצי JSON מ-dev-data/prices, לעבודה ללא רשת בסביבת פיתוח" },
+};
+
+// Which price sources are used and in what order. Each quote or history
+// request goes to the first source that has the symbol.
+const PriceProviders = ({ order, onChange }: PriceProvidersProps) => {
+  const disabled = (Object.keys(PRICE_PROVIDERS) as PriceProviderId[]).filter((id) => !order.includes(id));
+
+  const move = (index: number, by: number) => {
+    const next = [...order];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="dashboard-card">
+      <div className="dashboard-card-head">
+        <div>
+          <h3>מקורות מחירים</h3>
+          <p className="dashboard-card-note">
+            כל מחיר נמשך מהמקור הראשון ברשימה שמכיר את הסימול; אם הוא לא זמין או חסום עוברים לבא אחריו.
+          </p>
+        </div>
+      </div>
+      <div className="target-table-wrap">
+        <table className="target-table">
+          <thead>
+            <tr>
+              <th>פעיל</th>
+              <th>סדר</th>
+              <th>מקור</th>
+              <th>כיסוי</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.map((id, index) => (
+              <tr key={id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked
+                    // At least one source has to stay on.
+                    disabled={order.length === 1}
+                    onChange={() => onChange(order.filter((other) => other !== id))}
+                    aria-label={`כבה ${PROVIDER_LABELS[id].name}`}
+                  />
+                </td>
+                <td className="mono">{index + 1}</td>
+                <td className="target-symbol">{PROVIDER_LABELS[id].name}</td>
+                <td>{PROVIDER_LABELS[id].note}</td>
+                <td>
+                  <button
+                    className="alert-remove"
+                    disabled={index === 0}
+                    onClick={() => move(index, -1)}
+                    aria-label={`העלה ${PROVIDER_LABELS[id].name}`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className="alert-remove"
+                    disabled={index === order.length - 1}
+                    onClick={() => move(index, 1)}
+                    aria-label={`הורד ${PROVIDER_LABELS[id].name}`}
+                  >
+                    ↓
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {disabled.map((id) => (
+              <tr key={id} className="val-muted">
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={false}
+                    onChange={() => onChange([...order, id])}
+                    aria-label={`הפעל ${PROVIDER_LABELS[id].name}`}
+                  />
+                </td>
+                <td>—</td>
+                <td className="target-symbol">{PROVIDER_LABELS[id].name}</td>
+                <td>{PROVIDER_LABELS[id].note}</td>
+                <td></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PriceProviders;
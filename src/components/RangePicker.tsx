@@ -0,0 +1,24 @@
+interface RangePickerProps<T extends string> {
+  labels: Record<T, string>;
+  value: T;
+  onChange: (value: T) => void;
+}
+
+// Segmented buttons for picking a chart's time range.
+const RangePicker = <T extends string>({ labels, value, onChange }: RangePickerProps<T>) => (
+  <div className="range-picker" role="group" aria-label="טווח">
+    {(Object.keys(labels) as T[]).map((key) => (
+      <button
+        key={key}
+        type="button"
+        className={key === value ? "range-picker-btn active" : "range-picker-btn"}
+        aria-pressed={key === value}
+        onClick={() => onChange(key)}
+      >
+        {labels[key]}
+      </button>
+    ))}
+  </div>
+);
+
+export default RangePicker;
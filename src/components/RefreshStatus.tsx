@@ -0,0 +1,59 @@
+import { MarketId, MarketStatus, REFRESH_MINUTE_OPTIONS } from "../utils/marketHours";
+
+interface RefreshStatusProps {
+  statuses: MarketStatus[];
+  nextRefreshAt: number | null;
+  paused: boolean; // tab hidden
+  backedOff: boolean; // waiting longer after a rate limit
+  minutes: number;
+  onMinutesChange: (minutes: number) => void;
+}
+
+const MARKET_LABELS: Record<MarketId, string> = { nyse: "וול סטריט", tase: "ת״א" };
+
+const time = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay
+    ? d.toLocaleTimeString("he-IL", { hour: "2-digit", minute: "2-digit" })
+    : d.toLocaleString("he-IL", { weekday: "short", hour: "2-digit", minute: "2-digit" });
+};
+
+// Header line: which markets are open, when prices refresh next, and the
+// refresh interval.
+const RefreshStatus = ({ statuses, nextRefreshAt, paused, backedOff, minutes, onMinutesChange }: RefreshStatusProps) => (
+  <div className="refresh-status">
+    {statuses.map((s) => (
+      <span
+        key={s.market}
+        className={`market-chip ${s.open ? "open" : ""}`}
+        title={`${s.open ? "נסגר" : "נפתח"} ב-${time(s.nextChange)}`}
+      >
+        {MARKET_LABELS[s.market]} {s.open ? "פתוח" : "סגור"}
+      </span>
+    ))}
+    <span className="refresh-next">
+      {minutes === 0
+        ? "רענון אוטומטי כבוי"
+        : paused
+          ? "רענון מושהה — הלשונית מוסתרת"
+          : nextRefreshAt !== null
+            ? `רענון הבא ${time(nextRefreshAt)}${backedOff ? " (הואט אחרי מגבלת שימוש)" : ""}`
+            : null}
+    </span>
+    <select
+      className="refresh-interval"
+      value={minutes}
+      onChange={(e) => onMinutesChange(Number(e.target.value))}
+      aria-label="תדירות רענון מחירים"
+    >
+      {REFRESH_MINUTE_OPTIONS.map((option) => (
+        <option key={option} value={option}>
+          {option === 0 ? "ללא רענון" : `כל ${option} דק׳`}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+export default RefreshStatus;
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Position } from "../types";
+import type { StockPrice } from "../stockPriceService";
+import { formatIls } from "../utils/format";
+import { TaseSymbolMap, yahooSymbolFor } from "../utils/securities";
+
+interface TaseSymbolsProps {
+  positions: Position[];
+  taseSymbols: TaseSymbolMap;
+  livePrices: Map<string, StockPrice>;
+  onChange: (symbol: string, yahooSymbol: string) => void;
+}
+
+// Maps each Tel Aviv holding's security number to the Yahoo symbol its price
+// is fetched under. Edits are committed on blur / Enter, which re-fetches.
+const TaseSymbols = ({ positions, taseSymbols, livePrices, onChange }: TaseSymbolsProps) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const holdings = positions.filter((p) => p.currency === "ILS");
+  if (holdings.length === 0) return null;
+
+  const commit = (symbol: string) => {
+    const draft = drafts[symbol];
+    if (draft === undefined) return;
+    onChange(symbol, draft);
+    setDrafts(({ [symbol]: _, ...rest }) => rest);
+  };
+
+  return (
+    <div className="dashboard-card">
+      <div className="dashboard-card-head">
+        <div>
+          <h3>ניירות בורסת ת״א</h3>
+          <p className="dashboard-card-note">
+            מחירים נמשכים מ-Yahoo לפי הסימול שכאן (ברירת מחדל: מספר הנייר עם ‎.TA). שווי מוצג בשקלים ומומר לדולר לסיכומי התיק.
+          </p>
+        </div>
+      </div>
+      <div className="target-table-wrap">
+        <table className="target-table">
+          <thead>
+            <tr>
+              <th>מס' נייר</th>
+              <th>סימול Yahoo</th>
+              <th>מחיר</th>
+              <th>שווי</th>
+            </tr>
+          </thead>
+          <tbody>
+            {holdings.map((position) => {
+              const price = livePrices.get(position.symbol);
+              return (
+                <tr key={position.symbol}>
+                  <td className="target-symbol">{position.symbol}</td>
+                  <td>
+                    <input
+                      className="target-input tase-symbol-input"
+                      value={drafts[position.symbol] ?? taseSymbols[position.symbol] ?? ""}
+                      placeholder={yahooSymbolFor(position.symbol)}
+                      onChange={(event) =>
+                        setDrafts((prev) => ({ ...prev, [position.symbol]: event.target.value }))
+                      }
+                      onBlur={() => commit(position.symbol)}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") commit(position.symbol);
+                      }}
+                      aria-label={`סימול Yahoo עבור ${position.symbol}`}
+                    />
+                  </td>
+                  <td className="mono">
+                    {price ? formatIls(price.price) : <span className="val-muted">אין מחיר</span>}
+                  </td>
+                  <td className="mono">
+                    {formatIls(position.nativeMarketValue ?? position.nativeCostBasis ?? 0)}
+                    {position.nativeMarketValue === undefined && <span className="target-sub">לפי עלות</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TaseSymbols;
@@ -0,0 +1,123 @@
+import { useMemo, useState } from "react";
+import type { Position, RealizedSale } from "../types";
+import { formatUsd, formatSignedUsd } from "../utils/format";
+import { harvestCandidates, harvestTaxSaved, sellFeeRate } from "../utils/harvest";
+
+interface TaxLossHarvestingProps {
+  positions: Position[];
+  realizedSales: RealizedSale[];
+  year?: number;
+  today?: Date;
+}
+
+const DAY_MS = 86_400_000;
+
+// Open positions below cost, what selling each would save against this year's
+// realized gains, and a what-if plan totalled across the ticked positions.
+const TaxLossHarvesting = ({
+  positions,
+  realizedSales,
+  year = new Date().getFullYear(),
+  today = new Date(),
+}: TaxLossHarvestingProps) => {
+  const [plan, setPlan] = useState<Set<string>>(new Set());
+
+  const ytdNet = useMemo(
+    () =>
+      realizedSales
+        .filter((sale) => new Date(sale.timestamp).getFullYear() === year)
+        .reduce((s, sale) => s + sale.netFromTrading, 0),
+    [realizedSales, year]
+  );
+  const candidates = useMemo(
+    () => harvestCandidates(positions, ytdNet, sellFeeRate(realizedSales)),
+    [positions, ytdNet, realizedSales]
+  );
+
+  const planned = candidates.filter((c) => plan.has(c.symbol));
+  const plannedLoss = planned.reduce((s, c) => s + c.harvestableLoss, 0);
+  const plannedFees = planned.reduce((s, c) => s + c.sellFee, 0);
+  // Losses beyond the year's gains save nothing more this year, so the plan
+  // total is not the sum of the per-row figures.
+  const plannedSaved = harvestTaxSaved(ytdNet, plannedLoss);
+  const daysLeft = Math.max(0, Math.ceil((new Date(year, 11, 31, 23, 59).getTime() - today.getTime()) / DAY_MS));
+
+  const toggle = (symbol: string) =>
+    setPlan((prev) => {
+      const next = new Set(prev);
+      if (next.has(symbol)) next.delete(symbol);
+      else next.add(symbol);
+      return next;
+    });
+
+  if (candidates.length === 0) {
+    return <div className="dashboard-card-empty">אין פוזיציות פתוחות בהפסד (או שאין עדיין מחירים חיים).</div>;
+  }
+
+  return (
+    <>
+      <div className="analytics-tax-grid">
+        <div className="analytics-tax-item">
+          <span className="analytics-tax-label">רווח ממומש {year} (לפני מס)</span>
+          <span className={`mono ${ytdNet >= 0 ? "val-positive" : "val-negative"}`}>{formatSignedUsd(ytdNet)}</span>
+        </div>
+        <div className="analytics-tax-item">
+          <span className="analytics-tax-label">הפסד מתוכנן למימוש</span>
+          <span className="mono val-negative">{planned.length > 0 ? formatSignedUsd(plannedLoss) : "-"}</span>
+        </div>
+        <div className="analytics-tax-item highlight">
+          <span className="analytics-tax-label">חיסכון במס (אחרי עמלות)</span>
+          <span className={`mono ${plannedSaved - plannedFees >= 0 ? "val-positive" : "val-negative"}`}>
+            {planned.length > 0 ? formatSignedUsd(plannedSaved - plannedFees) : "-"}
+          </span>
+        </div>
+      </div>
+
+      <div className="table-wrap analytics-year-table">
+        <table>
+          <thead>
+            <tr>
+              <th>בתוכנית</th>
+              <th>מניה</th>
+              <th>שווי</th>
+              <th>הפסד לא ממומש (כולל עמלות קנייה)</th>
+              <th>עמלת מכירה משוערת</th>
+              <th>חיסכון במס</th>
+              <th>תועלת נטו</th>
+            </tr>
+          </thead>
+          <tbody>
+            {candidates.map((c) => (
+              <tr key={c.symbol}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={plan.has(c.symbol)}
+                    onChange={() => toggle(c.symbol)}
+                    aria-label={`הוסף ${c.symbol} לתוכנית`}
+                  />
+                </td>
+                <td className="mono">{c.symbol}</td>
+                <td className="mono">{formatUsd(c.marketValue)}</td>
+                <td className="mono val-negative">{formatSignedUsd(c.unrealizedPnL - c.buyFees)}</td>
+                <td className="mono">{c.sellFee > 0 ? `-${formatUsd(c.sellFee)}` : "-"}</td>
+                <td className="mono">{c.taxSaved > 0 ? formatUsd(c.taxSaved) : "-"}</td>
+                <td className={`mono ${c.netBenefit >= 0 ? "val-positive" : "val-negative"}`}>
+                  {formatSignedUsd(c.netBenefit)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="analytics-tax-note">
+        נותרו {daysLeft} ימים עד סוף שנת המס. החיסכון מחושב מול הרווח הממומש של {year} בלבד — הפסד
+        שמעבר לרווחי השנה אינו חוסך מס השנה (אך ניתן להעבירו לשנים הבאות). עמלת המכירה מוערכת לפי
+        שיעור העמלות במכירות קודמות. אומדן בלבד.
+      </p>
+    </>
+  );
+};
+
+export default TaxLossHarvesting;
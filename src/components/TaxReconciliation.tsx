@@ -0,0 +1,100 @@
+import { useMemo } from "react";
+import type { RealizedSale, Transaction } from "../types";
+import { formatIls } from "../utils/format";
+import { reconcileSales, reconcileYears, TAX_DEBIT_BUSINESS_DAYS, taxPayments } from "../utils/taxReconciliation";
+
+interface TaxReconciliationProps {
+  transactions: Transaction[];
+  realizedSales: RealizedSale[];
+}
+
+const balanceLabel = (balance: number) =>
+  Math.abs(balance) < 1 ? "מאוזן" : balance > 0 ? `חוב צפוי ${formatIls(balance)}` : `החזר צפוי ${formatIls(-balance)}`;
+
+// App estimate vs IBI's estimate vs tax actually debited, per year and per sale.
+const TaxReconciliation = ({ transactions, realizedSales }: TaxReconciliationProps) => {
+  const payments = useMemo(() => taxPayments(transactions), [transactions]);
+  const years = useMemo(() => reconcileYears(realizedSales, payments), [realizedSales, payments]);
+  const sales = useMemo(
+    () =>
+      reconcileSales(realizedSales, payments)
+        .filter((line) => line.appEstimateIls !== 0 || line.ibiEstimateIls !== 0 || line.paidIls !== 0)
+        .reverse(),
+    [realizedSales, payments]
+  );
+
+  if (years.length === 0) {
+    return <div className="dashboard-card-empty">אין מכירות או חיובי מס להתאמה.</div>;
+  }
+
+  return (
+    <>
+      <div className="table-wrap analytics-year-table">
+        <table>
+          <thead>
+            <tr>
+              <th>שנה</th>
+              <th>אומדן האפליקציה</th>
+              <th>אומדן IBI</th>
+              <th>מס ששולם בפועל</th>
+              <th>יתרה לסוף שנה</th>
+            </tr>
+          </thead>
+          <tbody>
+            {years.map((y) => (
+              <tr key={y.year} className={y.mismatch ? "tax-mismatch" : undefined}>
+                <td className="mono">{y.year}</td>
+                <td className="mono">{formatIls(y.appEstimateIls)}</td>
+                <td className="mono">{y.ibiEstimateIls !== 0 ? formatIls(y.ibiEstimateIls) : "-"}</td>
+                <td className="mono">{formatIls(y.paidIls)}</td>
+                <td className={`mono ${y.balanceIls > 0 ? "val-negative" : y.balanceIls < 0 ? "val-positive" : ""}`}>
+                  {balanceLabel(y.balanceIls)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {sales.length > 0 && (
+        <div className="table-wrap analytics-year-table">
+          <table>
+            <thead>
+              <tr>
+                <th>תאריך</th>
+                <th>מניה</th>
+                <th>רווח נומינלי</th>
+                <th>אומדן האפליקציה</th>
+                <th>אומדן IBI</th>
+                <th>חויב עד {TAX_DEBIT_BUSINESS_DAYS} ימי עסקים</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sales.map(({ sale, appEstimateIls, ibiEstimateIls, paidIls, mismatch }, i) => (
+                <tr key={`${sale.account}-${sale.symbol}-${sale.timestamp}-${i}`} className={mismatch ? "tax-mismatch" : undefined}>
+                  <td className="mono">{sale.date}</td>
+                  <td className="mono">{sale.symbol}</td>
+                  <td className={`mono ${sale.netFromTradingIls >= 0 ? "val-positive" : "val-negative"}`}>
+                    {sale.netFromTradingIls >= 0 ? "+" : "-"}
+                    {formatIls(Math.abs(sale.netFromTradingIls))}
+                  </td>
+                  <td className="mono">{formatIls(appEstimateIls)}</td>
+                  <td className="mono">{ibiEstimateIls !== 0 ? formatIls(ibiEstimateIls) : "-"}</td>
+                  <td className="mono">{paidIls !== 0 ? formatIls(paidIls) : "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="analytics-tax-note">
+        שורות מסומנות הן פערים של יותר מ-₪5 או 5% בין האומדנים (או בין האומדן השנתי למס ששולם). אומדן
+        האפליקציה השנתי מקזז רווחים והפסדים של כל השנה; חיוב מס מיוחס ליום המכירה האחרון שקדם לו בטווח של עד{" "}
+        {TAX_DEBIT_BUSINESS_DAYS} ימי עסקים, ואם באותו יום היו כמה מכירות הוא מתחלק ביניהן שווה בשווה.
+      </p>
+    </>
+  );
+};
+
+export default TaxReconciliation;
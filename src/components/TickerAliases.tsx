@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { DEFAULT_TICKER_ALIASES, TickerAliasMap } from "../utils/aliases";
+
+interface TickerAliasesProps {
+  aliases: TickerAliasMap; // defaults merged with the user's entries
+  userAliases: TickerAliasMap;
+  onChange: (from: string, to: string) => void;
+}
+
+// Old → current ticker table. Built-in renames can be overridden; the user's
+// own entries can be removed.
+const TickerAliases = ({ aliases, userAliases, onChange }: TickerAliasesProps) => {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const entries = Object.entries(aliases).sort(([a], [b]) => a.localeCompare(b));
+
+  const add = () => {
+    if (!from.trim() || !to.trim()) return;
+    onChange(from, to);
+    setFrom("");
+    setTo("");
+  };
+
+  return (
+    <div className="dashboard-card">
+      <div className="dashboard-card-head">
+        <div>
+          <h3>שינויי סימול</h3>
+          <p className="dashboard-card-note">
+            פעולות ודיבידנדים בסימול הישן נרשמים תחת הסימול הנוכחי, כך שמניה שהחליפה שם מוצגת כאחזקה אחת.
+          </p>
+        </div>
+      </div>
+      <div className="target-table-wrap">
+        <table className="target-table">
+          <thead>
+            <tr>
+              <th>סימול ישן</th>
+              <th>סימול נוכחי</th>
+              <th>מקור</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(([oldSymbol, newSymbol]) => {
+              const isUser = oldSymbol in userAliases;
+              const isDefault = oldSymbol in DEFAULT_TICKER_ALIASES;
+              const disabled = oldSymbol === newSymbol;
+              return (
+                <tr key={oldSymbol} className={disabled ? "val-muted" : undefined}>
+                  <td className="target-symbol">{oldSymbol}</td>
+                  <td className="target-symbol">{disabled ? "—" : newSymbol}</td>
+                  <td>{disabled ? "מבוטל" : isUser ? "הוגדר ידנית" : "ברירת מחדל"}</td>
+                  <td>
+                    {disabled ? (
+                      <button
+                        className="alert-remove"
+                        onClick={() => onChange(oldSymbol, "")}
+                        aria-label={`שחזר ${oldSymbol}`}
+                      >
+                        ↺
+                      </button>
+                    ) : (
+                      <button
+                        className="alert-remove"
+                        // A default is switched off by mapping it to itself.
+                        onClick={() => onChange(oldSymbol, isDefault ? oldSymbol : "")}
+                        aria-label={`הסר ${oldSymbol}`}
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="split-declare-row">
+        <input
+          className="alert-price-input alias-input"
+          value={from}
+          placeholder="סימול ישן"
+          onChange={(e) => setFrom(e.target.value)}
+        />
+        <span>←</span>
+        <input
+          className="alert-price-input alias-input"
+          value={to}
+          placeholder="סימול נוכחי"
+          onChange={(e) => setTo(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") add();
+          }}
+        />
+        <button type="button" className="upload alert-add-button" onClick={add}>
+          + הוסף
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TickerAliases;
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { PriceRefreshResult } from "./usePortfolio";
+import {
+  MarketId,
+  marketStatus,
+  nextRefreshAt,
+  readRefreshMinutes,
+  saveRefreshMinutes,
+} from "../utils/marketHours";
+
+type Refresh = (options: { maxAge: number; signal: AbortSignal }) => Promise<PriceRefreshResult>;
+
+// How often the market status line is re-evaluated.
+const CLOCK_MS = 30 * 1000;
+
+// Calls `refresh` every N minutes while one of `markets` is open, at the next
+// opening otherwise. Rate limits double the wait until a refresh succeeds;
+// nothing runs while the tab is hidden, and an overdue refresh runs as soon
+// as it is shown again. A run still loading when the hook unmounts (or the
+// data changes) is aborted.
+export const useAutoRefresh = (refresh: Refresh, markets: MarketId[]) => {
+  const [minutes, setMinutesState] = useState(() => readRefreshMinutes(localStorage));
+  const [hidden, setHidden] = useState(() => document.hidden);
+  const [now, setNow] = useState(() => Date.now());
+  // The dashboard loads prices on its own when the data arrives.
+  const [lastRefresh, setLastRefresh] = useState(() => Date.now());
+  const [failures, setFailures] = useState(0);
+  const running = useRef<AbortController | null>(null);
+
+  const setMinutes = useCallback((next: number) => {
+    setMinutesState(next);
+    saveRefreshMinutes(localStorage, next);
+  }, []);
+
+  useEffect(() => {
+    const onVisibility = () => {
+      setHidden(document.hidden);
+      setNow(Date.now());
+    };
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => document.removeEventListener("visibilitychange", onVisibility);
+  }, []);
+
+  useEffect(() => {
+    const clock = setInterval(() => setNow(Date.now()), CLOCK_MS);
+    return () => clearInterval(clock);
+  }, []);
+
+  const statuses = useMemo(() => markets.map((market) => marketStatus(market, now)), [markets, now]);
+  const intervalMs = minutes * 60 * 1000;
+  const nextAt =
+    minutes > 0 && !hidden ? nextRefreshAt(statuses, lastRefresh, intervalMs, failures, now) : null;
+
+  useEffect(() => {
+    if (nextAt === null) return;
+    const timer = setTimeout(async () => {
+      if (running.current) return;
+      running.current = new AbortController();
+      try {
+        const result = await refresh({ maxAge: intervalMs, signal: running.current.signal });
+        // An aborted run was superseded or torn down; it doesn't count
+        // towards the backoff.
+        if (result !== "aborted") setFailures((count) => (result === "rate-limited" ? count + 1 : 0));
+        setLastRefresh(Date.now());
+      } finally {
+        running.current = null;
+        setNow(Date.now());
+      }
+    }, Math.max(0, nextAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [nextAt, refresh, intervalMs]);
+
+  // Abort an in-flight run when the data behind `refresh` changes or the hook
+  // unmounts. (Not tied to the timer effect, whose deps change mid-run.)
+  useEffect(() => () => running.current?.abort(), [refresh]);
+
+  return { minutes, setMinutes, statuses, nextRefreshAt: nextAt, paused: hidden, backedOff: failures > 0 };
+};
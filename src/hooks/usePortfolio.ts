@@ -1,10 +1,36 @@
-import { useCallback, useMemo, useState } from "react";
-import { RawRow, Transaction, RealizedRound } from "../types";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { RawRow, Transaction, RealizedRound, RealizedSale, CostMethod, CorporateAction, ManualPrice } from "../types";
 import { toTransactions } from "../utils/ibiParser";
+import { readCostMethod, saveCostMethod } from "../utils/lots";
+import { CpiSeries, readCpiSeries, saveCpiSeries } from "../utils/cpi";
+import {
+  applyCorporateActions,
+  detectSplits,
+  manualAction,
+  readManualActions,
+  saveManualActions,
+} from "../utils/corporateActions";
+import {
+  activeManualPrices,
+  readManualPrices,
+  saveManualPrices,
+  upsertManualPrices,
+} from "../utils/manualPrices";
+import { convertTaseTrades, FALLBACK_USD_ILS, impliedUsdIlsRates, latestRate } from "../utils/fx";
+import {
+  isTickerSymbol,
+  mergeTickerAliases,
+  readTickerAliases,
+  saveTickerAliases,
+  TickerAliasMap,
+} from "../utils/aliases";
+import { normalizeTaseSymbol, readTaseSymbols, saveTaseSymbols, TaseSymbolMap, yahooSymbolFor } from "../utils/securities";
 import {
   getStockSymbols,
   computeOpenPositions,
   computeRealizedRounds,
+  computeRealizedSales,
+  computeAllDividends,
   computeStockPerformance,
   valuePositions,
   computePortfolioSummary,
@@ -14,87 +40,305 @@ import {
   computeQuarterlyComparison,
 } from "../utils/calculations";
 import {
+  fetchFxRate,
   fetchMultipleStockPrices,
+  getCachedFxRate,
   getCachedStockPrice,
+  PriceFailure,
+  PriceProgress,
+  setPriceProviders,
   StockPrice,
   RateLimitError,
 } from "../stockPriceService";
+import { providersFor, readProviderOrder, saveProviderOrder } from "../priceProviders/registry";
+import type { PriceProviderId } from "../priceProviders/types";
+
+const NO_ACCOUNTS: string[] = [];
+const NO_FILES: number[] = [];
+const NO_CPI: CpiSeries = {};
+
+export type PriceRefreshResult = "ok" | "rate-limited" | "failed" | "aborted";
+
+export interface PriceRefreshOptions {
+  maxAge?: number; // cap on cached quote age (scheduled refreshes)
+  signal?: AbortSignal; // cancels the run; nothing it loaded later is applied
+}
+
+const RATE_LIMIT_MESSAGE = "מקור המחירים החינמי הגיע למגבלת שימוש זמנית. נסה שוב מאוחר יותר.";
 
 // Single source of derived portfolio state. Takes the raw parsed rows and
 // exposes typed transactions, derived positions, realized P&L, and live-price
 // loading. New dashboard/analytics components consume this; existing tabs keep
-// their own logic until migrated.
-export const usePortfolio = (rows: RawRow[]) => {
+// their own logic until migrated. `accounts[i]` labels the account of `rows[i]`.
+export const usePortfolio = (rows: RawRow[], accounts: string[] = NO_ACCOUNTS, files: number[] = NO_FILES) => {
   const [livePrices, setLivePrices] = useState<Map<string, StockPrice>>(new Map());
   const [pricesLoading, setPricesLoading] = useState(false);
   const [priceError, setPriceError] = useState<string | null>(null);
+  const [priceProgress, setPriceProgress] = useState<PriceProgress | null>(null);
+  // IBI symbol → why the last refresh got no price for it.
+  const [priceFailures, setPriceFailures] = useState<Map<string, PriceFailure>>(new Map());
+  // The refresh in flight; a new one aborts it, and only the newest may clear
+  // the loading state.
+  const latestRefresh = useRef<AbortController | null>(null);
+  const [costMethod, setCostMethodState] = useState<CostMethod>(() => readCostMethod(localStorage));
+
+  const setCostMethod = useCallback((method: CostMethod) => {
+    setCostMethodState(method);
+    saveCostMethod(localStorage, method);
+  }, []);
+
+  // CPI series for real gains: the user's import of the published index, or
+  // none until one is imported (null clears the import).
+  const [importedCpi, setImportedCpi] = useState<CpiSeries | null>(() => readCpiSeries(localStorage));
+  const cpiSeries = importedCpi ?? NO_CPI;
+
+  const setCpiImport = useCallback((series: CpiSeries | null) => {
+    setImportedCpi(series);
+    saveCpiSeries(localStorage, series);
+  }, []);
+
+  // Price sources in the order they are asked; the service reads the same
+  // setting on first use, so it only needs telling about changes.
+  const [priceProviders, setPriceProvidersState] = useState<PriceProviderId[]>(() => readProviderOrder(localStorage));
+  const setPriceProviderOrder = useCallback((order: PriceProviderId[]) => {
+    if (order.length === 0) return;
+    setPriceProvidersState(order);
+    saveProviderOrder(localStorage, order);
+    setPriceProviders(providersFor(order));
+  }, []);
+
+  const [taseSymbols, setTaseSymbols] = useState<TaseSymbolMap>(() => readTaseSymbols(localStorage));
+  const [liveUsdIls, setLiveUsdIls] = useState<number | null>(null);
+
+  // Point a TASE security number at a Yahoo symbol ("" restores the default).
+  const setTaseSymbol = useCallback((symbol: string, yahooSymbol: string) => {
+    setTaseSymbols((prev) => {
+      const next = { ...prev };
+      const normalized = normalizeTaseSymbol(yahooSymbol);
+      if (normalized) next[symbol] = normalized;
+      else delete next[symbol];
+      saveTaseSymbols(localStorage, next);
+      return next;
+    });
+  }, []);
+
+  // Ticker renames: built-in defaults plus the user's own additions.
+  const [userAliases, setUserAliases] = useState<TickerAliasMap>(() => readTickerAliases(localStorage));
+  const tickerAliases = useMemo(() => mergeTickerAliases(userAliases), [userAliases]);
+
+  // Map an old symbol to its current one ("" drops the user's entry).
+  const setTickerAlias = useCallback((from: string, to: string) => {
+    setUserAliases((prev) => {
+      const next = { ...prev };
+      const oldSymbol = from.trim().toUpperCase();
+      const newSymbol = to.trim().toUpperCase();
+      if (!isTickerSymbol(oldSymbol) || (newSymbol && !isTickerSymbol(newSymbol))) return prev;
+      if (newSymbol) next[oldSymbol] = newSymbol;
+      else delete next[oldSymbol];
+      saveTickerAliases(localStorage, next);
+      return next;
+    });
+  }, []);
+
+  const parsedTransactions = useMemo(
+    () => toTransactions(rows, tickerAliases, accounts, files),
+    [rows, tickerAliases, accounts, files]
+  );
+  const impliedUsdIls = useMemo(() => latestRate(impliedUsdIlsRates(parsedTransactions)), [parsedTransactions]);
+  const usdIlsRate = liveUsdIls ?? impliedUsdIls ?? FALLBACK_USD_ILS;
+  // TASE trades converted to USD at their trade-date rate. The live rate only
+  // matters when no USD trade implies one, so it doesn't re-run the lot engine
+  // otherwise.
+  const tradeFallbackRate = impliedUsdIls === null ? usdIlsRate : FALLBACK_USD_ILS;
+  const convertedTransactions = useMemo(
+    () => convertTaseTrades(parsedTransactions, tradeFallbackRate),
+    [parsedTransactions, tradeFallbackRate]
+  );
+
+  // Splits from IBI adjustment rows plus any the user declared; trades are
+  // restated in post-split shares before any position or P&L math.
+  const [manualActions, setManualActions] = useState<CorporateAction[]>(() => readManualActions(localStorage));
+  const corporateActions = useMemo(
+    () =>
+      [...detectSplits(convertedTransactions), ...manualActions].sort((a, b) => a.timestamp - b.timestamp),
+    [convertedTransactions, manualActions]
+  );
+  const transactions: Transaction[] = useMemo(
+    () => applyCorporateActions(convertedTransactions, corporateActions),
+    [convertedTransactions, corporateActions]
+  );
+
+  const addCorporateAction = useCallback((symbol: string, date: string, ratio: number) => {
+    setManualActions((prev) => {
+      const action = manualAction(symbol, date, ratio, `manual-${symbol}-${Date.now()}`);
+      if (!action) return prev;
+      const next = [...prev, action];
+      saveManualActions(localStorage, next);
+      return next;
+    });
+  }, []);
+
+  const removeCorporateAction = useCallback((id: string) => {
+    setManualActions((prev) => {
+      const next = prev.filter((a) => a.id !== id);
+      saveManualActions(localStorage, next);
+      return next;
+    });
+  }, []);
 
-  const transactions: Transaction[] = useMemo(() => toTransactions(rows), [rows]);
   const symbols = useMemo(() => getStockSymbols(transactions), [transactions]);
 
-  const basePositions = useMemo(() => computeOpenPositions(transactions), [transactions]);
+  const basePositions = useMemo(
+    () => computeOpenPositions(transactions, costMethod),
+    [transactions, costMethod]
+  );
+
+  // Hand-entered prices override live quotes until they expire.
+  const [manualPrices, setManualPrices] = useState<ManualPrice[]>(() => readManualPrices(localStorage));
+  const activeManual = useMemo(() => activeManualPrices(manualPrices), [manualPrices]);
+
+  const addManualPrices = useCallback((added: ManualPrice[]) => {
+    setManualPrices((prev) => {
+      const next = upsertManualPrices(prev, added);
+      saveManualPrices(localStorage, next);
+      return next;
+    });
+  }, []);
+
+  const removeManualPrice = useCallback((symbol: string) => {
+    setManualPrices((prev) => {
+      const next = prev.filter((p) => p.symbol !== symbol);
+      saveManualPrices(localStorage, next);
+      return next;
+    });
+  }, []);
 
   const positions = useMemo(
-    () => valuePositions(basePositions, livePrices),
-    [basePositions, livePrices]
+    () => valuePositions(basePositions, livePrices, usdIlsRate, activeManual),
+    [basePositions, livePrices, usdIlsRate, activeManual]
   );
 
   const realizedRounds: RealizedRound[] = useMemo(
-    () => symbols.flatMap((symbol) => computeRealizedRounds(transactions, symbol)),
-    [symbols, transactions]
+    () => symbols.flatMap((symbol) => computeRealizedRounds(transactions, symbol, tickerAliases)),
+    [symbols, transactions, tickerAliases]
+  );
+
+  const realizedSales: RealizedSale[] = useMemo(
+    () => symbols.flatMap((symbol) => computeRealizedSales(transactions, symbol, costMethod)),
+    [symbols, transactions, costMethod]
+  );
+
+  const dividends = useMemo(
+    () => computeAllDividends(transactions, tickerAliases),
+    [transactions, tickerAliases]
   );
 
   const stockPerformance = useMemo(
-    () => computeStockPerformance(transactions),
-    [transactions]
+    () => computeStockPerformance(transactions, costMethod, tickerAliases),
+    [transactions, costMethod, tickerAliases]
   );
 
   const summary = useMemo(
-    () => computePortfolioSummary(positions, realizedRounds, livePrices),
-    [positions, realizedRounds, livePrices]
+    () => computePortfolioSummary(positions, realizedSales, dividends, livePrices, undefined, usdIlsRate),
+    [positions, realizedSales, dividends, livePrices, usdIlsRate]
   );
 
   const allocation = useMemo(() => computeAllocation(positions), [positions]);
-  const realizedTimeline = useMemo(() => computeRealizedTimeline(realizedRounds), [realizedRounds]);
-  const yearlySummary = useMemo(() => computeYearlySummary(realizedRounds), [realizedRounds]);
+  const realizedTimeline = useMemo(
+    () => computeRealizedTimeline(realizedSales, dividends),
+    [realizedSales, dividends]
+  );
+  const yearlySummary = useMemo(
+    () => computeYearlySummary(realizedSales, dividends),
+    [realizedSales, dividends]
+  );
   const quarterlyComparison = useMemo(
-    () => computeQuarterlyComparison(realizedRounds),
-    [realizedRounds]
+    () => computeQuarterlyComparison(realizedSales, dividends),
+    [realizedSales, dividends]
   );
 
-  // Hydrate from cache immediately, then refresh from the network.
-  const refreshPrices = useCallback(async () => {
-    if (basePositions.length === 0) return;
-    const openSymbols = basePositions.map((p) => p.symbol);
+  // Hydrate from cache immediately, then stream prices in from the network as
+  // each symbol resolves. Prices are keyed by IBI symbol; TASE numbers are
+  // fetched under their Yahoo symbol. Changing the price providers re-creates
+  // the callback, which re-fetches. A new run supersedes one still loading.
+  const refreshPrices = useCallback(async (
+    { maxAge, signal }: PriceRefreshOptions = {}
+  ): Promise<PriceRefreshResult> => {
+    if (basePositions.length === 0) return "ok";
+    const yahooToSymbol = new Map(
+      basePositions.map((p) => [yahooSymbolFor(p.symbol, taseSymbols), p.symbol] as const)
+    );
+    const needsFx = basePositions.some((p) => p.currency === "ILS");
 
     const cached = new Map<string, StockPrice>();
-    openSymbols.forEach((symbol) => {
-      const hit = getCachedStockPrice(symbol);
+    yahooToSymbol.forEach((symbol, yahooSymbol) => {
+      const hit = getCachedStockPrice(yahooSymbol);
       if (hit) cached.set(symbol, hit);
     });
     if (cached.size > 0) setLivePrices((prev) => new Map([...prev, ...cached]));
+    const cachedFx = needsFx ? getCachedFxRate("USD", "ILS") : null;
+    if (cachedFx) setLiveUsdIls(cachedFx);
 
+    const controller = new AbortController();
+    latestRefresh.current?.abort();
+    latestRefresh.current = controller;
+    const abortRun = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener("abort", abortRun, { once: true });
     setPricesLoading(true);
     setPriceError(null);
+    setPriceProgress({ done: 0, total: yahooToSymbol.size, failed: 0 });
     try {
-      const fresh = await fetchMultipleStockPrices(openSymbols);
-      if (fresh.size > 0) setLivePrices((prev) => new Map([...prev, ...fresh]));
+      const [fresh, fx] = await Promise.all([
+        fetchMultipleStockPrices([...yahooToSymbol.keys()], {
+          maxAge,
+          signal: controller.signal,
+          onPrice: (yahooSymbol, price) => {
+            const symbol = yahooToSymbol.get(yahooSymbol);
+            if (symbol) setLivePrices((prev) => new Map(prev).set(symbol, price));
+          },
+          onProgress: setPriceProgress,
+        }),
+        needsFx ? fetchFxRate("USD", "ILS", maxAge).catch(() => null) : null,
+      ]);
+      if (fresh.aborted) return "aborted";
+      if (fx) setLiveUsdIls(fx);
+      const failures = new Map<string, PriceFailure>();
+      fresh.failures.forEach((failure, yahooSymbol) => {
+        const symbol = yahooToSymbol.get(yahooSymbol);
+        if (symbol) failures.set(symbol, failure);
+      });
+      setPriceFailures(failures);
+      // Whatever loaded before the limit is kept.
+      if (fresh.rateLimited) {
+        setPriceError(RATE_LIMIT_MESSAGE);
+        return "rate-limited";
+      }
+      return "ok";
     } catch (err) {
       if (err instanceof RateLimitError) {
-        setPriceError("מקור המחירים החינמי הגיע למגבלת שימוש זמנית. נסה שוב מאוחר יותר.");
-      } else {
-        setPriceError("שגיאה בטעינת מחירים ממקור חינמי. יוצגו נתונים מהמטמון אם קיימים.");
+        setPriceError(RATE_LIMIT_MESSAGE);
+        return "rate-limited";
       }
+      setPriceError("שגיאה בטעינת מחירים ממקור חינמי. יוצגו נתונים מהמטמון אם קיימים.");
+      return "failed";
     } finally {
-      setPricesLoading(false);
+      signal?.removeEventListener("abort", abortRun);
+      if (latestRefresh.current === controller) {
+        latestRefresh.current = null;
+        setPricesLoading(false);
+        setPriceProgress(null);
+      }
     }
-  }, [basePositions]);
+  }, [basePositions, taseSymbols, priceProviders]);
 
   return {
     transactions,
     symbols,
     positions,
     realizedRounds,
+    realizedSales,
+    dividends,
     stockPerformance,
     summary,
     allocation,
@@ -104,6 +348,27 @@ export const usePortfolio = (rows: RawRow[]) => {
     livePrices,
     pricesLoading,
     priceError,
+    priceProgress,
+    priceFailures,
     refreshPrices,
+    costMethod,
+    setCostMethod,
+    cpiSeries,
+    cpiImported: importedCpi !== null,
+    setCpiImport,
+    usdIlsRate,
+    taseSymbols,
+    setTaseSymbol,
+    priceProviders,
+    setPriceProviderOrder,
+    manualPrices,
+    addManualPrices,
+    removeManualPrice,
+    corporateActions,
+    addCorporateAction,
+    removeCorporateAction,
+    tickerAliases,
+    userAliases,
+    setTickerAlias,
   };
 };
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { fetchLongHistory, HistoricalDataPoint, PRICE_CONCURRENCY, RateLimitError } from "../stockPriceService";
+import { TaseSymbolMap, yahooSymbolFor } from "../utils/securities";
+
+// Long price history for `symbols` (those the valuation needs), keyed by IBI
+// symbol. Loaded a few at a time to stay gentle on the free proxies;
+// `histories` is null until the pass finishes. A symbol that fails or has no
+// history is left out, and the valuation falls back to its last trade price;
+// a rate limit stops the pass with whatever loaded so far.
+export const usePriceHistories = (symbols: string[], taseSymbols: TaseSymbolMap) => {
+  const [histories, setHistories] = useState<Map<string, HistoricalDataPoint[]> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const loaded = new Map<string, HistoricalDataPoint[]>();
+      let cursor = 0;
+      let rateLimited = false;
+      let failed = 0;
+      const worker = async () => {
+        while (cursor < symbols.length && !rateLimited && !cancelled) {
+          const symbol = symbols[cursor];
+          cursor += 1;
+          try {
+            const history = await fetchLongHistory(yahooSymbolFor(symbol, taseSymbols));
+            if (history.length > 0) loaded.set(symbol, history);
+          } catch (err) {
+            if (err instanceof RateLimitError) rateLimited = true;
+            else failed += 1;
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(PRICE_CONCURRENCY, symbols.length) }, worker));
+      if (cancelled) return;
+      setError(
+        rateLimited
+          ? "מקור המחירים הגיע למגבלת שימוש — חלק מהשווי מחושב לפי מחיר העסקה האחרונה."
+          : failed > 0
+            ? `טעינת מחירי עבר נכשלה עבור ${failed} ניירות — השווי שלהם מחושב לפי מחיר העסקה האחרונה.`
+            : null
+      );
+      setHistories(loaded);
+    };
+    setHistories(null);
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [symbols, taseSymbols]);
+
+  return { histories, error };
+};
@@ -0,0 +1,89 @@
+import type { HistoricalDataPoint, HistoryRange } from "../stockPriceService";
+
+// URL builders tried in order until one succeeds. Direct first (works outside a
+// browser / when CORS allows), then public proxies.
+const PROXY_BUILDERS: Array<(url: string) => string> = [
+  (url) => url,
+  (url) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
+  (url) => `https://corsproxy.io/?url=${encodeURIComponent(url)}`,
+  (url) => `https://thingproxy.freeboard.io/fetch/${url}`,
+];
+
+export class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+export const isAbortError = (error: unknown): boolean => (error as { name?: unknown })?.name === "AbortError";
+
+// Fetch `url` directly and then through each proxy until `parse` accepts the
+// body. `parse` returns null for a body it doesn't recognise (some proxies
+// return their own error pages) and may throw RateLimitError. Aborting
+// `signal` stops at once instead of moving on to the next proxy.
+export const fetchThroughProxies = async <T>(
+  url: string,
+  accept: string,
+  parse: (body: string) => T | null,
+  signal?: AbortSignal
+): Promise<T> => {
+  let lastError: unknown = null;
+  let sawRateLimit = false;
+
+  for (const build of PROXY_BUILDERS) {
+    try {
+      const response = await fetch(build(url), { headers: { Accept: accept }, signal });
+      if (response.status === 429) {
+        sawRateLimit = true;
+        continue; // try the next proxy
+      }
+      if (!response.ok) {
+        lastError = new Error(`HTTP ${response.status}`);
+        continue;
+      }
+      const parsed = parse(await response.text());
+      if (parsed !== null) return parsed;
+      lastError = new Error("Unexpected response shape");
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (error instanceof RateLimitError) sawRateLimit = true;
+      else lastError = error;
+    }
+  }
+
+  if (sawRateLimit) {
+    throw new RateLimitError("Price source rate limit reached. Please try again shortly.");
+  }
+  throw lastError ?? new Error("All price sources failed");
+};
+
+const RANGE_MONTHS: Record<Exclude<HistoryRange, "max">, number> = {
+  "1mo": 1,
+  "3mo": 3,
+  "6mo": 6,
+  "1y": 12,
+  "5y": 60,
+  "10y": 120,
+};
+
+// First day covered by a trailing range, or null for the whole listing.
+export const rangeStart = (range: HistoryRange, now = Date.now()): Date | null => {
+  if (range === "max") return null;
+  const d = new Date(now);
+  return new Date(d.getFullYear(), d.getMonth() - RANGE_MONTHS[range], d.getDate());
+};
+
+export const isoDay = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// 52-week high and low from daily closes.
+export const yearRange = (
+  history: HistoricalDataPoint[],
+  now = Date.now()
+): { fiftyTwoWeekHigh?: number; fiftyTwoWeekLow?: number } => {
+  const from = isoDay(rangeStart("1y", now) as Date);
+  const closes = history.filter((p) => p.date >= from).map((p) => p.close);
+  if (closes.length === 0) return {};
+  return { fiftyTwoWeekHigh: Math.max(...closes), fiftyTwoWeekLow: Math.min(...closes) };
+};
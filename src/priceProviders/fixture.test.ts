@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from "vitest";
+import { fetchHistoricalData, fetchStockPrice, setPriceProviders } from "../stockPriceService";
+import { RateLimitError } from "./common";
+import { createFixtureProvider, PriceFixture } from "./fixture";
+import type { PriceProvider } from "./types";
+
+const FIXTURES: Record<string, PriceFixture> = {
+  AAA: {
+    history: [
+      { date: "2026-03-04", close: 12, volume: 0 },
+      { date: "2026-03-02", close: 10, volume: 0 },
+      { date: "2026-03-03", close: 11, volume: 0 },
+      { date: "2026-03-09", close: 13, volume: 0 },
+      { date: "2026-04-01", close: 15, volume: 0 },
+    ],
+  },
+  "ILS=X": { price: 3.65, previousClose: 3.6, currency: "ILS" },
+};
+
+const fixtures = createFixtureProvider(async (symbol) => FIXTURES[symbol] ?? null);
+
+const createStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => values.set(key, value),
+  };
+};
+
+describe("fixture provider", () => {
+  it("quotes the last two closes or the recorded price", async () => {
+    expect(await fixtures.quote("AAA")).toMatchObject({ price: 15, previousClose: 13, change: 2, currency: "USD" });
+    expect(await fixtures.fxRate?.("USD", "ILS")).toBe(3.65);
+    expect(await fixtures.quote("BBB")).toBeNull();
+  });
+
+  it("resamples daily history to weekly and monthly closes", async () => {
+    const weekly = await fixtures.history("AAA", "max", "1wk");
+    expect(weekly.map((p) => p.date)).toEqual(["2026-03-04", "2026-03-09", "2026-04-01"]);
+    const monthly = await fixtures.history("AAA", "max", "1mo");
+    expect(monthly.map((p) => p.close)).toEqual([13, 15]);
+  });
+
+  it("serves the price service fully offline behind a rate-limited provider", async () => {
+    vi.stubGlobal("localStorage", createStorage());
+    const limited: PriceProvider = {
+      id: "yahoo",
+      quote: () => Promise.reject(new RateLimitError("limited")),
+      history: () => Promise.reject(new RateLimitError("limited")),
+    };
+    setPriceProviders([limited, fixtures]);
+
+    expect((await fetchStockPrice("AAA"))?.price).toBe(15);
+    expect(await fetchHistoricalData("AAA", "max", "1d")).toHaveLength(5);
+
+    setPriceProviders([limited]);
+    await expect(fetchStockPrice("AAA")).rejects.toThrow(RateLimitError);
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,92 @@
+import type { HistoricalDataPoint, HistoryInterval, HistoryRange, StockPrice } from "../stockPriceService";
+import { isoDay, rangeStart, yearRange } from "./common";
+import type { PriceProvider } from "./types";
+
+// Recorded prices from local JSON files, one per Yahoo symbol, so the app and
+// its tests run without any network. A fixture needs either a `price` or a
+// `history`; the quote falls back to the last two closes.
+export interface PriceFixture {
+  currency?: string; // default "USD"
+  price?: number;
+  previousClose?: number;
+  history?: HistoricalDataPoint[]; // daily, any order
+}
+
+export type FixtureLoader = (symbol: string) => Promise<PriceFixture | null>;
+
+// Monday of the week as the grouping key for weekly candles.
+const weekKey = (date: string) => {
+  const d = new Date(`${date}T00:00:00`);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return isoDay(d);
+};
+
+// Daily points down-sampled to the last close of each week or month.
+export const resample = (points: HistoricalDataPoint[], interval: HistoryInterval): HistoricalDataPoint[] => {
+  if (interval === "1d") return points;
+  const keyOf = interval === "1wk" ? weekKey : (date: string) => date.slice(0, 7);
+  const last = new Map<string, HistoricalDataPoint>();
+  points.forEach((point) => last.set(keyOf(point.date), point));
+  return Array.from(last.values());
+};
+
+const sortedHistory = (fixture: PriceFixture) =>
+  [...(fixture.history ?? [])].filter((p) => p.close > 0).sort((a, b) => a.date.localeCompare(b.date));
+
+export const createFixtureProvider = (load: FixtureLoader): PriceProvider => {
+  const quote = async (symbol: string): Promise<StockPrice | null> => {
+    const fixture = await load(symbol);
+    if (!fixture) return null;
+    const history = sortedHistory(fixture);
+    const closes = history.map((p) => p.close);
+    if (fixture.price !== undefined) closes.push(fixture.price);
+    const price = closes[closes.length - 1];
+    if (price === undefined) return null;
+
+    const previousClose = fixture.previousClose ?? closes[closes.length - 2] ?? price;
+    const change = price - previousClose;
+    return {
+      symbol,
+      price,
+      change,
+      changePercent: previousClose ? (change / previousClose) * 100 : 0,
+      previousClose,
+      currency: fixture.currency ?? "USD",
+      ...yearRange(history),
+    };
+  };
+
+  const history = async (
+    symbol: string,
+    range: HistoryRange,
+    interval: HistoryInterval
+  ): Promise<HistoricalDataPoint[]> => {
+    const fixture = await load(symbol);
+    if (!fixture) return [];
+    const start = rangeStart(range);
+    const from = start ? isoDay(start) : "";
+    return resample(sortedHistory(fixture).filter((p) => p.date >= from), interval);
+  };
+
+  // Pairs are stored under their Yahoo quote symbol ("ILS=X" for USD/ILS).
+  const fxRate = async (from: string, to: string): Promise<number | null> => {
+    const pair = await quote(from === "USD" ? `${to}=X` : `${from}${to}=X`);
+    return pair ? pair.price : null;
+  };
+
+  return { id: "fixture", quote, history, fxRate };
+};
+
+// dev-data/prices/<symbol>.json, served by the dev server next to the sample
+// XLSX files. Missing files simply mean "no fixture".
+const loadFixtureFile: FixtureLoader = async (symbol) => {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}dev-data/prices/${encodeURIComponent(symbol)}.json`);
+    if (!response.ok) return null;
+    return (await response.json()) as PriceFixture;
+  } catch {
+    return null;
+  }
+};
+
+export const fixtureProvider = createFixtureProvider(loadFixtureFile);
@@ -0,0 +1,40 @@
+import { fixtureProvider } from "./fixture";
+import { stooqProvider } from "./stooq";
+import type { PriceProvider, PriceProviderId } from "./types";
+import { yahooProvider } from "./yahoo";
+
+export const PRICE_PROVIDERS: Record<PriceProviderId, PriceProvider> = {
+  yahoo: yahooProvider,
+  stooq: stooqProvider,
+  fixture: fixtureProvider,
+};
+
+// Local fixtures are opt-in: they only exist on a dev server.
+export const DEFAULT_PROVIDER_ORDER: PriceProviderId[] = ["yahoo", "stooq"];
+
+const PROVIDER_ORDER_KEY = "ibi_price_providers";
+
+const isProviderId = (value: unknown): value is PriceProviderId =>
+  typeof value === "string" && value in PRICE_PROVIDERS;
+
+// Enabled providers, in the order they are asked.
+export const readProviderOrder = (storage: Pick<Storage, "getItem">): PriceProviderId[] => {
+  try {
+    const parsed = JSON.parse(storage.getItem(PROVIDER_ORDER_KEY) ?? "null");
+    if (!Array.isArray(parsed)) return DEFAULT_PROVIDER_ORDER;
+    const order = Array.from(new Set(parsed.filter(isProviderId)));
+    return order.length > 0 ? order : DEFAULT_PROVIDER_ORDER;
+  } catch {
+    return DEFAULT_PROVIDER_ORDER;
+  }
+};
+
+export const saveProviderOrder = (storage: Pick<Storage, "setItem">, order: PriceProviderId[]) => {
+  try {
+    storage.setItem(PROVIDER_ORDER_KEY, JSON.stringify(order));
+  } catch {
+    /* provider order is a convenience setting */
+  }
+};
+
+export const providersFor = (order: PriceProviderId[]): PriceProvider[] => order.map((id) => PRICE_PROVIDERS[id]);
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { RateLimitError } from "./common";
+import { parseStooqCsv, stooqSymbol } from "./stooq";
+
+describe("stooq provider", () => {
+  it("maps US tickers and skips other markets", () => {
+    expect(stooqSymbol("AAPL")).toBe("aapl.us");
+    expect(stooqSymbol("BRK-B")).toBe("brk-b.us");
+    expect(stooqSymbol("1183441.TA")).toBeNull();
+    expect(stooqSymbol("^GSPC")).toBeNull();
+  });
+
+  it("parses the CSV download", () => {
+    const csv = "Date,Open,High,Low,Close,Volume\r\n2026-03-02,10,11,9,10.5,1200\r\n2026-03-03,10.5,12,10,11.75,900\r\n";
+    expect(parseStooqCsv(csv)).toEqual([
+      { date: "2026-03-02", close: 10.5, volume: 1200 },
+      { date: "2026-03-03", close: 11.75, volume: 900 },
+    ]);
+  });
+
+  it("tells an empty series from a foreign body and a rate limit", () => {
+    expect(parseStooqCsv("No data")).toEqual([]);
+    expect(parseStooqCsv("<html>proxy error</html>")).toBeNull();
+    expect(() => parseStooqCsv("Exceeded the daily hits limit")).toThrow(RateLimitError);
+  });
+});
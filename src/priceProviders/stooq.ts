@@ -0,0 +1,95 @@
+import type { HistoricalDataPoint, HistoryInterval, HistoryRange, StockPrice } from "../stockPriceService";
+import { fetchThroughProxies, isoDay, rangeStart, RateLimitError, yearRange } from "./common";
+import type { PriceProvider } from "./types";
+
+// Stooq — free CSV downloads, no key. Covers US listings and currency pairs;
+// Tel Aviv securities and Yahoo-style indices are left to other providers.
+const STOOQ_BASE = "https://stooq.com/q/d/l/";
+
+const STOOQ_INTERVAL: Record<HistoryInterval, string> = { "1d": "d", "1wk": "w", "1mo": "m" };
+
+// "AAPL" → "aapl.us", "BRK-B" → "brk-b.us"; null for anything with an
+// exchange suffix or index prefix ("TEVA.TA", "^GSPC", "ILS=X").
+export const stooqSymbol = (symbol: string): string | null =>
+  /^[A-Z0-9-]+$/i.test(symbol) ? `${symbol.toLowerCase()}.us` : null;
+
+const compactDay = (date: Date) => isoDay(date).replace(/-/g, "");
+
+// Date,Open,High,Low,Close,Volume rows, oldest first. "No data" is an empty
+// series; any other non-CSV body is not Stooq's (null).
+export const parseStooqCsv = (body: string): HistoricalDataPoint[] | null => {
+  const text = body.trim();
+  if (/exceeded the daily hits limit/i.test(text)) {
+    throw new RateLimitError("Stooq daily download limit reached.");
+  }
+  if (text === "No data") return [];
+  const [header, ...rows] = text.split(/\r?\n/);
+  const columns = header.split(",").map((c) => c.trim().toLowerCase());
+  const dateCol = columns.indexOf("date");
+  const closeCol = columns.indexOf("close");
+  const volumeCol = columns.indexOf("volume");
+  if (dateCol === -1 || closeCol === -1) return null;
+
+  return rows
+    .map((row) => row.split(","))
+    .map((cells) => ({
+      date: cells[dateCol]?.trim() ?? "",
+      close: Number(cells[closeCol]) || 0,
+      volume: volumeCol === -1 ? 0 : Number(cells[volumeCol]) || 0,
+    }))
+    .filter((point) => /^\d{4}-\d{2}-\d{2}$/.test(point.date) && point.close > 0);
+};
+
+const fetchCsv = (
+  stooq: string,
+  interval: HistoryInterval,
+  from: Date | null,
+  signal?: AbortSignal
+): Promise<HistoricalDataPoint[]> => {
+  const dates = from ? `&d1=${compactDay(from)}&d2=${compactDay(new Date())}` : "";
+  return fetchThroughProxies(
+    `${STOOQ_BASE}?s=${encodeURIComponent(stooq)}&i=${STOOQ_INTERVAL[interval]}${dates}`,
+    "text/csv",
+    parseStooqCsv,
+    signal
+  );
+};
+
+// The last two daily closes over a year of history, which also gives the
+// 52-week range.
+const quote = async (symbol: string, signal?: AbortSignal): Promise<StockPrice | null> => {
+  const stooq = stooqSymbol(symbol);
+  if (!stooq) return null;
+  const daily = await fetchCsv(stooq, "1d", rangeStart("1y"), signal);
+  if (daily.length === 0) return null;
+
+  const price = daily[daily.length - 1].close;
+  const previousClose = daily.length > 1 ? daily[daily.length - 2].close : price;
+  const change = price - previousClose;
+  return {
+    symbol,
+    price,
+    change,
+    changePercent: previousClose ? (change / previousClose) * 100 : 0,
+    previousClose,
+    currency: "USD",
+    ...yearRange(daily),
+  };
+};
+
+const history = async (
+  symbol: string,
+  range: HistoryRange,
+  interval: HistoryInterval
+): Promise<HistoricalDataPoint[]> => {
+  const stooq = stooqSymbol(symbol);
+  return stooq ? fetchCsv(stooq, interval, rangeStart(range)) : [];
+};
+
+// Pairs are plain concatenations: "usdils".
+const fxRate = async (from: string, to: string): Promise<number | null> => {
+  const daily = await fetchCsv(`${from}${to}`.toLowerCase(), "1d", rangeStart("1mo"));
+  return daily.length > 0 ? daily[daily.length - 1].close : null;
+};
+
+export const stooqProvider: PriceProvider = { id: "stooq", quote, history, fxRate };
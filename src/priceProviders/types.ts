@@ -0,0 +1,16 @@
+import type { HistoricalDataPoint, HistoryInterval, HistoryRange, StockPrice } from "../stockPriceService";
+
+export type PriceProviderId = "yahoo" | "stooq" | "fixture";
+
+// One source of market data. Symbols are in Yahoo's notation (the app's quote
+// symbols); a provider that doesn't carry a symbol answers null / [] so the
+// next one in the chain is asked. Rate limits are thrown as RateLimitError,
+// anything else as a plain error. An aborted `signal` rejects with the
+// fetch's AbortError.
+export interface PriceProvider {
+  id: PriceProviderId;
+  quote(symbol: string, signal?: AbortSignal): Promise<StockPrice | null>;
+  history(symbol: string, range: HistoryRange, interval: HistoryInterval): Promise<HistoricalDataPoint[]>;
+  // Units of `to` per one `from`, e.g. ILS per USD.
+  fxRate?(from: string, to: string): Promise<number | null>;
+}
@@ -0,0 +1,87 @@
+import type { HistoricalDataPoint, HistoryInterval, HistoryRange, StockPrice } from "../stockPriceService";
+import { fetchThroughProxies } from "./common";
+import type { PriceProvider } from "./types";
+
+// Yahoo Finance — NO API KEY REQUIRED.
+//
+// Yahoo's public chart endpoint is free but blocks direct browser calls (CORS),
+// so we try it directly first and then fall back through a couple of public
+// CORS proxies. One endpoint gives us both the latest quote and daily history.
+const YAHOO_BASE = "https://query1.finance.yahoo.com/v8/finance/chart/";
+
+// Some proxies wrap the body as a JSON string — unwrap defensively.
+const parseChart = (body: string): any => {
+  const data = JSON.parse(body);
+  if (data?.chart?.result?.[0]) return data;
+  if (typeof data === "string") {
+    const parsed = JSON.parse(data);
+    if (parsed?.chart?.result?.[0]) return parsed;
+  }
+  return null;
+};
+
+const fetchYahooChart = (symbol: string, range: string, interval: string, signal?: AbortSignal): Promise<any> =>
+  fetchThroughProxies(
+    `${YAHOO_BASE}${encodeURIComponent(symbol)}?interval=${interval}&range=${range}`,
+    "application/json",
+    parseChart,
+    signal
+  );
+
+// Tel Aviv quotes come in agorot ("ILA"); report them in shekels.
+const quoteUnit = (currency: unknown): { scale: number; currency: string } =>
+  currency === "ILA" ? { scale: 0.01, currency: "ILS" } : { scale: 1, currency: String(currency || "USD") };
+
+const quote = async (symbol: string, signal?: AbortSignal): Promise<StockPrice | null> => {
+  const data = await fetchYahooChart(symbol, "1d", "1d", signal);
+  const meta = data?.chart?.result?.[0]?.meta;
+  if (!meta || typeof meta.regularMarketPrice !== "number") {
+    return null;
+  }
+
+  const { scale, currency } = quoteUnit(meta.currency);
+  const price = (Number(meta.regularMarketPrice) || 0) * scale;
+  const previousClose = (Number(meta.previousClose ?? meta.chartPreviousClose) || 0) * scale;
+  const change = price - previousClose;
+  const changePercent = previousClose ? (change / previousClose) * 100 : 0;
+
+  return {
+    symbol,
+    price,
+    change,
+    changePercent,
+    previousClose,
+    currency,
+    fiftyTwoWeekHigh: Number(meta.fiftyTwoWeekHigh) * scale || undefined,
+    fiftyTwoWeekLow: Number(meta.fiftyTwoWeekLow) * scale || undefined,
+  };
+};
+
+const history = async (
+  symbol: string,
+  range: HistoryRange,
+  interval: HistoryInterval
+): Promise<HistoricalDataPoint[]> => {
+  const data = await fetchYahooChart(symbol, range, interval);
+  const result = data?.chart?.result?.[0];
+  const timestamps: number[] = result?.timestamp ?? [];
+  const closes: number[] = result?.indicators?.quote?.[0]?.close ?? [];
+  const { scale } = quoteUnit(result?.meta?.currency);
+  const volumes: number[] = result?.indicators?.quote?.[0]?.volume ?? [];
+
+  return timestamps
+    .map((ts, i) => ({
+      date: new Date(ts * 1000).toISOString().split("T")[0],
+      close: (Number(closes[i]) || 0) * scale,
+      volume: Number(volumes[i]) || 0,
+    }))
+    .filter((point) => point.close > 0);
+};
+
+// Currency pairs are quoted like stocks: "ILS=X" for USD/ILS, "EURILS=X" otherwise.
+const fxRate = async (from: string, to: string): Promise<number | null> => {
+  const pair = await quote(from === "USD" ? `${to}=X` : `${from}${to}=X`);
+  return pair ? pair.price : null;
+};
+
+export const yahooProvider: PriceProvider = { id: "yahoo", quote, history, fxRate };
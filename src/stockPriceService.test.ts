@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  fetchHistoricalData,
+  fetchMultipleStockPrices,
+  PriceProgress,
+  setPriceProviders,
+  StockPrice,
+} from "./stockPriceService";
+import { RateLimitError } from "./priceProviders/common";
+import type { PriceProvider } from "./priceProviders/types";
+
+const createStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => values.set(key, value),
+  };
+};
+
+const price = (symbol: string, value: number): StockPrice => ({
+  symbol,
+  price: value,
+  change: 0,
+  changePercent: 0,
+  previousClose: value,
+  currency: "USD",
+});
+
+// Answers from `quotes`; "LIMIT" is rate-limited, "BOOM" fails, "HANG…" waits
+// until aborted.
+const provider = (quotes: Record<string, number>): PriceProvider => ({
+  id: "fixture",
+  quote: (symbol, signal) => {
+    if (symbol === "LIMIT") return Promise.reject(new RateLimitError("limited"));
+    if (symbol === "BOOM") return Promise.reject(new Error("boom"));
+    if (symbol.startsWith("HANG")) {
+      return new Promise((_, reject) =>
+        signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")))
+      );
+    }
+    return Promise.resolve(symbol in quotes ? price(symbol, quotes[symbol]) : null);
+  },
+  history: () => Promise.resolve([]),
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("fetchMultipleStockPrices", () => {
+  it("streams each price and reports progress and per-symbol failures", async () => {
+    vi.stubGlobal("localStorage", createStorage());
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    setPriceProviders([provider({ AAA: 10, BBB: 20 })]);
+
+    const streamed: string[] = [];
+    const progress: PriceProgress[] = [];
+    const batch = await fetchMultipleStockPrices(["AAA", "BBB", "AAA", "NONE", "BOOM"], {
+      onPrice: (symbol) => streamed.push(symbol),
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(streamed.sort()).toEqual(["AAA", "BBB"]);
+    expect([...batch.prices.keys()].sort()).toEqual(["AAA", "BBB"]);
+    expect(batch.failures).toEqual(new Map([["NONE", "unavailable"], ["BOOM", "failed"]]));
+    expect(progress.map((p) => p.done)).toEqual([1, 2, 3, 4]);
+    expect(progress[3]).toEqual({ done: 4, total: 4, failed: 2 });
+    expect(batch).toMatchObject({ rateLimited: false, aborted: false });
+  });
+
+  it("stops on a rate limit and marks the rest as rate-limited", async () => {
+    vi.stubGlobal("localStorage", createStorage());
+    setPriceProviders([provider({})]);
+
+    const symbols = ["LIMIT", ...Array.from({ length: 8 }, (_, i) => `S${i}`)];
+    const batch = await fetchMultipleStockPrices(symbols);
+
+    expect(batch.rateLimited).toBe(true);
+    expect(batch.failures.get("LIMIT")).toBe("rate-limited");
+    expect(batch.failures.get("S7")).toBe("rate-limited");
+    expect(batch.failures.size + batch.prices.size).toBe(symbols.length);
+  });
+
+  it("stops without further callbacks once aborted", async () => {
+    vi.stubGlobal("localStorage", createStorage());
+    setPriceProviders([provider({ AAA: 10 })]);
+
+    const controller = new AbortController();
+    const onPrice = vi.fn();
+    const pending = fetchMultipleStockPrices(["HANG", "HANG2", "HANG3", "HANG4", "AAA"], {
+      signal: controller.signal,
+      onPrice,
+    });
+    controller.abort();
+    const batch = await pending;
+
+    expect(batch.aborted).toBe(true);
+    expect(onPrice).not.toHaveBeenCalled();
+    expect(batch.failures.has("AAA")).toBe(false);
+  });
+});
+
+describe("fetchHistoricalData", () => {
+  it("doesn't cache a failed fetch", async () => {
+    vi.stubGlobal("localStorage", createStorage());
+    const history = vi
+      .fn<PriceProvider["history"]>()
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValue([{ date: "2026-03-02", close: 10, volume: 0 }]);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    setPriceProviders([{ ...provider({}), history }]);
+
+    await expect(fetchHistoricalData("AAA", "1y")).rejects.toThrow("offline");
+    expect(await fetchHistoricalData("AAA", "1y")).toHaveLength(1);
+    expect(history).toHaveBeenCalledTimes(2);
+  });
+});
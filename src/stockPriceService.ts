@@ -1,18 +1,13 @@
-// Live stock prices via Yahoo Finance — NO API KEY REQUIRED.
+// Live stock prices and history — NO API KEY REQUIRED.
 //
-// Yahoo's public chart endpoint is free but blocks direct browser calls (CORS),
-// so we try it directly first and then fall back through a couple of public
-// CORS proxies. One endpoint gives us both the latest quote and daily history.
-const YAHOO_BASE = "https://query1.finance.yahoo.com/v8/finance/chart/";
-
-// URL builders tried in order until one succeeds. Direct first (works outside a
-// browser / when CORS allows), then public proxies.
-const PROXY_BUILDERS: Array<(url: string) => string> = [
-  (url) => url,
-  (url) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
-  (url) => `https://corsproxy.io/?url=${encodeURIComponent(url)}`,
-  (url) => `https://thingproxy.freeboard.io/fetch/${url}`,
-];
+// Data comes from a chain of providers (Yahoo, Stooq, local fixtures) asked in
+// the order set in the settings; the first one with an answer wins. Results
+// are cached here, in memory and in localStorage, whichever provider gave them.
+import { isAbortError, RateLimitError } from "./priceProviders/common";
+import { DEFAULT_PROVIDER_ORDER, providersFor, readProviderOrder } from "./priceProviders/registry";
+import type { PriceProvider } from "./priceProviders/types";
+
+export { RateLimitError };
 
 export interface StockPrice {
   symbol: string;
@@ -33,19 +28,59 @@ export interface HistoricalDataPoint {
 
 const cache = new Map<string, { data: StockPrice; timestamp: number }>();
 const historicalCache = new Map<string, { data: HistoricalDataPoint[]; timestamp: number }>();
+const fxCache = new Map<string, { data: number; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes in memory
 const LOCAL_STORAGE_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in localStorage
 
-// Prefixes versioned per provider so a provider switch never reads stale data.
-const PRICE_KEY = (symbol: string) => `yahoo_price_${symbol}`;
-const HISTORY_KEY = (symbol: string) => `yahoo_history_${symbol}`;
+let providers: PriceProvider[] | null = null;
 
-export class RateLimitError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "RateLimitError";
+// The configured chain, read from settings on first use.
+const activeProviders = (): PriceProvider[] => {
+  if (!providers) {
+    providers = providersFor(
+      typeof localStorage === "undefined" ? DEFAULT_PROVIDER_ORDER : readProviderOrder(localStorage)
+    );
   }
-}
+  return providers;
+};
+
+// Swap the provider chain. In-memory results from the old chain are dropped.
+export const setPriceProviders = (next: PriceProvider[]): void => {
+  providers = next;
+  cache.clear();
+  historicalCache.clear();
+  fxCache.clear();
+};
+
+// Prefixes versioned per provider chain so a provider switch never reads stale data.
+const chainId = () => activeProviders().map((provider) => provider.id).join("+");
+const PRICE_KEY = (symbol: string) => `${chainId()}_price_${symbol}`;
+const HISTORY_KEY = (symbol: string, range: HistoryRange, interval: HistoryInterval) =>
+  `${chainId()}_history_${range}_${interval}_${symbol}`;
+const FX_KEY = (from: string, to: string) => `${chainId()}_fx_${from}${to}`;
+
+export type HistoryRange = "1mo" | "3mo" | "6mo" | "1y" | "5y" | "10y" | "max";
+export type HistoryInterval = "1d" | "1wk" | "1mo";
+
+// Candle size when the caller doesn't pick one: daily up to a year, weekly
+// beyond, monthly for the whole listing.
+const DEFAULT_INTERVAL: Record<HistoryRange, HistoryInterval> = {
+  "1mo": "1d",
+  "3mo": "1d",
+  "6mo": "1d",
+  "1y": "1d",
+  "5y": "1wk",
+  "10y": "1wk",
+  max: "1mo",
+};
+
+// How long a stored series stays fresh. The last daily candle moves all
+// session; weekly and monthly ones barely change within a day.
+const HISTORY_TTL: Record<HistoryInterval, number> = {
+  "1d": 4 * 60 * 60 * 1000,
+  "1wk": 24 * 60 * 60 * 1000,
+  "1mo": 3 * 24 * 60 * 60 * 1000,
+};
 
 // Kept for backwards compatibility with callers that still reference it; the
 // no-key Yahoo provider never throws this.
@@ -74,44 +109,36 @@ const saveToLocalStorage = <T>(key: string, data: T, timestamp: number): void =>
   }
 };
 
-// Fetch the Yahoo chart JSON for a symbol/range, trying each proxy in turn.
-const fetchYahooChart = async (symbol: string, range: string, interval: string): Promise<any> => {
-  const yahooUrl = `${YAHOO_BASE}${encodeURIComponent(symbol)}?interval=${interval}&range=${range}`;
-  let lastError: unknown = null;
-  let sawRateLimit = false;
-
-  for (const build of PROXY_BUILDERS) {
+// Ask each provider in turn and return the first answer `found` accepts. A
+// rate limit or other failure moves on to the next provider; when none of
+// them answered, a rate limit is raised first, then the last failure, and
+// null only if every provider simply had nothing. An abort is passed
+// straight up.
+const fromProviders = async <T>(
+  what: string,
+  ask: (provider: PriceProvider) => Promise<T> | undefined,
+  found: (value: T) => boolean
+): Promise<T | null> => {
+  let rateLimited = false;
+  let failure: unknown = null;
+  for (const provider of activeProviders()) {
     try {
-      const response = await fetch(build(yahooUrl), {
-        headers: { Accept: "application/json" },
-      });
-      if (response.status === 429) {
-        sawRateLimit = true;
-        continue; // try the next proxy
-      }
-      if (!response.ok) {
-        lastError = new Error(`HTTP ${response.status}`);
-        continue;
-      }
-      const data = await response.json();
-      if (data?.chart?.result?.[0]) {
-        return data;
-      }
-      // Some proxies wrap the body as a string — try to parse defensively.
-      if (typeof data === "string") {
-        const parsed = JSON.parse(data);
-        if (parsed?.chart?.result?.[0]) return parsed;
-      }
-      lastError = new Error("Unexpected Yahoo response shape");
+      const value = await ask(provider);
+      if (value !== undefined && found(value)) return value;
     } catch (error) {
-      lastError = error;
+      if (isAbortError(error)) throw error;
+      if (error instanceof RateLimitError) rateLimited = true;
+      else {
+        console.error(`${provider.id}: failed to fetch ${what}:`, error);
+        failure = error;
+      }
     }
   }
-
-  if (sawRateLimit) {
-    throw new RateLimitError("Yahoo Finance rate limit reached. Please try again shortly.");
+  if (rateLimited) {
+    throw new RateLimitError("Price providers rate limit reached. Please try again shortly.");
   }
-  throw lastError ?? new Error("All price sources failed");
+  if (failure) throw failure;
+  return null;
 };
 
 export const getCachedStockPrice = (symbol: string): StockPrice | null => {
@@ -127,124 +154,188 @@ export const getCachedStockPrice = (symbol: string): StockPrice | null => {
   return null;
 };
 
-export const fetchStockPrice = async (symbol: string): Promise<StockPrice | null> => {
+// `maxAge` caps how old a cached quote may be; scheduled refreshes pass their
+// interval so they don't just re-read the day-long localStorage copy.
+export const fetchStockPrice = async (
+  symbol: string,
+  maxAge = LOCAL_STORAGE_CACHE_DURATION,
+  signal?: AbortSignal
+): Promise<StockPrice | null> => {
   const now = Date.now();
 
   const cached = cache.get(symbol);
-  if (cached && now - cached.timestamp < CACHE_DURATION) {
+  if (cached && now - cached.timestamp < Math.min(CACHE_DURATION, maxAge)) {
     return cached.data;
   }
 
   const localCached = getFromLocalStorage<StockPrice>(PRICE_KEY(symbol));
-  if (localCached && now - localCached.timestamp < LOCAL_STORAGE_CACHE_DURATION) {
+  if (localCached && now - localCached.timestamp < Math.min(LOCAL_STORAGE_CACHE_DURATION, maxAge)) {
     cache.set(symbol, localCached);
     return localCached.data;
   }
 
-  try {
-    const data = await fetchYahooChart(symbol, "1d", "1d");
-    const meta = data?.chart?.result?.[0]?.meta;
-    if (!meta || typeof meta.regularMarketPrice !== "number") {
-      return null;
-    }
-
-    const price = Number(meta.regularMarketPrice) || 0;
-    const previousClose = Number(meta.previousClose ?? meta.chartPreviousClose) || 0;
-    const change = price - previousClose;
-    const changePercent = previousClose ? (change / previousClose) * 100 : 0;
-
-    const result: StockPrice = {
-      symbol,
-      price,
-      change,
-      changePercent,
-      previousClose,
-      currency: meta.currency || "USD",
-      fiftyTwoWeekHigh: Number(meta.fiftyTwoWeekHigh) || undefined,
-      fiftyTwoWeekLow: Number(meta.fiftyTwoWeekLow) || undefined,
-    };
-
+  const result = await fromProviders(`price for ${symbol}`, (provider) => provider.quote(symbol, signal), Boolean);
+  if (result) {
     cache.set(symbol, { data: result, timestamp: now });
     saveToLocalStorage(PRICE_KEY(symbol), result, now);
-    return result;
-  } catch (error) {
-    if (error instanceof RateLimitError) {
-      throw error;
-    }
-    console.error(`Failed to fetch price for ${symbol}:`, error);
-    return null;
   }
+  return result;
 };
 
-// Fetch many symbols with bounded concurrency. Public proxies are gentle on
-// rate limits, so we keep the pool small. Cached symbols resolve instantly.
+// Requests in flight at once for bulk loads; the public proxies are gentle on
+// rate limits, so the pool stays small.
+export const PRICE_CONCURRENCY = 4;
+
+// Why a symbol in a batch has no price: no provider had it, the batch hit a
+// rate limit before or while fetching it, or something unexpected failed.
+export type PriceFailure = "unavailable" | "rate-limited" | "failed";
+
+export interface PriceProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface PriceBatchOptions {
+  maxAge?: number; // see fetchStockPrice
+  signal?: AbortSignal;
+  onPrice?: (symbol: string, price: StockPrice) => void; // as each one resolves
+  onProgress?: (progress: PriceProgress) => void;
+}
+
+export interface PriceBatch {
+  prices: Map<string, StockPrice>;
+  failures: Map<string, PriceFailure>;
+  rateLimited: boolean; // the batch stopped early on a rate limit
+  aborted: boolean;
+}
+
+// Fetch many symbols with bounded concurrency, reporting each price as it
+// arrives, PRICE_CONCURRENCY at a time; cached symbols resolve instantly. A rate limit stops the batch (the
+// symbols not yet asked are reported as rate-limited), and so does aborting
+// `signal`, after which no more callbacks fire.
 export const fetchMultipleStockPrices = async (
-  symbols: string[]
-): Promise<Map<string, StockPrice>> => {
-  const results = new Map<string, StockPrice>();
+  symbols: string[],
+  { maxAge, signal, onPrice, onProgress }: PriceBatchOptions = {}
+): Promise<PriceBatch> => {
+  const prices = new Map<string, StockPrice>();
+  const failures = new Map<string, PriceFailure>();
   const unique = Array.from(new Set(symbols));
-  const CONCURRENCY = 4;
 
   let cursor = 0;
   let rateLimited = false;
+  const progress = () =>
+    onProgress?.({ done: prices.size + failures.size, total: unique.length, failed: failures.size });
 
   const worker = async () => {
-    while (cursor < unique.length && !rateLimited) {
+    while (cursor < unique.length && !rateLimited && !signal?.aborted) {
       const symbol = unique[cursor];
       cursor += 1;
       try {
-        const price = await fetchStockPrice(symbol);
-        if (price) results.set(symbol, price);
-      } catch (error) {
-        if (error instanceof RateLimitError) {
-          rateLimited = true;
+        const price = await fetchStockPrice(symbol, maxAge, signal);
+        if (signal?.aborted) return;
+        if (price) {
+          prices.set(symbol, price);
+          onPrice?.(symbol, price);
+        } else {
+          failures.set(symbol, "unavailable");
         }
+      } catch (error) {
+        if (isAbortError(error)) return;
+        if (error instanceof RateLimitError) rateLimited = true;
+        failures.set(symbol, rateLimited ? "rate-limited" : "failed");
       }
+      progress();
     }
   };
 
-  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, unique.length) }, worker));
-  return results;
+  await Promise.all(Array.from({ length: Math.min(PRICE_CONCURRENCY, unique.length) }, worker));
+  const aborted = signal?.aborted ?? false;
+  if (rateLimited && !aborted) {
+    unique.slice(cursor).forEach((symbol) => failures.set(symbol, "rate-limited"));
+    progress();
+  }
+  return { prices, failures, rateLimited, aborted };
 };
 
-// Daily candles for the last ~3 months (free via the same Yahoo endpoint).
-export const fetchHistoricalData = async (symbol: string): Promise<HistoricalDataPoint[]> => {
+// Closes from the first provider that has any. Each range/interval pair is
+// cached on its own, for HISTORY_TTL of its interval.
+export const fetchHistoricalData = async (
+  symbol: string,
+  range: HistoryRange = "3mo",
+  interval: HistoryInterval = DEFAULT_INTERVAL[range]
+): Promise<HistoricalDataPoint[]> => {
   const now = Date.now();
+  const key = HISTORY_KEY(symbol, range, interval);
 
-  const cached = historicalCache.get(symbol);
+  const cached = historicalCache.get(key);
   if (cached && now - cached.timestamp < CACHE_DURATION) {
     return cached.data;
   }
 
-  const localCached = getFromLocalStorage<HistoricalDataPoint[]>(HISTORY_KEY(symbol));
-  if (localCached && now - localCached.timestamp < LOCAL_STORAGE_CACHE_DURATION) {
-    historicalCache.set(symbol, localCached);
+  // An empty series is never a real answer; treat a stored one as a miss.
+  const localCached = getFromLocalStorage<HistoricalDataPoint[]>(key);
+  if (localCached && localCached.data.length > 0 && now - localCached.timestamp < HISTORY_TTL[interval]) {
+    historicalCache.set(key, localCached);
     return localCached.data;
   }
 
-  try {
-    const data = await fetchYahooChart(symbol, "3mo", "1d");
-    const result = data?.chart?.result?.[0];
-    const timestamps: number[] = result?.timestamp ?? [];
-    const closes: number[] = result?.indicators?.quote?.[0]?.close ?? [];
-    const volumes: number[] = result?.indicators?.quote?.[0]?.volume ?? [];
-
-    const historicalData: HistoricalDataPoint[] = timestamps
-      .map((ts, i) => ({
-        date: new Date(ts * 1000).toISOString().split("T")[0],
-        close: Number(closes[i]) || 0,
-        volume: Number(volumes[i]) || 0,
-      }))
-      .filter((point) => point.close > 0);
-
-    historicalCache.set(symbol, { data: historicalData, timestamp: now });
-    saveToLocalStorage(HISTORY_KEY(symbol), historicalData, now);
-    return historicalData;
-  } catch (error) {
-    if (error instanceof RateLimitError) {
-      throw error;
-    }
-    console.error(`Failed to fetch historical data for ${symbol}:`, error);
-    return [];
+  const historicalData =
+    (await fromProviders(
+      `historical data for ${symbol}`,
+      (provider) => provider.history(symbol, range, interval),
+      (points) => points.length > 0
+    )) ?? [];
+
+  // Don't let a failed fetch blank the charts until the entry expires.
+  if (historicalData.length > 0) {
+    historicalCache.set(key, { data: historicalData, timestamp: now });
+    saveToLocalStorage(key, historicalData, now);
   }
+  return historicalData;
+};
+
+export const getCachedFxRate = (from: string, to: string, maxAge = LOCAL_STORAGE_CACHE_DURATION): number | null => {
+  const now = Date.now();
+  const inMemory = fxCache.get(`${from}${to}`);
+  if (inMemory && now - inMemory.timestamp < Math.min(CACHE_DURATION, maxAge)) {
+    return inMemory.data;
+  }
+  const local = getFromLocalStorage<number>(FX_KEY(from, to));
+  if (local && now - local.timestamp < Math.min(LOCAL_STORAGE_CACHE_DURATION, maxAge)) {
+    return local.data;
+  }
+  return null;
+};
+
+// Units of `to` per one `from` from the first provider that quotes the pair.
+export const fetchFxRate = async (
+  from: string,
+  to: string,
+  maxAge = LOCAL_STORAGE_CACHE_DURATION
+): Promise<number | null> => {
+  const now = Date.now();
+  const cached = getCachedFxRate(from, to, maxAge);
+  if (cached !== null) return cached;
+
+  const rate = await fromProviders(
+    `${from}/${to} rate`,
+    (provider) => provider.fxRate?.(from, to),
+    (value) => value !== null && value > 0
+  );
+  if (rate) {
+    fxCache.set(`${from}${to}`, { data: rate, timestamp: now });
+    saveToLocalStorage(FX_KEY(from, to), rate, now);
+  }
+  return rate;
+};
+
+// Weekly closes over ten years, enough to value the portfolio on any past
+// deposit date, with the last three months filled in daily (weekly alone if
+// the daily fetch fails).
+export const fetchLongHistory = async (symbol: string): Promise<HistoricalDataPoint[]> => {
+  const weekly = await fetchHistoricalData(symbol, "10y", "1wk");
+  const daily = await fetchHistoricalData(symbol).catch((): HistoricalDataPoint[] => []);
+  if (daily.length === 0) return weekly;
+  return [...weekly.filter((point) => point.date < daily[0].date), ...daily];
 };
@@ -50,6 +50,10 @@ export const ACTION = {
 export const BUY_ACTIONS: readonly string[] = [ACTION.BUY_FX, ACTION.GRANT];
 // Actions that decrease a holding's share count.
 export const SELL_ACTIONS: readonly string[] = [ACTION.SELL_FX];
+// ILS buys/sells, which are trades only for TASE securities; on anything else
+// they are currency conversions or tax payments (see utils/securities).
+export const TASE_BUY_ACTIONS: readonly string[] = [ACTION.BUY_ILS];
+export const TASE_SELL_ACTIONS: readonly string[] = [ACTION.SELL_ILS];
 
 // Pseudo-tickers that aren't real securities.
 export const SPECIAL_TICKER = {
@@ -58,6 +62,18 @@ export const SPECIAL_TICKER = {
   DIVIDEND_PSEUDO: "99028", // dividend / dividend-tax rows
 } as const;
 
+// What a "מס' נייר / סימבול" value refers to:
+//   "us"      — alphabetic ticker traded in USD
+//   "tase"    — numeric Tel Aviv security number (stock, ETF, bond) traded in ILS
+//   "special" — one of the SPECIAL_TICKER pseudo-tickers or another non-security id
+export type SecurityKind = "us" | "tase" | "special";
+
+// Currency a holding is quoted and traded in.
+export type TradeCurrency = "USD" | "ILS";
+
+// Account label for files uploaded without one.
+export const DEFAULT_ACCOUNT = "חשבון ראשי";
+
 // Israeli capital-gains tax rate on realized profit.
 export const CAPITAL_GAINS_TAX_RATE = 0.25;
 
@@ -76,12 +92,22 @@ export interface Transaction {
   fee: number; // "עמלת פעולה", absolute
   proceedsIls: number; // "תמורה בשקלים"
   proceedsFx: number; // 'תמורה במט"ח'
+  taxEstimateIls: number; // "אומדן מס רווחי הון", IBI's own estimate on a sale
+  balanceIls?: number; // "יתרה שקלית" after this row, when IBI reports it
+  // ILS per USD on the trade date, set on every trade once converted (TASE
+  // trades are priced in USD at this rate), and a TASE trade's original
+  // per-share price in ILS.
+  fxRate?: number;
+  nativePrice?: number;
+  account: string; // label of the uploaded file's account
+  file?: number; // index of the upload that first contributed the row
   raw: RawRow;
 }
 
 // An open holding (still has shares) derived from a symbol's transactions.
 export interface Position {
   symbol: string;
+  accounts: string[]; // accounts holding it; lots are matched within each
   quantity: number;
   avgCost: number; // weighted-average cost of the current holding
   costBasis: number; // avgCost * quantity
@@ -89,7 +115,14 @@ export interface Position {
   firstBuyTimestamp: number;
   firstBuyDate: string;
   holdingDays: number;
+  // Every amount above and below is USD; ILS holdings also carry their ILS
+  // figures (cost at the trade-date rate, value at the live quote).
+  currency: TradeCurrency;
+  nativeCostBasis?: number;
+  nativeCurrentPrice?: number;
+  nativeMarketValue?: number;
   // Live valuation — populated only when a price is available.
+  priceSource?: "live" | "manual";
   currentPrice?: number;
   marketValue?: number;
   unrealizedPnL?: number;
@@ -101,6 +134,7 @@ export interface Position {
 // One completed buy→sell cycle for a symbol (cumulative shares return to 0).
 export interface RealizedRound {
   symbol: string;
+  account: string;
   firstDate: string;
   lastDate: string;
   firstTimestamp: number;
@@ -114,6 +148,8 @@ export interface RealizedRound {
   netFromTrading: number; // proceeds - costBasis - fees
   capitalGainsTax: number; // 25% of profit, 0 on a loss
   netAfterTax: number;
+  netFromTradingIls: number; // nominal shekels, each leg at its trade-date rate
+  capitalGainsTaxIls: number;
   dividendsGross: number;
   dividendsTax: number;
   dividendsNet: number;
@@ -121,21 +157,103 @@ export interface RealizedRound {
   returnPercent: number; // finalPnL / total invested
 }
 
+// How a sale is matched against the open lots it closes.
+//   "average" — moving average: every open lot is consumed pro rata.
+//   "fifo"    — oldest lots first, as Israeli tax rules expect.
+export type CostMethod = "average" | "fifo";
+
+// An open tax lot — what is left of one buy/grant after earlier sales.
+export interface Lot {
+  symbol: string;
+  timestamp: number;
+  date: string;
+  quantity: number; // remaining shares
+  price: number;
+  fee: number; // buy fee not yet allocated to a sale
+  fxRate?: number; // ILS per USD at purchase
+}
+
+// The slice of one lot consumed by a sale.
+export interface LotMatch {
+  timestamp: number; // acquisition
+  date: string;
+  quantity: number;
+  costBasis: number;
+  buyFees: number;
+  costBasisIls: number; // at the purchase-date rate
+  buyFeesIls: number;
+}
+
+// Realized P&L booked on a single SELL_FX transaction.
+export interface RealizedSale {
+  symbol: string;
+  account: string;
+  date: string;
+  timestamp: number;
+  quantity: number;
+  price: number;
+  proceeds: number;
+  costBasis: number; // cost of the matched lots
+  buyFees: number; // matched lots' share of their buy fees
+  sellFee: number;
+  totalFees: number;
+  netFromTrading: number; // proceeds - costBasis - fees
+  capitalGainsTax: number; // 25% of profit, 0 on a loss
+  netAfterTax: number;
+  // Nominal shekel track: each leg at its own trade-date rate, as Israeli
+  // capital gains are assessed.
+  proceedsIls: number;
+  costBasisIls: number;
+  totalFeesIls: number;
+  netFromTradingIls: number;
+  capitalGainsTaxIls: number;
+  acquiredTimestamp: number; // earliest matched lot
+  acquiredDate: string;
+  holdingDays: number;
+  unmatchedQuantity: number; // shares sold with no recorded buy (e.g. pre-export history)
+  ibiTaxEstimateIls: number; // IBI's estimate on the sell row
+  lots: LotMatch[];
+}
+
 // Aggregated realized performance for one symbol (Analytics table row).
 export interface StockPerformance {
   symbol: string;
   rounds: number; // number of closed cycles
-  costBasis: number; // total invested across closed rounds
+  sales: number; // number of sell transactions realized
+  costBasis: number; // cost of every share sold
   proceeds: number; // total sale proceeds
   fees: number;
   netFromTrading: number; // pre-tax realized trading P&L
   capitalGainsTax: number;
-  dividendsNet: number;
+  dividendsNet: number; // every dividend received, net of withholding
   finalPnL: number; // after-tax + dividends
   returnPercent: number;
   isOpen: boolean; // still holding shares
 }
 
+// A split or reverse split. `ratio` is new shares per old share (2 for a 2:1
+// split, 0.1 for a 1:10 reverse split); trades before `timestamp` are
+// restated in post-split shares.
+export interface CorporateAction {
+  id: string;
+  symbol: string;
+  timestamp: number;
+  date: string; // DD/MM/YYYY
+  ratio: number;
+  source: "detected" | "manual"; // from an IBI row, or declared by the user
+}
+
+// A price entered by hand (or imported from CSV) for a holding the price
+// sources can't quote. It overrides the live price until it expires.
+export interface ManualPrice {
+  symbol: string;
+  price: number; // in the holding's own currency (ILS for TASE securities)
+  date: string; // DD/MM/YYYY, when the price was observed
+  timestamp: number;
+  expires: string; // DD/MM/YYYY, last day it is used
+  expiresAt: number; // start of the day after `expires`
+}
+
 // Top-level portfolio KPIs.
 export interface PortfolioSummary {
   totalMarketValue: number; // live (falls back to cost basis when no price)
@@ -145,6 +263,9 @@ export interface PortfolioSummary {
   realizedPnLYTD: number; // current-year closed rounds (finalPnL)
   realizedPnLAllTime: number;
   holdingsCount: number;
+  ilsMarketValue: number; // TASE holdings valued in ILS (included above in USD)
+  ilsHoldingsCount: number;
+  usdIlsRate: number; // ILS per USD used for the conversion
   dayChange: number; // live
   dayChangePercent: number;
   hasLivePrices: boolean;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { IBI_COLUMNS, RawRow } from "../types";
+import { getStockSymbols, computeOpenPosition, dividendsForSymbol } from "./calculations";
+import { matchesDividendSymbol, toTransactions } from "./ibiParser";
+import { mergeTickerAliases, readTickerAliases, resolveSymbol, symbolNames, TICKER_ALIASES_KEY } from "./aliases";
+
+const row = (values: Partial<RawRow>): RawRow => ({
+  ...(Object.fromEntries(IBI_COLUMNS.map((column) => [column, ""])) as RawRow),
+  ...values,
+});
+
+describe("ticker aliases", () => {
+  it("follows rename chains and lets the user switch a default off", () => {
+    expect(resolveSymbol("FB", mergeTickerAliases({}))).toBe("META");
+    expect(resolveSymbol("A", { A: "B", B: "C", C: "A" })).toBe("A");
+    expect(resolveSymbol("FB", mergeTickerAliases({ FB: "FB" }))).toBe("FB");
+    expect(symbolNames("META", mergeTickerAliases({ FACEBOOK: "FB" }))).toEqual(["META", "FB", "FACEBOOK"]);
+  });
+
+  it("unifies history and dividends under the current symbol", () => {
+    const transactions = toTransactions([
+      row({ "תאריך": "01/01/2021", "סוג פעולה": "קניה חול מטח", "מס' נייר / סימבול": "FB", "כמות": "10", "שער ביצוע": "300" }),
+      row({ "תאריך": "01/06/2021", "סוג פעולה": "הפקדה דיבידנד מטח", "שם נייר": "דיב/   FB US", "כמות": "5" }),
+      row({ "תאריך": "01/03/2026", "סוג פעולה": "מכירה חול מטח", "מס' נייר / סימבול": "META", "כמות": "4", "שער ביצוע": "600" }),
+    ]);
+
+    expect(getStockSymbols(transactions)).toEqual(["META"]);
+    expect(computeOpenPosition(transactions, "META")?.quantity).toBe(6);
+    expect(dividendsForSymbol(transactions, "META").map((d) => d.dividend)).toEqual([5]);
+  });
+
+  it("ignores stored aliases that aren't plain tickers", () => {
+    const storage = { getItem: () => JSON.stringify({ "brk(b": "BRK-B", "BRK.A": "BRK-B", FB: 3 }) };
+    expect(readTickerAliases(storage)).toEqual({ "BRK.A": "BRK-B" });
+    expect(readTickerAliases({ getItem: (key) => (key === TICKER_ALIASES_KEY ? "[1]" : null) })).toEqual({});
+  });
+
+  it("matches dividend names by ticker without treating it as a pattern", () => {
+    expect(matchesDividendSymbol("דיב/   BRK.B US", "BRK-B", { "BRK.B": "BRK-B" })).toBe(true);
+    expect(matchesDividendSymbol("דיב/   BRKXB US", "BRK-B", { "BRK.B": "BRK-B" })).toBe(false);
+    expect(() => matchesDividendSymbol("דיב/ AAPL US", "BRK(B", {})).not.toThrow();
+  });
+});
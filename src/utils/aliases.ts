@@ -0,0 +1,70 @@
+// Ticker renames. A symbol that changed after a merger or rebrand shows up in
+// IBI exports under both names; every old name is resolved to the current one
+// while rows are parsed, so the history reads as one holding.
+
+// old symbol → current symbol
+export type TickerAliasMap = Record<string, string>;
+
+export const DEFAULT_TICKER_ALIASES: TickerAliasMap = {
+  FB: "META",
+  ANTM: "ELV",
+  NLOK: "GEN",
+  SQ: "XYZ",
+  VIAC: "PARA",
+};
+
+// User additions, layered over the defaults. Mapping a default's old symbol to
+// itself switches that default off.
+export const TICKER_ALIASES_KEY = "ibi_ticker_aliases";
+
+const normalize = (symbol: string) => symbol.trim().toUpperCase();
+
+// Plain tickers only ("BRK.B", "BF-B"); anything else is not a symbol IBI
+// would print and is dropped.
+export const isTickerSymbol = (symbol: string): boolean => /^[A-Z0-9.-]+$/.test(symbol);
+
+export const readTickerAliases = (storage: Pick<Storage, "getItem">): TickerAliasMap => {
+  try {
+    const parsed = JSON.parse(storage.getItem(TICKER_ALIASES_KEY) ?? "{}");
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed)
+        .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+        .map(([from, to]) => [normalize(from), normalize(to)])
+        .filter(([from, to]) => isTickerSymbol(from) && isTickerSymbol(to))
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const saveTickerAliases = (storage: Pick<Storage, "setItem">, aliases: TickerAliasMap) => {
+  try {
+    storage.setItem(TICKER_ALIASES_KEY, JSON.stringify(aliases));
+  } catch {
+    /* aliases are a convenience setting */
+  }
+};
+
+export const mergeTickerAliases = (userAliases: TickerAliasMap): TickerAliasMap => ({
+  ...DEFAULT_TICKER_ALIASES,
+  ...userAliases,
+});
+
+// Current symbol for `symbol`, following chains (A→B→C) and stopping on a
+// loop.
+export const resolveSymbol = (symbol: string, aliases: TickerAliasMap): string => {
+  const seen = new Set<string>();
+  let current = symbol;
+  while (aliases[current] && aliases[current] !== current && !seen.has(current)) {
+    seen.add(current);
+    current = aliases[current];
+  }
+  return current;
+};
+
+// `symbol` plus every old name that resolves to it.
+export const symbolNames = (symbol: string, aliases: TickerAliasMap): string[] => [
+  symbol,
+  ...Object.keys(aliases).filter((from) => from !== symbol && resolveSymbol(from, aliases) === symbol),
+];
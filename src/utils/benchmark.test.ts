@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, SPECIAL_TICKER, Transaction } from "../types";
+import { benchmarkComparison, benchmarkSummary, readBenchmark } from "./benchmark";
+
+const RATE = 4;
+
+const tx = (year: number, overrides: Partial<Transaction>): Transaction => ({
+  date: `01/01/${year}`,
+  timestamp: new Date(year, 0, 1).getTime(),
+  year,
+  action: ACTION.CASH_TRANSFER,
+  name: "",
+  symbol: SPECIAL_TICKER.DEPOSITS,
+  quantity: 0,
+  delta: 0,
+  price: 0,
+  currency: "ש\"ח",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+  ...overrides,
+});
+
+// Deposit ₪40,000, convert it to $10,000 and buy AAA with all of it.
+const depositAndBuy = (year: number, shares: number, price: number) => [
+  tx(year, { proceedsIls: 40_000 }),
+  tx(year, { action: ACTION.BUY_ILS, name: "דולר", symbol: "USD", proceedsIls: -40_000, proceedsFx: 10_000 }),
+  tx(year, {
+    action: ACTION.BUY_FX,
+    name: "מסח/ AAA US",
+    symbol: "AAA",
+    currency: "$",
+    quantity: shares,
+    delta: shares,
+    price,
+    proceedsFx: -shares * price,
+  }),
+];
+
+const closes = (values: number[]) =>
+  values.map((close, i) => ({ date: `${2024 + i}-01-01`, close, volume: 0 }));
+
+const transactions = [...depositAndBuy(2024, 100, 100), ...depositAndBuy(2025, 50, 200)];
+const histories = new Map([["AAA", closes([100, 200, 300])]]);
+const now = new Date(2026, 0, 1, 12).getTime();
+
+describe("benchmark comparison", () => {
+  it("invests every deposit in the benchmark on its own day", () => {
+    const points = benchmarkComparison(transactions, histories, "SPY", closes([50, 100, 75]), RATE, now);
+
+    // 200 units at $50 and 100 at $100, worth $75 each at the end.
+    expect(points.map((p) => p.benchmark)).toEqual([10_000, 30_000, 22_500, 22_500]);
+    expect(points.map((p) => p.invested)).toEqual([10_000, 20_000, 20_000, 20_000]);
+    expect(benchmarkSummary(points)).toEqual({
+      portfolio: 45_000,
+      benchmark: 22_500,
+      difference: 22_500,
+      differencePercent: 100,
+    });
+  });
+
+  it("converts a shekel-quoted benchmark at the day's rate", () => {
+    const points = benchmarkComparison(transactions, histories, "^TA125.TA", closes([200, 400, 300]), RATE, now);
+    expect(points[points.length - 1].benchmark).toBeCloseTo(22_500);
+  });
+
+  it("falls back to the first benchmark for an unknown saved choice", () => {
+    expect(readBenchmark({ getItem: () => "QQQ" })).toBe("QQQ");
+    expect(readBenchmark({ getItem: () => "NOPE" })).toBe("SPY");
+  });
+});
@@ -0,0 +1,114 @@
+import type { Transaction } from "../types";
+import type { HistoricalDataPoint } from "../stockPriceService";
+import { parseDateToTimestamp } from "./dates";
+import { impliedUsdIlsRates, rateAt } from "./fx";
+import { dayLabel, inceptionDay, investedFlows, portfolioValuer } from "./valueHistory";
+
+// "What if every deposit had gone into the index instead": each external flow
+// buys (or a withdrawal sells) benchmark units at that day's close, and the
+// hypothetical holding is valued alongside the real portfolio. Money already
+// in the account on the first day counts as a deposit then, as in returns.
+
+export interface Benchmark {
+  symbol: string; // Yahoo symbol; ".TA" ones are quoted in ILS
+  label: string;
+}
+
+export const BENCHMARKS: Benchmark[] = [
+  { symbol: "SPY", label: "S&P 500 (SPY)" },
+  { symbol: "QQQ", label: "Nasdaq 100 (QQQ)" },
+  { symbol: "^TA125.TA", label: "ת״א 125" },
+];
+
+export const BENCHMARK_KEY = "ibi_benchmark";
+
+export const readBenchmark = (storage: Pick<Storage, "getItem">): string => {
+  try {
+    const symbol = storage.getItem(BENCHMARK_KEY);
+    return BENCHMARKS.some((b) => b.symbol === symbol) ? (symbol as string) : BENCHMARKS[0].symbol;
+  } catch {
+    return BENCHMARKS[0].symbol;
+  }
+};
+
+export const saveBenchmark = (storage: Pick<Storage, "setItem">, symbol: string) => {
+  try {
+    storage.setItem(BENCHMARK_KEY, symbol);
+  } catch {
+    /* the benchmark choice is a convenience setting */
+  }
+};
+
+export interface BenchmarkPoint {
+  timestamp: number;
+  date: string; // DD/MM/YYYY
+  portfolio: number; // USD
+  benchmark: number; // USD, same flows invested in the benchmark
+  invested: number; // net deposits so far
+}
+
+export interface BenchmarkSummary {
+  portfolio: number;
+  benchmark: number;
+  difference: number; // portfolio - benchmark
+  differencePercent: number; // of the benchmark value
+}
+
+// One point per benchmark close from the first transaction on, plus today.
+export const benchmarkComparison = (
+  transactions: Transaction[],
+  histories: Map<string, HistoricalDataPoint[]>,
+  benchmarkSymbol: string,
+  benchmarkHistory: HistoricalDataPoint[],
+  fallbackRate: number,
+  now = Date.now()
+): BenchmarkPoint[] => {
+  const inception = inceptionDay(transactions);
+  const closes = benchmarkHistory
+    .map((p) => ({ timestamp: parseDateToTimestamp(p.date), close: p.close }))
+    .filter((p) => p.close > 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (inception === null || closes.length === 0) return [];
+
+  const rates = impliedUsdIlsRates(transactions);
+  const quotedInIls = benchmarkSymbol.endsWith(".TA");
+  const closeUsd = (timestamp: number) => {
+    const close = closes.filter((p) => p.timestamp <= timestamp).pop() ?? closes[0];
+    return quotedInIls ? close.close / rateAt(rates, timestamp, fallbackRate) : close.close;
+  };
+
+  const valueAt = portfolioValuer(transactions, histories, fallbackRate);
+  const flows = investedFlows(transactions, valueAt, fallbackRate);
+  const samples = [inception, ...closes.map((p) => p.timestamp).filter((t) => t > inception && t < now), now];
+
+  let units = 0;
+  let invested = 0;
+  let next = 0;
+  return samples.map((timestamp) => {
+    while (next < flows.length && flows[next].timestamp <= timestamp) {
+      const flow = flows[next];
+      units += flow.amount / closeUsd(flow.timestamp);
+      invested += flow.amount;
+      next += 1;
+    }
+    return {
+      timestamp,
+      date: dayLabel(timestamp),
+      portfolio: valueAt(timestamp),
+      benchmark: units * closeUsd(timestamp),
+      invested,
+    };
+  });
+};
+
+export const benchmarkSummary = (points: BenchmarkPoint[]): BenchmarkSummary | null => {
+  const last = points[points.length - 1];
+  if (!last) return null;
+  const difference = last.portfolio - last.benchmark;
+  return {
+    portfolio: last.portfolio,
+    benchmark: last.benchmark,
+    difference,
+    differencePercent: last.benchmark > 0 ? (difference / last.benchmark) * 100 : 0,
+  };
+};
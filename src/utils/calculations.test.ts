@@ -1,9 +1,13 @@
 import { describe, expect, it } from "vitest";
-import { ACTION, Transaction } from "../types";
+import { ACTION, DEFAULT_ACCOUNT, Transaction } from "../types";
 import {
   computeOpenPosition,
   computePortfolioSummary,
+  computeQuarterlyComparison,
   computeRealizedRounds,
+  computeRealizedSales,
+  computeRealizedTimeline,
+  DividendEntry,
   dividendsForSymbol,
 } from "./calculations";
 
@@ -21,6 +25,8 @@ const tx = (overrides: Partial<Transaction>): Transaction => ({
   fee: 0,
   proceedsIls: 0,
   proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
   raw: {} as Transaction["raw"],
   ...overrides,
 });
@@ -56,6 +62,29 @@ describe("portfolio calculations", () => {
     expect(position?.costBasis).toBe(480);
   });
 
+  it("matches lots within each account and combines the open holdings", () => {
+    const transactions = [
+      tx({ quantity: 10, delta: 10, price: 100 }),
+      tx({ account: "משותף", quantity: 5, delta: 5, price: 200 }),
+      tx({
+        date: "02/01/2026",
+        timestamp: new Date(2026, 0, 2).getTime(),
+        action: ACTION.SELL_FX,
+        quantity: 10,
+        delta: -10,
+        price: 150,
+      }),
+    ];
+
+    const position = computeOpenPosition(transactions, "TEST");
+    expect(position?.quantity).toBe(5);
+    expect(position?.accounts).toEqual(["משותף"]);
+    expect(position?.costBasis).toBe(1000);
+
+    const [round] = computeRealizedRounds(transactions, "TEST");
+    expect(round).toMatchObject({ account: DEFAULT_ACCOUNT, netFromTrading: 500 });
+  });
+
   it("computes realized rounds with fees, capital gains tax and dividends", () => {
     const transactions = [
       tx({ action: ACTION.BUY_FX, quantity: 10, delta: 10, price: 100, fee: 5 }),
@@ -117,6 +146,7 @@ describe("portfolio calculations", () => {
       [
         {
           symbol: "TEST",
+          accounts: [DEFAULT_ACCOUNT],
           quantity: 2,
           avgCost: 100,
           costBasis: 200,
@@ -124,6 +154,7 @@ describe("portfolio calculations", () => {
           firstBuyTimestamp: 0,
           firstBuyDate: "",
           holdingDays: 0,
+          currency: "USD",
           currentPrice: 125,
           marketValue: 250,
           unrealizedPnL: 50,
@@ -131,29 +162,14 @@ describe("portfolio calculations", () => {
           dayChange: 4,
         },
       ],
-      [
-        {
-          symbol: "DONE",
-          firstDate: "01/01/2026",
-          lastDate: "02/01/2026",
-          firstTimestamp: new Date(2026, 0, 1).getTime(),
-          lastTimestamp: new Date(2026, 0, 2).getTime(),
-          durationDays: 1,
-          costBasis: 100,
-          proceeds: 130,
-          buyFees: 1,
-          sellFees: 1,
-          totalFees: 2,
-          netFromTrading: 28,
-          capitalGainsTax: 7,
-          netAfterTax: 21,
-          dividendsGross: 0,
-          dividendsTax: 0,
-          dividendsNet: 0,
-          finalPnL: 21,
-          returnPercent: 20.8,
-        },
-      ],
+      computeRealizedSales(
+        [
+          tx({ symbol: "DONE", quantity: 1, delta: 1, price: 100, fee: 1 }),
+          tx({ symbol: "DONE", action: ACTION.SELL_FX, quantity: 1, delta: -1, price: 130, fee: 1 }),
+        ],
+        "DONE"
+      ),
+      [],
       new Map(),
       2026
     );
@@ -163,4 +179,31 @@ describe("portfolio calculations", () => {
     expect(summary.realizedPnLYTD).toBe(21);
     expect(summary.dayChange).toBe(4);
   });
+
+  it("books a partial sell in the realized KPIs, timeline and quarterly chart", () => {
+    const sales = computeRealizedSales(
+      [
+        tx({ quantity: 10, delta: 10, price: 100 }),
+        tx({
+          date: "05/04/2026",
+          timestamp: new Date(2026, 3, 5).getTime(),
+          action: ACTION.SELL_FX,
+          quantity: 4,
+          delta: -4,
+          price: 150,
+        }),
+      ],
+      "TEST"
+    );
+    const dividends: DividendEntry[] = [
+      { symbol: "TEST", timestamp: new Date(2026, 4, 1).getTime(), date: "01/05/2026", dividend: 4, tax: 1, topUpTax: 0, net: 3 },
+    ];
+
+    // 4 × $50 gain, less 25% tax, plus the dividend
+    const summary = computePortfolioSummary([], sales, dividends, new Map(), 2026);
+    expect(summary.realizedPnLYTD).toBe(153);
+    expect(summary.realizedPnLAllTime).toBe(153);
+    expect(computeRealizedTimeline(sales).map((b) => [b.monthKey, b.pnl])).toEqual([["2026-04", 150]]);
+    expect(computeQuarterlyComparison(sales).data[1]).toEqual({ quarter: "Q2", "2026": 150 });
+  });
 });
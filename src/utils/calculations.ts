@@ -4,19 +4,30 @@ import {
   RealizedRound,
   StockPerformance,
   PortfolioSummary,
+  RealizedSale,
+  CostMethod,
+  ManualPrice,
   ACTION,
   CAPITAL_GAINS_TAX_RATE,
 } from "../types";
 import type { StockPrice } from "../stockPriceService";
 import { isStockSymbol, matchesDividendSymbol } from "./ibiParser";
+import { replayLots } from "./lots";
+import { currencyFor, isTaseSecurity, tradeSide } from "./securities";
+import { DEFAULT_TICKER_ALIASES, TickerAliasMap } from "./aliases";
+import { tradeIlsRate } from "./fx";
+import { israeliTopUpTax } from "./dividendAudit";
 
 const DAY_MS = 86_400_000;
 
-// Unique alphabetic stock tickers, sorted.
+// Unique security symbols, sorted: US tickers, plus TASE security numbers
+// that were actually traded (a bare number on a cash row isn't a holding).
 export const getStockSymbols = (transactions: Transaction[]): string[] => {
   const symbols = new Set<string>();
   transactions.forEach((t) => {
-    if (isStockSymbol(t.symbol)) symbols.add(t.symbol);
+    if (!isStockSymbol(t.symbol)) return;
+    if (isTaseSecurity(t.symbol) && t.delta === 0) return;
+    symbols.add(t.symbol);
   });
   return Array.from(symbols).sort((a, b) => a.localeCompare(b));
 };
@@ -30,12 +41,8 @@ interface TradeTxn extends Transaction {
 
 export const tradeTransactions = (transactions: Transaction[], symbol: string): TradeTxn[] => {
   const trades = transactions
-    .filter(
-      (t) =>
-        t.symbol === symbol &&
-        (t.action === ACTION.BUY_FX || t.action === ACTION.SELL_FX || t.action === ACTION.GRANT)
-    )
-    .map((t) => ({ ...t, isBuy: t.action !== ACTION.SELL_FX, cumulative: 0 }))
+    .filter((t) => t.symbol === symbol && tradeSide(t.action, t.symbol) !== null)
+    .map((t) => ({ ...t, isBuy: tradeSide(t.action, t.symbol) === "buy", cumulative: 0 }))
     .sort((a, b) => a.timestamp - b.timestamp);
 
   let cumulative = 0;
@@ -46,43 +53,107 @@ export const tradeTransactions = (transactions: Transaction[], symbol: string):
   return trades;
 };
 
-interface DividendEntry {
+export interface DividendEntry {
+  symbol: string;
   timestamp: number;
   date: string;
   dividend: number;
-  tax: number;
+  tax: number; // withheld abroad
+  topUpTax: number; // Israeli tax still due on top of it
   net: number;
 }
 
-// Dividend/tax events for a symbol, collapsed per date.
-export const dividendsForSymbol = (transactions: Transaction[], symbol: string): DividendEntry[] => {
-  const byDate = new Map<string, DividendEntry>();
-  transactions.forEach((t) => {
-    const isDividend = t.action === ACTION.DIVIDEND;
-    const isTax = t.action === ACTION.DIVIDEND_TAX;
-    if (!isDividend && !isTax) return;
-    if (!matchesDividendSymbol(t.name, symbol)) return;
-    if (!t.timestamp || !t.date || t.quantity === 0) return;
+// Withholding IBI books this many days from its dividend still belongs to it.
+const DIVIDEND_TAX_WINDOW_DAYS = 14;
 
+// Dividend/tax events for a symbol, collapsed per payment date. A tax row
+// joins the dividend nearest in time, since IBI doesn't always book the
+// withholding on the payment date; one with no dividend nearby stands alone.
+export const dividendsForSymbol = (
+  transactions: Transaction[],
+  symbol: string,
+  aliases: TickerAliasMap = DEFAULT_TICKER_ALIASES
+): DividendEntry[] => {
+  const rows = transactions.filter(
+    (t) =>
+      (t.action === ACTION.DIVIDEND || t.action === ACTION.DIVIDEND_TAX) &&
+      matchesDividendSymbol(t.name, symbol, aliases) &&
+      t.timestamp &&
+      t.date &&
+      t.quantity !== 0
+  );
+  const byDate = new Map<string, DividendEntry>();
+  const entryFor = (t: Transaction) => {
     const entry =
-      byDate.get(t.date) ?? { timestamp: t.timestamp, date: t.date, dividend: 0, tax: 0, net: 0 };
-    if (isDividend) entry.dividend += t.quantity;
-    else entry.tax += t.quantity;
-    entry.net = entry.dividend - entry.tax;
+      byDate.get(t.date) ??
+      { symbol, timestamp: t.timestamp, date: t.date, dividend: 0, tax: 0, topUpTax: 0, net: 0 };
     byDate.set(t.date, entry);
+    return entry;
+  };
+
+  rows.filter((t) => t.action === ACTION.DIVIDEND).forEach((t) => {
+    entryFor(t).dividend += t.quantity;
+  });
+  const payments = Array.from(byDate.values()).sort((a, b) => a.timestamp - b.timestamp);
+  rows.filter((t) => t.action === ACTION.DIVIDEND_TAX).forEach((t) => {
+    const distance = (e: DividendEntry) => Math.abs(e.timestamp - t.timestamp);
+    const nearest = payments.reduce<DividendEntry | null>(
+      (best, e) => (!best || distance(e) < distance(best) ? e : best),
+      null
+    );
+    const entry = nearest && distance(nearest) <= DIVIDEND_TAX_WINDOW_DAYS * DAY_MS ? nearest : entryFor(t);
+    entry.tax += t.quantity;
+  });
+
+  byDate.forEach((entry) => {
+    entry.topUpTax = israeliTopUpTax(entry.dividend, entry.tax);
+    entry.net = entry.dividend - entry.tax - entry.topUpTax;
   });
   return Array.from(byDate.values()).sort((a, b) => a.timestamp - b.timestamp);
 };
 
-// Completed buy→sell cycles for a symbol (cumulative shares hit 0). Mirrors the
-// logic in ClosedPositionDetail, including dividends earned within each window.
+// Every dividend event across all traded symbols, time-sorted.
+export const computeAllDividends = (
+  transactions: Transaction[],
+  aliases: TickerAliasMap = DEFAULT_TICKER_ALIASES
+): DividendEntry[] =>
+  getStockSymbols(transactions)
+    .flatMap((symbol) => dividendsForSymbol(transactions, symbol, aliases))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// Transactions grouped by account, in first-seen order. Lots, rounds and
+// positions are matched within one account, so shares moved between accounts
+// never pair a buy in one with a sale in the other.
+export const splitByAccount = (transactions: Transaction[]): Transaction[][] => {
+  const groups = new Map<string, Transaction[]>();
+  transactions.forEach((t) => {
+    const group = groups.get(t.account);
+    if (group) group.push(t);
+    else groups.set(t.account, [t]);
+  });
+  return Array.from(groups.values());
+};
+
+// Completed buy→sell cycles for a symbol (cumulative shares hit 0), per
+// account. Mirrors the logic in ClosedPositionDetail, including dividends
+// earned within each window.
 export const computeRealizedRounds = (
   transactions: Transaction[],
-  symbol: string
+  symbol: string,
+  aliases: TickerAliasMap = DEFAULT_TICKER_ALIASES
+): RealizedRound[] =>
+  splitByAccount(transactions)
+    .flatMap((group) => accountRounds(group, symbol, aliases))
+    .sort((a, b) => a.firstTimestamp - b.firstTimestamp);
+
+const accountRounds = (
+  transactions: Transaction[],
+  symbol: string,
+  aliases: TickerAliasMap
 ): RealizedRound[] => {
   const trades = tradeTransactions(transactions, symbol);
   if (trades.length === 0) return [];
-  const dividends = dividendsForSymbol(transactions, symbol);
+  const dividends = dividendsForSymbol(transactions, symbol, aliases);
 
   const rounds: RealizedRound[] = [];
   let start = 0;
@@ -99,14 +170,18 @@ export const computeRealizedRounds = (
     let proceeds = 0;
     let buyFees = 0;
     let sellFees = 0;
+    let netFromTradingIls = 0;
 
     slice.forEach((txn) => {
+      const rate = tradeIlsRate(txn);
       if (txn.isBuy) {
         costBasis += txn.price * txn.quantity;
         buyFees += txn.fee;
+        netFromTradingIls -= (txn.price * txn.quantity + txn.fee) * rate;
       } else {
         proceeds += txn.price * txn.quantity;
         sellFees += txn.fee;
+        netFromTradingIls += (txn.price * txn.quantity - txn.fee) * rate;
       }
     });
 
@@ -119,7 +194,7 @@ export const computeRealizedRounds = (
       (d) => d.timestamp >= first.timestamp && d.timestamp <= last.timestamp
     );
     const dividendsGross = windowDivs.reduce((s, d) => s + d.dividend, 0);
-    const dividendsTax = windowDivs.reduce((s, d) => s + d.tax, 0);
+    const dividendsTax = windowDivs.reduce((s, d) => s + d.tax + d.topUpTax, 0);
     const dividendsNet = windowDivs.reduce((s, d) => s + d.net, 0);
 
     const finalPnL = netAfterTax + dividendsNet;
@@ -127,6 +202,7 @@ export const computeRealizedRounds = (
 
     rounds.push({
       symbol,
+      account: first.account,
       firstDate: first.date,
       lastDate: last.date,
       firstTimestamp: first.timestamp,
@@ -140,6 +216,8 @@ export const computeRealizedRounds = (
       netFromTrading,
       capitalGainsTax,
       netAfterTax,
+      netFromTradingIls,
+      capitalGainsTaxIls: netFromTradingIls > 0 ? netFromTradingIls * CAPITAL_GAINS_TAX_RATE : 0,
       dividendsGross,
       dividendsTax,
       dividendsNet,
@@ -151,104 +229,136 @@ export const computeRealizedRounds = (
   return rounds;
 };
 
-// The current open holding for a symbol (shares remaining after the last time
-// the position was fully closed). Mirrors StockDetail's weighted-average logic.
+// Realized P&L for every sale of a symbol, matched against its lots with the
+// chosen cost method. Partial sells are realized as they happen.
+export const computeRealizedSales = (
+  transactions: Transaction[],
+  symbol: string,
+  method: CostMethod = "average"
+): RealizedSale[] =>
+  splitByAccount(transactions)
+    .flatMap((group) => replayLots(tradeTransactions(group, symbol), method).sales)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// The current open holding for a symbol: whatever lots remain after replaying
+// every sale with the chosen cost method, account by account, combined.
 export const computeOpenPosition = (
   transactions: Transaction[],
-  symbol: string
+  symbol: string,
+  method: CostMethod = "average"
 ): Position | null => {
-  const trades = tradeTransactions(transactions, symbol);
-  if (trades.length === 0) return null;
-
-  let lastZeroIndex = -1;
-  trades.forEach((t, i) => {
-    if (Math.abs(t.cumulative) < 0.0001) lastZeroIndex = i;
+  const accounts: string[] = [];
+  const openLots = splitByAccount(transactions).flatMap((group) => {
+    const trades = tradeTransactions(group, symbol);
+    if (trades.length === 0) return [];
+    const lots = replayLots(trades, method).openLots;
+    if (lots.reduce((s, l) => s + l.quantity, 0) > 0.0001) accounts.push(group[0].account);
+    return lots;
   });
-  const holding = trades.slice(lastZeroIndex + 1);
-  const quantity = holding.length > 0 ? holding[holding.length - 1].cumulative : 0;
+  const quantity = openLots.reduce((s, l) => s + l.quantity, 0);
   if (quantity <= 0.0001) return null;
 
-  let buyCost = 0;
-  let buyQty = 0;
-  let buyFees = 0;
-  holding.forEach((t) => {
-    if (t.isBuy) {
-      buyCost += t.price * t.quantity;
-      buyQty += t.quantity;
-      buyFees += t.fee;
-    }
-  });
-
-  const avgCost = buyQty > 0 ? buyCost / buyQty : 0;
-  const firstBuy = holding[0];
+  const costBasis = openLots.reduce((s, l) => s + l.price * l.quantity, 0);
+  const buyFees = openLots.reduce((s, l) => s + l.fee, 0);
+  const firstBuy = openLots.reduce((first, l) => (l.timestamp < first.timestamp ? l : first));
+  const currency = currencyFor(symbol);
 
   return {
     symbol,
+    accounts,
     quantity,
-    avgCost,
-    costBasis: avgCost * quantity,
+    avgCost: costBasis / quantity,
+    costBasis,
     buyFees,
-    firstBuyTimestamp: firstBuy?.timestamp ?? 0,
-    firstBuyDate: firstBuy?.date ?? "",
-    holdingDays: firstBuy?.timestamp ? Math.round((Date.now() - firstBuy.timestamp) / DAY_MS) : 0,
+    firstBuyTimestamp: firstBuy.timestamp,
+    firstBuyDate: firstBuy.date,
+    holdingDays: firstBuy.timestamp ? Math.round((Date.now() - firstBuy.timestamp) / DAY_MS) : 0,
+    currency,
+    nativeCostBasis:
+      currency === "ILS" ? openLots.reduce((s, l) => s + l.price * (l.fxRate ?? 1) * l.quantity, 0) : undefined,
   };
 };
 
 // All current open positions.
-export const computeOpenPositions = (transactions: Transaction[]): Position[] =>
+export const computeOpenPositions = (
+  transactions: Transaction[],
+  method: CostMethod = "average"
+): Position[] =>
   getStockSymbols(transactions)
-    .map((symbol) => computeOpenPosition(transactions, symbol))
+    .map((symbol) => computeOpenPosition(transactions, symbol, method))
     .filter((p): p is Position => p !== null);
 
-// Aggregate realized performance per symbol (closed cycles only).
-export const computeStockPerformance = (transactions: Transaction[]): StockPerformance[] => {
+// Aggregate realized performance per symbol, booked per sale so trimmed
+// positions count too. Dividends are realized income whether or not the
+// holding is still open.
+export const computeStockPerformance = (
+  transactions: Transaction[],
+  method: CostMethod = "average",
+  aliases: TickerAliasMap = DEFAULT_TICKER_ALIASES
+): StockPerformance[] => {
   const symbols = getStockSymbols(transactions);
-  const openSymbols = new Set(computeOpenPositions(transactions).map((p) => p.symbol));
+  const openSymbols = new Set(computeOpenPositions(transactions, method).map((p) => p.symbol));
 
   return symbols
     .map((symbol) => {
-      const rounds = computeRealizedRounds(transactions, symbol);
-      const sum = (key: keyof RealizedRound) =>
-        rounds.reduce((s, r) => s + (r[key] as number), 0);
+      const sales = computeRealizedSales(transactions, symbol, method);
+      const sum = (key: keyof RealizedSale) => sales.reduce((s, r) => s + (r[key] as number), 0);
       const costBasis = sum("costBasis");
-      const finalPnL = sum("finalPnL");
+      const dividendsNet = dividendsForSymbol(transactions, symbol, aliases).reduce((s, d) => s + d.net, 0);
+      const netAfterTax = sum("netAfterTax");
+      const finalPnL = netAfterTax + dividendsNet;
       const totalInvested = costBasis + sum("buyFees");
       return {
         symbol,
-        rounds: rounds.length,
+        rounds: computeRealizedRounds(transactions, symbol, aliases).length,
+        sales: sales.length,
         costBasis,
         proceeds: sum("proceeds"),
         fees: sum("totalFees"),
         netFromTrading: sum("netFromTrading"),
         capitalGainsTax: sum("capitalGainsTax"),
-        dividendsNet: sum("dividendsNet"),
+        dividendsNet,
         finalPnL,
         returnPercent: totalInvested > 0 ? (finalPnL / totalInvested) * 100 : 0,
         isOpen: openSymbols.has(symbol),
       };
     })
-    .filter((p) => p.rounds > 0 || p.isOpen);
+    .filter((p) => p.sales > 0 || p.isOpen);
 };
 
 // Fill live-valuation fields on positions from a price map and compute weights.
+// Quotes are in each holding's own currency; ILS quotes are converted at
+// `usdIlsRate` (ILS per USD).
+// Manual prices (already filtered to unexpired ones) override live quotes;
+// they carry no day change.
 export const valuePositions = (
   positions: Position[],
-  prices: Map<string, StockPrice>
+  prices: Map<string, StockPrice>,
+  usdIlsRate = 1,
+  manualPrices: Map<string, ManualPrice> = new Map()
 ): Position[] => {
   const valued = positions.map((p) => {
-    const price = prices.get(p.symbol);
+    const manual = manualPrices.get(p.symbol);
+    const live = prices.get(p.symbol);
+    const price = manual ? { price: manual.price, change: 0 } : live;
     if (!price) {
       return { ...p, marketValue: p.costBasis };
     }
-    const marketValue = p.quantity * price.price;
+    const rate = p.currency === "ILS" ? usdIlsRate : 1;
+    const currentPrice = price.price / rate;
+    const marketValue = p.quantity * currentPrice;
     const unrealizedPnL = marketValue - p.costBasis;
     return {
       ...p,
-      currentPrice: price.price,
+      priceSource: manual ? ("manual" as const) : ("live" as const),
+      currentPrice,
       marketValue,
       unrealizedPnL,
       unrealizedPnLPercent: p.costBasis > 0 ? (unrealizedPnL / p.costBasis) * 100 : 0,
-      dayChange: p.quantity * price.change,
+      dayChange: (p.quantity * price.change) / rate,
+      ...(p.currency === "ILS"
+        ? { nativeCurrentPrice: price.price, nativeMarketValue: p.quantity * price.price }
+        : {}),
     };
   });
 
@@ -259,11 +369,20 @@ export const valuePositions = (
   }));
 };
 
+// Realized P&L as dated amounts: each sale's after-tax result when it was
+// booked, partial sells included, plus each dividend's net when it was paid.
+const realizedEvents = (sales: RealizedSale[], dividends: DividendEntry[]) => [
+  ...sales.map((r) => ({ timestamp: r.timestamp, pnl: r.netAfterTax })),
+  ...dividends.map((d) => ({ timestamp: d.timestamp, pnl: d.net })),
+];
+
 export const computePortfolioSummary = (
   positions: Position[],
-  realizedRounds: RealizedRound[],
+  sales: RealizedSale[],
+  dividends: DividendEntry[],
   prices: Map<string, StockPrice>,
-  currentYear = new Date().getFullYear()
+  currentYear = new Date().getFullYear(),
+  usdIlsRate = 1
 ): PortfolioSummary => {
   const hasLivePrices = positions.some((p) => p.currentPrice !== undefined);
   const totalMarketValue = positions.reduce((s, p) => s + (p.marketValue ?? p.costBasis), 0);
@@ -271,11 +390,13 @@ export const computePortfolioSummary = (
   const unrealizedPnL = totalMarketValue - totalCostBasis;
   const dayChange = positions.reduce((s, p) => s + (p.dayChange ?? 0), 0);
   const prevValue = totalMarketValue - dayChange;
+  const ilsPositions = positions.filter((p) => p.currency === "ILS");
 
-  const realizedPnLAllTime = realizedRounds.reduce((s, r) => s + r.finalPnL, 0);
-  const realizedPnLYTD = realizedRounds
-    .filter((r) => new Date(r.lastTimestamp).getFullYear() === currentYear)
-    .reduce((s, r) => s + r.finalPnL, 0);
+  const realized = realizedEvents(sales, dividends);
+  const realizedPnLAllTime = realized.reduce((s, e) => s + e.pnl, 0);
+  const realizedPnLYTD = realized
+    .filter((e) => new Date(e.timestamp).getFullYear() === currentYear)
+    .reduce((s, e) => s + e.pnl, 0);
 
   return {
     totalMarketValue,
@@ -285,6 +406,12 @@ export const computePortfolioSummary = (
     realizedPnLYTD,
     realizedPnLAllTime,
     holdingsCount: positions.length,
+    ilsMarketValue: ilsPositions.reduce(
+      (s, p) => s + (p.nativeMarketValue ?? p.nativeCostBasis ?? p.costBasis * usdIlsRate),
+      0
+    ),
+    ilsHoldingsCount: ilsPositions.length,
+    usdIlsRate,
     dayChange,
     dayChangePercent: prevValue > 0 ? (dayChange / prevValue) * 100 : 0,
     hasLivePrices,
@@ -296,6 +423,7 @@ export interface AllocationSlice {
   symbol: string;
   value: number;
   percent: number;
+  manual: boolean; // valued at a manual price
 }
 
 export const computeAllocation = (positions: Position[]): AllocationSlice[] => {
@@ -303,7 +431,12 @@ export const computeAllocation = (positions: Position[]): AllocationSlice[] => {
   return positions
     .map((p) => {
       const value = p.marketValue ?? p.costBasis;
-      return { symbol: p.symbol, value, percent: total > 0 ? (value / total) * 100 : 0 };
+      return {
+        symbol: p.symbol,
+        value,
+        percent: total > 0 ? (value / total) * 100 : 0,
+        manual: p.priceSource === "manual",
+      };
     })
     .sort((a, b) => b.value - a.value);
 };
@@ -317,13 +450,16 @@ export interface TimelineBucket {
   cumulative: number;
 }
 
-export const computeRealizedTimeline = (rounds: RealizedRound[]): TimelineBucket[] => {
-  const closed = rounds.filter((r) => r.lastTimestamp > 0);
-  if (closed.length === 0) return [];
+export const computeRealizedTimeline = (
+  sales: RealizedSale[],
+  dividends: DividendEntry[] = []
+): TimelineBucket[] => {
+  const dated = realizedEvents(sales, dividends).filter((e) => e.timestamp > 0);
+  if (dated.length === 0) return [];
 
   const byMonth = new Map<string, TimelineBucket>();
-  closed.forEach((r) => {
-    const d = new Date(r.lastTimestamp);
+  dated.forEach((e) => {
+    const d = new Date(e.timestamp);
     const year = d.getFullYear();
     const month = d.getMonth() + 1;
     const monthKey = `${year}-${String(month).padStart(2, "0")}`;
@@ -335,7 +471,7 @@ export const computeRealizedTimeline = (rounds: RealizedRound[]): TimelineBucket
         pnl: 0,
         cumulative: 0,
       };
-    bucket.pnl += r.finalPnL;
+    bucket.pnl += e.pnl;
     byMonth.set(monthKey, bucket);
   });
 
@@ -348,22 +484,29 @@ export const computeRealizedTimeline = (rounds: RealizedRound[]): TimelineBucket
     });
 };
 
-// Per-year realized summary (for the year-comparison table).
+// Per-year realized summary (for the year-comparison table): sales booked in
+// the year plus dividends received in the year.
 export interface YearlySummary {
   year: number;
-  trades: number;
-  gains: number; // sum of profitable rounds' pre-tax trading P&L
-  losses: number; // sum of losing rounds' pre-tax trading P&L (negative)
+  trades: number; // sell transactions
+  gains: number; // sum of profitable sales' pre-tax trading P&L
+  losses: number; // sum of losing sales' pre-tax trading P&L (negative)
   netFromTrading: number;
   capitalGainsTax: number;
+  gainsIls: number; // the same, in nominal shekels
+  lossesIls: number;
+  netFromTradingIls: number;
+  capitalGainsTaxIls: number;
   dividendsNet: number;
   finalPnL: number;
 }
 
-export const computeYearlySummary = (rounds: RealizedRound[]): YearlySummary[] => {
+export const computeYearlySummary = (
+  sales: RealizedSale[],
+  dividends: DividendEntry[] = []
+): YearlySummary[] => {
   const byYear = new Map<number, YearlySummary>();
-  rounds.forEach((r) => {
-    const year = new Date(r.lastTimestamp).getFullYear();
+  const entry = (year: number) => {
     const e =
       byYear.get(year) ??
       {
@@ -373,17 +516,34 @@ export const computeYearlySummary = (rounds: RealizedRound[]): YearlySummary[] =
         losses: 0,
         netFromTrading: 0,
         capitalGainsTax: 0,
+        gainsIls: 0,
+        lossesIls: 0,
+        netFromTradingIls: 0,
+        capitalGainsTaxIls: 0,
         dividendsNet: 0,
         finalPnL: 0,
       };
+    byYear.set(year, e);
+    return e;
+  };
+
+  sales.forEach((r) => {
+    const e = entry(new Date(r.timestamp).getFullYear());
     if (r.netFromTrading >= 0) e.gains += r.netFromTrading;
     else e.losses += r.netFromTrading;
     e.netFromTrading += r.netFromTrading;
     e.capitalGainsTax += r.capitalGainsTax;
-    e.dividendsNet += r.dividendsNet;
-    e.finalPnL += r.finalPnL;
+    if (r.netFromTradingIls >= 0) e.gainsIls += r.netFromTradingIls;
+    else e.lossesIls += r.netFromTradingIls;
+    e.netFromTradingIls += r.netFromTradingIls;
+    e.capitalGainsTaxIls += r.capitalGainsTaxIls;
+    e.finalPnL += r.netAfterTax;
     e.trades += 1;
-    byYear.set(year, e);
+  });
+  dividends.forEach((d) => {
+    const e = entry(new Date(d.timestamp).getFullYear());
+    e.dividendsNet += d.net;
+    e.finalPnL += d.net;
   });
   return Array.from(byYear.values()).sort((a, b) => a.year - b.year);
 };
@@ -395,9 +555,13 @@ export interface QuarterlyComparison {
   data: Array<Record<string, number | string>>;
 }
 
-export const computeQuarterlyComparison = (rounds: RealizedRound[]): QuarterlyComparison => {
+export const computeQuarterlyComparison = (
+  sales: RealizedSale[],
+  dividends: DividendEntry[] = []
+): QuarterlyComparison => {
+  const realized = realizedEvents(sales, dividends);
   const years = Array.from(
-    new Set(rounds.map((r) => new Date(r.lastTimestamp).getFullYear()))
+    new Set(realized.map((e) => new Date(e.timestamp).getFullYear()))
   ).sort((a, b) => a - b);
 
   const data: Array<Record<string, number | string>> = [1, 2, 3, 4].map((q) => {
@@ -408,11 +572,11 @@ export const computeQuarterlyComparison = (rounds: RealizedRound[]): QuarterlyCo
     return row;
   });
 
-  rounds.forEach((r) => {
-    const d = new Date(r.lastTimestamp);
+  realized.forEach((e) => {
+    const d = new Date(e.timestamp);
     const q = Math.floor(d.getMonth() / 3); // 0..3
     const key = String(d.getFullYear());
-    data[q][key] = (data[q][key] as number) + r.finalPnL;
+    data[q][key] = (data[q][key] as number) + e.pnl;
   });
 
   return { years, data };
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, SPECIAL_TICKER, Transaction } from "../types";
+import { buildCashLedger, cashTotals, isBalanceMismatch } from "./cashLedger";
+
+const tx = (day: number, overrides: Partial<Transaction>): Transaction => ({
+  date: `${String(day).padStart(2, "0")}/01/2026`,
+  timestamp: new Date(2026, 0, day).getTime(),
+  year: 2026,
+  action: ACTION.CASH_TRANSFER,
+  name: "",
+  symbol: SPECIAL_TICKER.DEPOSITS,
+  quantity: 0,
+  delta: 0,
+  price: 0,
+  currency: "ש\"ח",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+  ...overrides,
+});
+
+describe("cash ledger", () => {
+  it("categorizes movements and checks the running balance against IBI's", () => {
+    const ledger = buildCashLedger([
+      tx(1, { proceedsIls: 10000, balanceIls: 10000 }),
+      tx(2, { action: ACTION.BUY_ILS, name: "דולר", symbol: "USD", proceedsIls: -3700, proceedsFx: 1000, balanceIls: 6300 }),
+      tx(3, { action: ACTION.DIVIDEND, name: "דיב/ TEST US", symbol: SPECIAL_TICKER.DIVIDEND_PSEUDO, proceedsFx: 20 }),
+      tx(4, { action: ACTION.MISC_CASH, name: "דמי ניהול", proceedsIls: -15, balanceIls: 6200 }),
+    ]);
+
+    expect(ledger.map((e) => e.category)).toEqual(["deposit", "fx", "dividend", "fee"]);
+    expect(ledger[2].balanceFx).toBe(1020);
+    expect(ledger.filter(isBalanceMismatch)).toHaveLength(1);
+    expect(ledger[3].differenceIls).toBe(-85);
+
+    const totals = cashTotals(ledger);
+    expect(totals.deposit.ils).toBe(10000);
+    expect(totals.fx).toEqual({ ils: -3700, fx: 1000 });
+  });
+
+  it("replays same-day rows of a newest-first export bottom-up", () => {
+    const ledger = buildCashLedger([
+      tx(2, { action: ACTION.WITHDRAWAL, proceedsIls: -500, balanceIls: 500 }),
+      tx(1, { proceedsIls: 400, balanceIls: 1000 }),
+      tx(1, { proceedsIls: 600, balanceIls: 600 }),
+    ]);
+
+    expect(ledger.map((e) => e.balanceIls)).toEqual([600, 1000, 500]);
+    expect(ledger.some(isBalanceMismatch)).toBe(false);
+  });
+
+  it("works out the row order of each appended file on its own", () => {
+    const ledger = buildCashLedger([
+      // first upload, newest first
+      tx(2, { action: ACTION.WITHDRAWAL, proceedsIls: -500, balanceIls: 500, file: 0 }),
+      tx(1, { proceedsIls: 400, balanceIls: 1000, file: 0 }),
+      tx(1, { proceedsIls: 600, balanceIls: 600, file: 0 }),
+      // appended upload, oldest first
+      tx(3, { proceedsIls: 100, balanceIls: 600, file: 1 }),
+      tx(3, { proceedsIls: 200, balanceIls: 800, file: 1 }),
+      tx(4, { action: ACTION.WITHDRAWAL, proceedsIls: -50, balanceIls: 750, file: 1 }),
+    ]);
+
+    expect(ledger.map((e) => e.balanceIls)).toEqual([600, 1000, 500, 600, 800, 750]);
+    expect(ledger.some(isBalanceMismatch)).toBe(false);
+  });
+});
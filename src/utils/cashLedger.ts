@@ -0,0 +1,185 @@
+import { ACTION, SPECIAL_TICKER, Transaction } from "../types";
+import { classifySecurity } from "./securities";
+import { splitByAccount } from "./calculations";
+
+// Cash ledger: every row that moves money, categorized, with a running shekel
+// balance checked against the "יתרה שקלית" IBI reports on the row.
+//
+// Actions ending in "מטח" settle in foreign currency and move the dollar
+// balance; the rest settle in shekels. A shekel buy/sell of a non-security
+// symbol is a currency conversion and moves both.
+
+export type CashCategory =
+  | "deposit"
+  | "withdrawal"
+  | "fx"
+  | "trade"
+  | "fee"
+  | "tax"
+  | "dividend"
+  | "interest"
+  | "other";
+
+export const CASH_CATEGORY_LABELS: Record<CashCategory, string> = {
+  deposit: "הפקדות",
+  withdrawal: "משיכות",
+  fx: "המרות מט״ח",
+  trade: "קניות ומכירות",
+  fee: "עמלות וחיובים",
+  tax: "מסים",
+  dividend: "דיבידנדים",
+  interest: "ריבית",
+  other: "אחר",
+};
+
+export interface CashEntry {
+  timestamp: number;
+  date: string;
+  account: string;
+  action: string;
+  name: string;
+  category: CashCategory;
+  amountIls: number; // shekel balance change (0 for foreign-currency rows)
+  amountFx: number; // dollar balance change
+  balanceIls: number; // running, re-anchored on every reported balance
+  balanceFx: number;
+  reportedBalanceIls?: number;
+  differenceIls?: number; // reported - expected, on rows IBI reports a balance
+}
+
+// Computed and reported balances closer than this are treated as agreeing.
+const BALANCE_TOLERANCE = 1;
+
+const isForeign = (action: string) => action.endsWith("מטח");
+
+export const cashCategory = (t: Transaction): CashCategory => {
+  if (t.symbol === SPECIAL_TICKER.CAPITAL_GAINS_TAX || t.action === ACTION.DIVIDEND_TAX) return "tax";
+  switch (t.action) {
+    case ACTION.DIVIDEND:
+      return "dividend";
+    case ACTION.INTEREST:
+      return "interest";
+    case ACTION.CASH_TRANSFER:
+    case ACTION.DEPOSIT:
+      return "deposit";
+    case ACTION.WITHDRAWAL:
+      return "withdrawal";
+    case ACTION.MISC_CASH:
+      return t.proceedsIls < 0 ? "fee" : "other";
+    case ACTION.BUY_ILS:
+    case ACTION.SELL_ILS:
+      return classifySecurity(t.symbol) === "tase" ? "trade" : "fx";
+    case ACTION.BUY_FX:
+    case ACTION.SELL_FX:
+    case ACTION.GRANT:
+      return "trade";
+    default:
+      return t.symbol === SPECIAL_TICKER.DEPOSITS ? "deposit" : "other";
+  }
+};
+
+// Rows of one account in booking order. IBI exports list the newest row
+// first, so same-day rows are replayed bottom-up when their file is
+// descending. Appended and merged uploads mix files of either direction, so
+// it is worked out per file; same-day rows of different files keep upload
+// order.
+const bookingOrder = (transactions: Transaction[]): Transaction[] => {
+  const byFile = new Map<number | undefined, Transaction[]>();
+  transactions.forEach((t) => byFile.set(t.file, [...(byFile.get(t.file) ?? []), t]));
+  const descending = new Map(
+    Array.from(byFile, ([file, rows]) => [file, rows.length > 1 && rows[0].timestamp > rows[rows.length - 1].timestamp])
+  );
+  const fileRank = (file: number | undefined) => file ?? -1;
+  return transactions
+    .map((t, index) => ({ t, index }))
+    .sort(
+      (a, b) =>
+        a.t.timestamp - b.t.timestamp ||
+        fileRank(a.t.file) - fileRank(b.t.file) ||
+        (descending.get(a.t.file) ? b.index - a.index : a.index - b.index)
+    )
+    .map(({ t }) => t);
+};
+
+const accountLedger = (transactions: Transaction[]): CashEntry[] => {
+  let balanceIls: number | null = null;
+  let balanceFx = 0;
+  const entries: CashEntry[] = [];
+
+  bookingOrder(transactions).forEach((t) => {
+    const category = cashCategory(t);
+    const foreign = isForeign(t.action);
+    const amountIls = foreign ? 0 : t.proceedsIls;
+    const amountFx = foreign ? t.proceedsFx : category === "fx" ? t.proceedsFx : 0;
+    if (amountIls === 0 && amountFx === 0 && t.balanceIls === undefined) return;
+
+    // Before the first reported balance, start from whatever it implies.
+    const opening = balanceIls ?? (t.balanceIls !== undefined ? t.balanceIls - amountIls : 0);
+    const expected = opening + amountIls;
+    balanceFx += amountFx;
+    const entry: CashEntry = {
+      timestamp: t.timestamp,
+      date: t.date,
+      account: t.account,
+      action: t.action,
+      name: t.name,
+      category,
+      amountIls,
+      amountFx,
+      balanceIls: expected,
+      balanceFx,
+    };
+    if (t.balanceIls !== undefined) {
+      entry.reportedBalanceIls = t.balanceIls;
+      entry.differenceIls = t.balanceIls - expected;
+      entry.balanceIls = t.balanceIls;
+    }
+    balanceIls = entry.balanceIls;
+    entries.push(entry);
+  });
+  return entries;
+};
+
+export const buildCashLedger = (transactions: Transaction[]): CashEntry[] =>
+  splitByAccount(transactions)
+    .flatMap(accountLedger)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+export const isBalanceMismatch = (entry: CashEntry): boolean =>
+  entry.differenceIls !== undefined && Math.abs(entry.differenceIls) > BALANCE_TOLERANCE;
+
+export interface CashTotal {
+  ils: number;
+  fx: number;
+}
+
+export const cashTotals = (entries: CashEntry[]): Record<CashCategory, CashTotal> => {
+  const totals = Object.fromEntries(
+    (Object.keys(CASH_CATEGORY_LABELS) as CashCategory[]).map((category) => [category, { ils: 0, fx: 0 }])
+  ) as Record<CashCategory, CashTotal>;
+  entries.forEach((e) => {
+    totals[e.category].ils += e.amountIls;
+    totals[e.category].fx += e.amountFx;
+  });
+  return totals;
+};
+
+// Shekel balance across all accounts after each day, for the chart.
+export interface CashBalancePoint {
+  timestamp: number;
+  date: string;
+  balance: number;
+}
+
+export const cashBalanceSeries = (entries: CashEntry[]): CashBalancePoint[] => {
+  const latest = new Map<string, number>();
+  const series: CashBalancePoint[] = [];
+  entries.forEach((e) => {
+    latest.set(e.account, e.balanceIls);
+    const balance = Array.from(latest.values()).reduce((s, b) => s + b, 0);
+    const last = series[series.length - 1];
+    if (last && last.date === e.date) last.balance = balance;
+    else series.push({ timestamp: e.timestamp, date: e.date, balance });
+  });
+  return series;
+};
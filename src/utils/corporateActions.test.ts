@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, Transaction } from "../types";
+import { computeOpenPosition, computeRealizedRounds } from "./calculations";
+import { applyCorporateActions, detectSplits, formatSplitRatio, manualAction } from "./corporateActions";
+
+const tx = (day: number, overrides: Partial<Transaction>): Transaction => ({
+  date: `${String(day).padStart(2, "0")}/01/2026`,
+  timestamp: new Date(2026, 0, day).getTime(),
+  year: 2026,
+  action: ACTION.BUY_FX,
+  name: "",
+  symbol: "NVDA",
+  quantity: 0,
+  delta: 0,
+  price: 0,
+  currency: "$",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+  ...overrides,
+});
+
+const splitRow = (day: number, action: string, quantity: number) =>
+  tx(day, { action, raw: { "כמות": String(quantity) } as Transaction["raw"] });
+
+describe("corporate actions", () => {
+  it("detects a split from IBI's share adjustment row and closes the round", () => {
+    const transactions = [
+      tx(2, { quantity: 10, delta: 10, price: 100 }),
+      splitRow(10, "פיצול מניות", 30),
+      tx(20, { action: ACTION.SELL_FX, quantity: 40, delta: -40, price: 30 }),
+    ];
+
+    const [split] = detectSplits(transactions);
+    expect(split.ratio).toBe(4);
+    expect(formatSplitRatio(split.ratio)).toBe("4:1");
+
+    const adjusted = applyCorporateActions(transactions, [split]);
+    expect(adjusted[0].quantity).toBe(40);
+    expect(adjusted[0].price).toBe(25);
+    expect(computeOpenPosition(adjusted, "NVDA")).toBeNull();
+    const [round] = computeRealizedRounds(adjusted, "NVDA");
+    expect(round.netFromTrading).toBe(200);
+  });
+
+  it("applies a declared reverse split to earlier trades only", () => {
+    const transactions = [
+      tx(2, { quantity: 100, delta: 100, price: 2 }),
+      tx(20, { quantity: 5, delta: 5, price: 25 }),
+    ];
+    const reverse = manualAction("NVDA", "2026-01-10", 0.1)!;
+    expect(formatSplitRatio(reverse.ratio)).toBe("1:10");
+
+    const position = computeOpenPosition(applyCorporateActions(transactions, [reverse]), "NVDA");
+    expect(position?.quantity).toBe(15);
+    expect(position?.costBasis).toBe(325);
+    expect(manualAction("NVDA", "not a date", 2)).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { CorporateAction, Transaction } from "../types";
+import { formatDateLabel, parseDateToTimestamp } from "./dates";
+import { tradeSide } from "./securities";
+
+// Corporate-actions layer. IBI records a split as a share adjustment row
+// ("פיצול" / "איחוד") that no buy/sell logic understands, so without it the
+// running share count never returns to zero. Splits are applied to the
+// transaction list up front: every trade before the split is restated in
+// post-split shares (quantity × ratio, price ÷ ratio), leaving cost intact.
+
+const EPSILON = 0.0001;
+const SPLIT_ACTION = /פיצול|איחוד/;
+const REVERSE_SPLIT_ACTION = /איחוד/;
+
+export const isSplitAction = (action: string): boolean => SPLIT_ACTION.test(action);
+
+// Split rows carry a signed share change; a consolidation written with a
+// positive quantity still removes shares.
+const splitRowDelta = (t: Transaction): number => {
+  const signed = parseFloat(String(t.raw?.["כמות"] ?? "").trim()) || 0;
+  return REVERSE_SPLIT_ACTION.test(t.action) ? -Math.abs(signed) : signed;
+};
+
+// Splits implied by IBI adjustment rows. Rows for one symbol on one date are
+// netted (some exports remove the old shares and add the new ones), and the
+// ratio comes from the holding just before that date; same-day trades are
+// taken as post-split.
+export const detectSplits = (transactions: Transaction[]): CorporateAction[] => {
+  const bySymbol = new Map<string, Transaction[]>();
+  transactions.forEach((t) => {
+    const isTrade = tradeSide(t.action, t.symbol) !== null;
+    if (!t.symbol || t.timestamp <= 0 || (!isTrade && !isSplitAction(t.action))) return;
+    bySymbol.set(t.symbol, [...(bySymbol.get(t.symbol) ?? []), t]);
+  });
+
+  const detected: CorporateAction[] = [];
+  bySymbol.forEach((rows, symbol) => {
+    if (!rows.some((t) => isSplitAction(t.action))) return;
+    const splitChanges = new Map<number, { date: string; change: number }>();
+    rows
+      .filter((t) => isSplitAction(t.action))
+      .forEach((t) => {
+        const entry = splitChanges.get(t.timestamp) ?? { date: t.date, change: 0 };
+        entry.change += splitRowDelta(t);
+        splitChanges.set(t.timestamp, entry);
+      });
+
+    let held = 0;
+    const trades = rows.filter((t) => !isSplitAction(t.action)).sort((a, b) => a.timestamp - b.timestamp);
+    const splitDates = Array.from(splitChanges.keys()).sort((a, b) => a - b);
+    let cursor = 0;
+    splitDates.forEach((timestamp) => {
+      while (cursor < trades.length && trades[cursor].timestamp < timestamp) {
+        held += trades[cursor].delta;
+        cursor += 1;
+      }
+      const { date, change } = splitChanges.get(timestamp)!;
+      if (held <= EPSILON || Math.abs(change) <= EPSILON || held + change <= EPSILON) return;
+      detected.push({
+        id: `detected-${symbol}-${timestamp}`,
+        symbol,
+        timestamp,
+        date,
+        ratio: (held + change) / held,
+        source: "detected",
+      });
+      held += change;
+    });
+  });
+  return detected;
+};
+
+// Combined ratio of every action that happened after `timestamp` — what a
+// share bought then is worth in today's shares.
+export const splitFactor = (actions: CorporateAction[], symbol: string, timestamp: number): number =>
+  actions
+    .filter((a) => a.symbol === symbol && timestamp < a.timestamp)
+    .reduce((factor, a) => factor * a.ratio, 1);
+
+export const applyCorporateActions = (
+  transactions: Transaction[],
+  actions: CorporateAction[]
+): Transaction[] => {
+  if (actions.length === 0) return transactions;
+  const symbols = new Set(actions.map((a) => a.symbol));
+  return transactions.map((t) => {
+    if (!symbols.has(t.symbol) || t.delta === 0) return t;
+    const factor = splitFactor(actions, t.symbol, t.timestamp);
+    if (factor === 1) return t;
+    return {
+      ...t,
+      quantity: t.quantity * factor,
+      delta: t.delta * factor,
+      price: t.price / factor,
+      ...(t.nativePrice !== undefined ? { nativePrice: t.nativePrice / factor } : {}),
+    };
+  });
+};
+
+// User-declared splits for holdings whose export has no adjustment row.
+export const CORPORATE_ACTIONS_KEY = "ibi_corporate_actions";
+
+// A declared split, or null when the date or ratio can't be used.
+export const manualAction = (
+  symbol: string,
+  date: string,
+  ratio: number,
+  id = `manual-${symbol}-${date}`
+): CorporateAction | null => {
+  const timestamp = parseDateToTimestamp(date);
+  if (!symbol || timestamp <= 0 || !(ratio > 0) || ratio === 1) return null;
+  return { id, symbol, timestamp, date: formatDateLabel(date), ratio, source: "manual" };
+};
+
+export const readManualActions = (storage: Pick<Storage, "getItem">): CorporateAction[] => {
+  try {
+    const parsed = JSON.parse(storage.getItem(CORPORATE_ACTIONS_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((a) => a && typeof a.symbol === "string" && typeof a.date === "string")
+      .map((a) => manualAction(a.symbol, a.date, Number(a.ratio), a.id ? String(a.id) : undefined))
+      .filter((a): a is CorporateAction => a !== null);
+  } catch {
+    return [];
+  }
+};
+
+export const saveManualActions = (storage: Pick<Storage, "setItem">, actions: CorporateAction[]) => {
+  try {
+    storage.setItem(
+      CORPORATE_ACTIONS_KEY,
+      JSON.stringify(actions.map(({ id, symbol, date, ratio }) => ({ id, symbol, date, ratio })))
+    );
+  } catch {
+    /* declared splits are a convenience setting */
+  }
+};
+
+// "2:1" for a split, "1:10" for a reverse split.
+export const formatSplitRatio = (ratio: number): string => {
+  const round = (value: number) => String(Math.round(value * 1000) / 1000);
+  return ratio >= 1 ? `${round(ratio)}:1` : `1:${round(1 / ratio)}`;
+};
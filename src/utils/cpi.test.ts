@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, Transaction } from "../types";
+import { computeRealizedSales } from "./calculations";
+import { cpiAt, CpiSeries, parseCpiCsv, realGain } from "./cpi";
+
+const tx = (timestamp: number, overrides: Partial<Transaction>): Transaction => ({
+  date: "",
+  timestamp,
+  year: new Date(timestamp).getFullYear(),
+  action: ACTION.BUY_FX,
+  name: "TEST US",
+  symbol: "TEST",
+  quantity: 0,
+  delta: 0,
+  price: 0,
+  currency: "$",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+  ...overrides,
+});
+
+const JAN_2022 = new Date(2022, 0, 10).getTime();
+const JUL_2022 = new Date(2022, 6, 10).getTime();
+const JAN_2023 = new Date(2023, 0, 10).getTime();
+
+const CPI: CpiSeries = { "2022-01": 100, "2022-07": 104, "2023-01": 108 };
+
+describe("real capital gain", () => {
+  it("indexes each lot from its own purchase month to the sale month", () => {
+    const [sale] = computeRealizedSales(
+      [
+        tx(JAN_2022, { quantity: 5, delta: 5, price: 100 }),
+        tx(JUL_2022, { quantity: 5, delta: 5, price: 100 }),
+        tx(JAN_2023, { action: ACTION.SELL_FX, quantity: 10, delta: -10, price: 120 }),
+      ],
+      "TEST",
+      "fifo"
+    );
+    const inflation = 500 * (108 / 100 - 1) + 500 * (108 / 104 - 1);
+
+    const real = realGain(sale, CPI);
+    expect(real.inflation).toBeCloseTo(inflation);
+    expect(real.realNetFromTrading).toBeCloseTo(200 - inflation);
+    expect(real.realCapitalGainsTax).toBeCloseTo((200 - inflation) * 0.25);
+  });
+
+  it("never turns a gain into a loss and leaves losses nominal", () => {
+    const sales = computeRealizedSales(
+      [
+        tx(JAN_2022, { quantity: 10, delta: 10, price: 100 }),
+        tx(JAN_2023, { action: ACTION.SELL_FX, quantity: 5, delta: -5, price: 101 }),
+        tx(JAN_2023, { action: ACTION.SELL_FX, quantity: 5, delta: -5, price: 90 }),
+      ],
+      "TEST",
+      "fifo"
+    );
+
+    expect(realGain(sales[0], CPI).realNetFromTrading).toBe(0);
+    expect(realGain(sales[1], CPI).realNetFromTrading).toBe(-50);
+  });
+
+  it("flags sales whose months the series doesn't cover instead of clamping", () => {
+    const MAR_2026 = new Date(2026, 2, 10).getTime();
+    expect(cpiAt(JAN_2022, CPI)).toBe(100);
+    expect(cpiAt(MAR_2026, CPI)).toBeNull();
+
+    const [sale] = computeRealizedSales(
+      [
+        tx(JAN_2022, { quantity: 10, delta: 10, price: 100 }),
+        tx(MAR_2026, { action: ACTION.SELL_FX, quantity: 10, delta: -10, price: 120 }),
+      ],
+      "TEST",
+      "fifo"
+    );
+    expect(realGain(sale, CPI)).toMatchObject({ indexed: false, inflation: 0, realNetFromTrading: 200 });
+    expect(realGain(sale, {})).toMatchObject({ indexed: false, realNetFromTrading: 200 });
+    expect(realGain(sale, { "2022-01": 100, "2026-03": 110 })).toMatchObject({ indexed: true });
+    expect(realGain(sale, { "2022-01": 100, "2026-03": 110 }).inflation).toBeCloseTo(100);
+  });
+
+  it("reads a month,index CSV in either month format", () => {
+    const { series, skipped } = parseCpiCsv("חודש,מדד\n01/2026,105.2\n2026-2;105.6\n\n13/2026,106\n");
+    expect(series).toEqual({ "2026-01": 105.2, "2026-02": 105.6 });
+    expect(skipped).toEqual([5]);
+  });
+});
@@ -0,0 +1,125 @@
+import { CAPITAL_GAINS_TAX_RATE, RealizedSale } from "../types";
+
+// Israeli consumer price index by month, for the real (inflation-adjusted)
+// capital gain: only the gain above the rise in the index between the buy
+// month and the sale month is taxed.
+//
+// A series maps "YYYY-MM" to the index for that month. Only ratios between
+// months are used, so any base works as long as the whole series shares it.
+// No series ships with the app: the user imports CBS's published monthly
+// index, and until then every sale stays nominal.
+export type CpiSeries = Record<string, number>;
+
+const monthKey = (year: number, month: number) => `${year}-${String(month).padStart(2, "0")}`;
+
+// Index for the month `timestamp` falls in, or null when the series doesn't
+// cover that month (no clamping: a missing month means no indexation).
+export const cpiAt = (timestamp: number, series: CpiSeries): number | null => {
+  const date = new Date(timestamp);
+  return series[monthKey(date.getFullYear(), date.getMonth() + 1)] ?? null;
+};
+
+// Last month the series covers, as "MM/YYYY" ("" for an empty series).
+export const cpiLatestMonth = (series: CpiSeries): string => {
+  const last = Object.keys(series).sort().pop();
+  return last ? `${last.slice(5)}/${last.slice(0, 4)}` : "";
+};
+
+export const CPI_SERIES_KEY = "ibi_cpi_series";
+
+const isSeries = (value: unknown): value is CpiSeries =>
+  !!value &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  Object.entries(value).every(([key, index]) => /^\d{4}-\d{2}$/.test(key) && typeof index === "number" && index > 0);
+
+// The imported series, or null when none is saved.
+export const readCpiSeries = (storage: Pick<Storage, "getItem">): CpiSeries | null => {
+  try {
+    const parsed = JSON.parse(storage.getItem(CPI_SERIES_KEY) ?? "null");
+    return isSeries(parsed) && Object.keys(parsed).length > 0 ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// null removes the import.
+export const saveCpiSeries = (storage: Pick<Storage, "setItem" | "removeItem">, series: CpiSeries | null) => {
+  try {
+    if (series) storage.setItem(CPI_SERIES_KEY, JSON.stringify(series));
+    else storage.removeItem(CPI_SERIES_KEY);
+  } catch {
+    /* the imported index is a convenience setting */
+  }
+};
+
+export interface CpiImport {
+  series: CpiSeries;
+  skipped: number[]; // 1-based line numbers that couldn't be read
+}
+
+// month,index per line, as exported from CBS's price-index series. The month
+// is "MM/YYYY" or "YYYY-MM"; comma, semicolon or tab separated; a header line
+// and blank lines are ignored.
+export const parseCpiCsv = (text: string): CpiImport => {
+  const series: CpiSeries = {};
+  const skipped: number[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const delimiter = /[;\t]/.exec(line)?.[0] ?? ",";
+    const [month = "", value = ""] = line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    const parts = /^(\d{1,2})[/.-](\d{4})$/.exec(month) ?? /^(\d{4})[/.-](\d{1,2})$/.exec(month);
+    const [year, monthNumber] = parts
+      ? parts[1].length === 4
+        ? [Number(parts[1]), Number(parts[2])]
+        : [Number(parts[2]), Number(parts[1])]
+      : [0, 0];
+    const cpi = Number(value);
+    if (year > 0 && monthNumber >= 1 && monthNumber <= 12 && cpi > 0) series[monthKey(year, monthNumber)] = cpi;
+    else if (index > 0 || /\d/.test(value)) skipped.push(index + 1);
+  });
+  return { series, skipped };
+};
+
+export interface RealGain {
+  indexed: boolean; // false when a lot's buy or sale month has no index
+  inflation: number; // cost-basis growth with the index, exempt from tax
+  realNetFromTrading: number;
+  realCapitalGainsTax: number;
+  inflationIls: number;
+  realNetFromTradingIls: number;
+  realCapitalGainsTaxIls: number;
+}
+
+// Real gain of one sale: every matched lot's cost (fees included) is indexed
+// from its own purchase month to the sale month. Only a gain is reduced —
+// the inflationary amount can zero it but not turn it into a loss — and
+// a falling index adds nothing. A lot whose months the series doesn't cover
+// stays nominal and the sale is flagged as not indexed.
+export const realGain = (sale: RealizedSale, series: CpiSeries): RealGain => {
+  const saleIndex = cpiAt(sale.timestamp, series);
+  let indexed = true;
+  let inflation = 0;
+  let inflationIls = 0;
+  sale.lots.forEach((lot) => {
+    const buyIndex = cpiAt(lot.timestamp, series);
+    if (!saleIndex || !buyIndex) indexed = false;
+    if (!saleIndex || !buyIndex || saleIndex <= buyIndex) return;
+    const growth = saleIndex / buyIndex - 1;
+    inflation += (lot.costBasis + lot.buyFees) * growth;
+    inflationIls += (lot.costBasisIls + lot.buyFeesIls) * growth;
+  });
+
+  const real = (net: number, exempt: number) => (net > 0 ? Math.max(0, net - exempt) : net);
+  const realNetFromTrading = real(sale.netFromTrading, inflation);
+  const realNetFromTradingIls = real(sale.netFromTradingIls, inflationIls);
+  return {
+    indexed,
+    inflation,
+    realNetFromTrading,
+    realCapitalGainsTax: Math.max(0, realNetFromTrading) * CAPITAL_GAINS_TAX_RATE,
+    inflationIls,
+    realNetFromTradingIls,
+    realCapitalGainsTaxIls: Math.max(0, realNetFromTradingIls) * CAPITAL_GAINS_TAX_RATE,
+  };
+};
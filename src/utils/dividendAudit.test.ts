@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, Transaction } from "../types";
+import { dividendsForSymbol } from "./calculations";
+import { auditDividends, israeliTopUpTax, withholdingStatus } from "./dividendAudit";
+
+const tx = (day: number, action: string, quantity: number): Transaction => ({
+  date: `${String(day).padStart(2, "0")}/01/2026`,
+  timestamp: new Date(2026, 0, day).getTime(),
+  year: 2026,
+  action,
+  name: action === ACTION.DIVIDEND ? "דיב/ TEST US" : "מסח/ TEST US",
+  symbol: "99028",
+  quantity,
+  delta: 0,
+  price: 0,
+  currency: "$",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+});
+
+describe("dividend withholding audit", () => {
+  it("classifies the effective withholding rate", () => {
+    expect(withholdingStatus(100, 25)).toBe("treaty");
+    expect(withholdingStatus(100, 30)).toBe("no-w8ben");
+    expect(withholdingStatus(100, 0)).toBe("none");
+    expect(withholdingStatus(100, 10)).toBe("reduced");
+    expect(withholdingStatus(0, 5)).toBe("tax-only");
+  });
+
+  it("charges the Israeli top-up on under-withheld payments in the dividend net", () => {
+    const dividends = dividendsForSymbol(
+      [
+        tx(1, ACTION.DIVIDEND, 100),
+        tx(1, ACTION.DIVIDEND_TAX, 10),
+        tx(2, ACTION.DIVIDEND, 100),
+        tx(2, ACTION.DIVIDEND_TAX, 30),
+      ],
+      "TEST"
+    );
+
+    expect(israeliTopUpTax(100, 10)).toBe(15);
+    expect(dividends[0]).toMatchObject({ topUpTax: 15, net: 75 });
+    expect(dividends[1]).toMatchObject({ topUpTax: 0, net: 70 });
+
+    const [reduced, noW8ben] = auditDividends(dividends);
+    expect(reduced).toMatchObject({ status: "reduced", flagged: true, ratePercent: 10 });
+    expect(noW8ben).toMatchObject({ status: "no-w8ben", overWithheld: 5 });
+  });
+
+  it("pairs withholding booked on another day with the nearest dividend", () => {
+    const dividends = dividendsForSymbol(
+      [
+        tx(2, ACTION.DIVIDEND, 100),
+        tx(5, ACTION.DIVIDEND_TAX, 25),
+        tx(20, ACTION.DIVIDEND, 100),
+        tx(19, ACTION.DIVIDEND_TAX, 25),
+      ],
+      "TEST"
+    );
+
+    expect(dividends).toHaveLength(2);
+    expect(dividends[0]).toMatchObject({ date: "02/01/2026", tax: 25, topUpTax: 0, net: 75 });
+    expect(dividends[1]).toMatchObject({ date: "20/01/2026", tax: 25, topUpTax: 0, net: 75 });
+  });
+});
@@ -0,0 +1,55 @@
+import type { DividendEntry } from "./calculations";
+
+// Withholding on US dividends. With a W-8BEN on file the US withholds the
+// treaty rate (25% for Israeli residents), which fully credits the 25% Israeli
+// dividend tax. Without one it withholds 30%, and the excess is not refunded
+// in Israel. Anything withheld below 25% leaves an Israeli top-up to pay.
+
+export const ISRAELI_DIVIDEND_TAX_RATE = 0.25;
+const TREATY_RATE = 0.25;
+const NO_TREATY_RATE = 0.3;
+const RATE_TOLERANCE = 0.01;
+
+export type WithholdingStatus = "treaty" | "no-w8ben" | "none" | "reduced" | "excess" | "tax-only";
+
+export const WITHHOLDING_STATUS_LABELS: Record<WithholdingStatus, string> = {
+  treaty: "25% לפי האמנה",
+  "no-w8ben": "30% — חסר W-8BEN?",
+  none: "ללא ניכוי",
+  reduced: "ניכוי חלקי",
+  excess: "ניכוי חריג",
+  "tax-only": "מס ללא דיבידנד",
+};
+
+// Israeli tax still due after crediting what was withheld abroad.
+export const israeliTopUpTax = (gross: number, withheld: number): number =>
+  Math.max(0, gross * ISRAELI_DIVIDEND_TAX_RATE - withheld);
+
+export const withholdingStatus = (gross: number, withheld: number): WithholdingStatus => {
+  if (gross <= 0) return "tax-only";
+  const rate = withheld / gross;
+  if (withheld === 0) return "none";
+  if (Math.abs(rate - TREATY_RATE) <= RATE_TOLERANCE) return "treaty";
+  if (Math.abs(rate - NO_TREATY_RATE) <= RATE_TOLERANCE) return "no-w8ben";
+  return rate < TREATY_RATE ? "reduced" : "excess";
+};
+
+export interface DividendAuditLine {
+  entry: DividendEntry;
+  ratePercent: number; // withheld / gross
+  status: WithholdingStatus;
+  flagged: boolean; // anything but the treaty rate
+  overWithheld: number; // withheld above the 25% Israeli liability, not recoverable
+}
+
+export const auditDividends = (dividends: DividendEntry[]): DividendAuditLine[] =>
+  dividends.map((entry) => {
+    const status = withholdingStatus(entry.dividend, entry.tax);
+    return {
+      entry,
+      ratePercent: entry.dividend > 0 ? (entry.tax / entry.dividend) * 100 : 0,
+      status,
+      flagged: status !== "treaty",
+      overWithheld: Math.max(0, entry.tax - entry.dividend * ISRAELI_DIVIDEND_TAX_RATE),
+    };
+  });
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { DividendEntry } from "./calculations";
+import { dividendGrowth, dividendPeriods, dividendYears, filterDividends, topPayers } from "./dividendHistory";
+
+const entry = (symbol: string, year: number, month: number, dividend: number, topUpTax = 0): DividendEntry => {
+  const tax = dividend * 0.25 - topUpTax;
+  return {
+    symbol,
+    timestamp: new Date(year, month - 1, 10).getTime(),
+    date: `10/${String(month).padStart(2, "0")}/${year}`,
+    dividend,
+    tax,
+    topUpTax,
+    net: dividend - tax - topUpTax,
+  };
+};
+
+const dividends = [
+  entry("AAA", 2024, 3, 100),
+  entry("BBB", 2024, 6, 40, 4),
+  entry("AAA", 2025, 3, 120),
+  entry("AAA", 2025, 9, 30),
+  entry("BBB", 2025, 12, 20),
+];
+
+describe("dividend history", () => {
+  it("filters by symbol and year", () => {
+    expect(dividendYears(dividends)).toEqual([2025, 2024]);
+    expect(filterDividends(dividends, { symbol: "AAA", year: 2025 })).toHaveLength(2);
+    expect(filterDividends(dividends, { symbol: "all", year: 2024 }).map((d) => d.symbol)).toEqual(["AAA", "BBB"]);
+  });
+
+  it("totals periods with gaps filled and the top-up counted as tax", () => {
+    const years = dividendPeriods(dividends, "year");
+    expect(years.map((p) => p.key)).toEqual(["2024", "2025"]);
+    expect(years[0]).toMatchObject({ gross: 140, tax: 35, net: 105 });
+
+    const months = dividendPeriods(filterDividends(dividends, { symbol: "all", year: 2024 }), "month");
+    expect(months.map((p) => p.label)).toEqual(["03/2024", "04/2024", "05/2024", "06/2024"]);
+    expect(months[1].gross).toBe(0);
+  });
+
+  it("ranks payers and measures year-over-year growth", () => {
+    const [first, second] = topPayers(dividends);
+    expect(first).toMatchObject({ symbol: "AAA", payments: 3, gross: 250 });
+    expect(first.sharePercent).toBeCloseTo((250 / 310) * 100);
+    expect(second.symbol).toBe("BBB");
+
+    const growth = dividendGrowth(dividends);
+    expect(growth.find((g) => g.symbol === "AAA")?.lastChangePercent).toBeCloseTo(50);
+    expect(growth.find((g) => g.symbol === "BBB")?.lastChangePercent).toBeCloseTo(-50);
+    expect(dividendGrowth([entry("CCC", 2025, 1, 10)])[0].lastChangePercent).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import type { DividendEntry } from "./calculations";
+
+// Portfolio-wide dividend history for the dividends tab: filtering, period
+// totals for the charts, top payers and year-over-year growth per symbol.
+// "Tax" here is everything withheld plus the Israeli top-up, so gross - tax
+// always equals the entries' net.
+
+export type DividendPeriodKind = "month" | "year";
+
+export interface DividendFilter {
+  symbol: string | "all";
+  year: number | "all";
+}
+
+export interface DividendPeriod {
+  key: string; // YYYY-MM or YYYY
+  label: string; // MM/YYYY or YYYY
+  gross: number;
+  tax: number;
+  net: number;
+}
+
+export interface DividendPayer {
+  symbol: string;
+  payments: number;
+  gross: number;
+  net: number;
+  sharePercent: number; // of total gross
+}
+
+export interface DividendGrowthRow {
+  symbol: string;
+  byYear: Record<number, number>; // gross per calendar year
+  lastChangePercent: number | null; // latest year vs the one before
+}
+
+const entryYear = (d: DividendEntry) => new Date(d.timestamp).getFullYear();
+
+export const dividendYears = (dividends: DividendEntry[]): number[] =>
+  Array.from(new Set(dividends.map(entryYear))).sort((a, b) => b - a);
+
+export const filterDividends = (dividends: DividendEntry[], filter: DividendFilter): DividendEntry[] =>
+  dividends.filter(
+    (d) => (filter.symbol === "all" || d.symbol === filter.symbol) && (filter.year === "all" || entryYear(d) === filter.year)
+  );
+
+const periodKey = (timestamp: number, kind: DividendPeriodKind) => {
+  const date = new Date(timestamp);
+  const year = date.getFullYear();
+  return kind === "year" ? String(year) : `${year}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const periodLabel = (key: string) => {
+  const [year, month] = key.split("-");
+  return month ? `${month}/${year}` : year;
+};
+
+// Totals per month or year, with empty periods between the first and last
+// payment filled in so the chart keeps a continuous axis.
+export const dividendPeriods = (dividends: DividendEntry[], kind: DividendPeriodKind): DividendPeriod[] => {
+  if (dividends.length === 0) return [];
+  const timestamps = dividends.map((d) => d.timestamp);
+  const first = new Date(Math.min(...timestamps));
+  const last = new Date(Math.max(...timestamps));
+
+  const periods = new Map<string, DividendPeriod>();
+  const cursor = new Date(first.getFullYear(), kind === "year" ? 0 : first.getMonth(), 1);
+  while (cursor <= last) {
+    const key = periodKey(cursor.getTime(), kind);
+    periods.set(key, { key, label: periodLabel(key), gross: 0, tax: 0, net: 0 });
+    if (kind === "year") cursor.setFullYear(cursor.getFullYear() + 1);
+    else cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  dividends.forEach((d) => {
+    const period = periods.get(periodKey(d.timestamp, kind));
+    if (!period) return;
+    period.gross += d.dividend;
+    period.tax += d.tax + d.topUpTax;
+    period.net += d.net;
+  });
+  return Array.from(periods.values());
+};
+
+export const topPayers = (dividends: DividendEntry[], limit = 10): DividendPayer[] => {
+  const totalGross = dividends.reduce((s, d) => s + d.dividend, 0);
+  const bySymbol = new Map<string, DividendPayer>();
+  dividends.forEach((d) => {
+    const payer = bySymbol.get(d.symbol) ?? { symbol: d.symbol, payments: 0, gross: 0, net: 0, sharePercent: 0 };
+    if (d.dividend > 0) payer.payments += 1;
+    payer.gross += d.dividend;
+    payer.net += d.net;
+    bySymbol.set(d.symbol, payer);
+  });
+  return Array.from(bySymbol.values())
+    .map((p) => ({ ...p, sharePercent: totalGross > 0 ? (p.gross / totalGross) * 100 : 0 }))
+    .sort((a, b) => b.gross - a.gross)
+    .slice(0, limit);
+};
+
+// Gross per symbol per year. The change compares the two latest years the
+// symbol paid in, so a partial current year reads as a drop until it fills up.
+export const dividendGrowth = (dividends: DividendEntry[]): DividendGrowthRow[] => {
+  const bySymbol = new Map<string, Record<number, number>>();
+  dividends.forEach((d) => {
+    const byYear = bySymbol.get(d.symbol) ?? {};
+    const year = entryYear(d);
+    byYear[year] = (byYear[year] ?? 0) + d.dividend;
+    bySymbol.set(d.symbol, byYear);
+  });
+
+  return Array.from(bySymbol.entries())
+    .map(([symbol, byYear]) => {
+      const paid = Object.keys(byYear)
+        .map(Number)
+        .filter((y) => byYear[y] > 0)
+        .sort((a, b) => a - b);
+      const [previous, latest] = paid.slice(-2);
+      const lastChangePercent =
+        latest !== undefined ? ((byYear[latest] - byYear[previous]) / byYear[previous]) * 100 : null;
+      return { symbol, byYear, lastChangePercent };
+    })
+    .sort((a, b) => a.symbol.localeCompare(b.symbol));
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, Position, Transaction } from "../types";
+import type { DividendEntry } from "./calculations";
+import { payoutFrequency, projectDividends, projectionCalendar } from "./dividendProjection";
+
+const at = (year: number, month: number, day = 15) => new Date(year, month - 1, day).getTime();
+
+const buy = (timestamp: number, quantity: number): Transaction => ({
+  date: "",
+  timestamp,
+  year: new Date(timestamp).getFullYear(),
+  action: ACTION.BUY_FX,
+  name: "מסח/ TEST US",
+  symbol: "TEST",
+  quantity,
+  delta: quantity,
+  price: 50,
+  currency: "$",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+});
+
+const dividend = (timestamp: number, amount: number): DividendEntry => ({
+  symbol: "TEST",
+  timestamp,
+  date: "",
+  dividend: amount,
+  tax: amount * 0.25,
+  topUpTax: 0,
+  net: amount * 0.75,
+});
+
+const position = (quantity: number, costBasis: number) =>
+  ({ symbol: "TEST", quantity, costBasis }) as Position;
+
+describe("dividend projection", () => {
+  it("infers the payout cadence from the gaps between payments", () => {
+    expect(payoutFrequency([at(2026, 1), at(2026, 4), at(2026, 7), at(2026, 10)])).toBe(4);
+    expect(payoutFrequency([at(2026, 1), at(2026, 2), at(2026, 3)])).toBe(12);
+    expect(payoutFrequency([at(2025, 6)])).toBe(1);
+  });
+
+  it("rolls the last per-share payout forward on today's holding", () => {
+    const now = at(2026, 10, 1);
+    const transactions = [buy(at(2025, 1, 2), 100), buy(at(2026, 8, 1), 100)];
+    const dividends = [at(2025, 10), at(2026, 1), at(2026, 4), at(2026, 7)].map((t) => dividend(t, 50));
+
+    const [forecast] = projectDividends(transactions, [position(200, 10_000)], dividends, now);
+    expect(forecast.perYear).toBe(4);
+    expect(forecast.perShare).toBeCloseTo(0.5); // $50 on the 100 shares held in July
+    expect(forecast.annualGross).toBeCloseTo(400);
+    expect(forecast.annualNet).toBeCloseTo(300);
+    expect(forecast.yieldOnCostPercent).toBeCloseTo(4);
+    expect(forecast.payments).toHaveLength(4);
+    expect(forecast.payments.every((p) => p.timestamp > now)).toBe(true);
+
+    const calendar = projectionCalendar([forecast], now);
+    expect(calendar).toHaveLength(12);
+    expect(calendar[0].monthKey).toBe("2026-10");
+    expect(calendar.reduce((s, m) => s + m.gross, 0)).toBeCloseTo(400);
+    expect(calendar.find((m) => m.gross > 0)?.symbols).toEqual(["TEST"]);
+  });
+
+  it("drops dividends that have stopped paying", () => {
+    const dividends = [at(2024, 1), at(2024, 4), at(2024, 7)].map((t) => dividend(t, 50));
+    expect(projectDividends([buy(at(2023, 1), 100)], [position(100, 5_000)], dividends, at(2026, 10))).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import type { Position, Transaction } from "../types";
+import { DividendEntry, tradeTransactions } from "./calculations";
+import { ISRAELI_DIVIDEND_TAX_RATE } from "./dividendAudit";
+
+// Forward dividend projection for open positions: each symbol's payout
+// cadence is inferred from the gaps between its past payments, the latest
+// per-share amount is assumed to continue, and the schedule is rolled forward
+// against the shares held today.
+
+const DAY_MS = 86_400_000;
+const HORIZON_MONTHS = 12;
+
+// Payments per year by typical gap in days; the closest one wins.
+const CADENCES: { perYear: number; days: number }[] = [
+  { perYear: 12, days: 30 },
+  { perYear: 4, days: 91 },
+  { perYear: 2, days: 182 },
+  { perYear: 1, days: 365 },
+];
+
+export interface ProjectedPayment {
+  symbol: string;
+  timestamp: number;
+  gross: number;
+  withholding: number; // at the 25% treaty rate
+}
+
+export interface DividendForecast {
+  symbol: string;
+  perYear: number;
+  perShare: number; // last payment per share held
+  quantity: number;
+  annualGross: number;
+  annualNet: number;
+  yieldOnCostPercent: number;
+  payments: ProjectedPayment[]; // within the next 12 months
+}
+
+export interface ProjectionMonth {
+  monthKey: string; // YYYY-MM
+  label: string; // MM/YYYY
+  gross: number;
+  withholding: number;
+  net: number;
+  symbols: string[];
+}
+
+// Shares of `symbol` held just before `timestamp`, across accounts.
+export const sharesHeldBefore = (transactions: Transaction[], symbol: string, timestamp: number): number =>
+  tradeTransactions(transactions, symbol)
+    .filter((t) => t.timestamp < timestamp)
+    .reduce((s, t) => s + t.delta, 0);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Payments per year implied by the last few gaps. A single payment is taken
+// as annual.
+export const payoutFrequency = (timestamps: number[]): number => {
+  const recent = timestamps.slice(-6);
+  const gaps = recent.slice(1).map((t, i) => (t - recent[i]) / DAY_MS);
+  if (gaps.length === 0) return 1;
+  const gap = median(gaps);
+  return CADENCES.reduce((best, c) => (Math.abs(c.days - gap) < Math.abs(best.days - gap) ? c : best)).perYear;
+};
+
+export const projectDividends = (
+  transactions: Transaction[],
+  positions: Position[],
+  dividends: DividendEntry[],
+  now = Date.now()
+): DividendForecast[] => {
+  // End of the last calendar month shown, so payments line up with the calendar.
+  const start = new Date(now);
+  const horizon = new Date(start.getFullYear(), start.getMonth() + HORIZON_MONTHS, 1).getTime();
+
+  return positions
+    .map((position): DividendForecast | null => {
+      const history = dividends.filter((d) => d.symbol === position.symbol && d.dividend > 0);
+      if (history.length === 0) return null;
+      const last = history[history.length - 1];
+      const perYear = payoutFrequency(history.map((d) => d.timestamp));
+      const periodMs = (365 / perYear) * DAY_MS;
+      // Missed two payments in a row: treat the dividend as suspended.
+      if (now - last.timestamp > periodMs * 2.5) return null;
+
+      const heldThen = sharesHeldBefore(transactions, position.symbol, last.timestamp);
+      if (heldThen <= 0) return null;
+      const perShare = last.dividend / heldThen;
+      const gross = perShare * position.quantity;
+
+      const payments: ProjectedPayment[] = [];
+      for (let next = last.timestamp + periodMs; next < horizon; next += periodMs) {
+        if (next <= now) continue;
+        payments.push({
+          symbol: position.symbol,
+          timestamp: next,
+          gross,
+          withholding: gross * ISRAELI_DIVIDEND_TAX_RATE,
+        });
+      }
+      const annualGross = gross * perYear;
+      return {
+        symbol: position.symbol,
+        perYear,
+        perShare,
+        quantity: position.quantity,
+        annualGross,
+        annualNet: annualGross * (1 - ISRAELI_DIVIDEND_TAX_RATE),
+        yieldOnCostPercent: position.costBasis > 0 ? (annualGross / position.costBasis) * 100 : 0,
+        payments,
+      };
+    })
+    .filter((f): f is DividendForecast => f !== null)
+    .sort((a, b) => b.annualGross - a.annualGross);
+};
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+// The next 12 calendar months starting with the current one.
+export const projectionCalendar = (forecasts: DividendForecast[], now = Date.now()): ProjectionMonth[] => {
+  const start = new Date(now);
+  const months: ProjectionMonth[] = Array.from({ length: HORIZON_MONTHS }, (_, i) => {
+    const d = new Date(start.getFullYear(), start.getMonth() + i, 1);
+    const [year, month] = monthKey(d).split("-");
+    return { monthKey: monthKey(d), label: `${month}/${year}`, gross: 0, withholding: 0, net: 0, symbols: [] };
+  });
+  const byKey = new Map(months.map((m) => [m.monthKey, m]));
+
+  forecasts.forEach((f) =>
+    f.payments.forEach((p) => {
+      const month = byKey.get(monthKey(new Date(p.timestamp)));
+      if (!month) return;
+      month.gross += p.gross;
+      month.withholding += p.withholding;
+      month.net = month.gross - month.withholding;
+      if (!month.symbols.includes(p.symbol)) month.symbols.push(p.symbol);
+    })
+  );
+  return months;
+};
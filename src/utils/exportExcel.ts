@@ -1,3 +1,8 @@
+export interface ExcelSheet {
+  name: string; // Excel caps sheet names at 31 characters
+  rows: Record<string, unknown>[];
+}
+
 // Export an array of plain objects to a downloaded .xlsx file. Object keys
 // become column headers (Hebrew labels are fine). A date suffix is appended.
 export const exportToExcel = async (
@@ -6,10 +11,47 @@ export const exportToExcel = async (
   sheetName = "נתונים"
 ): Promise<void> => {
   if (rows.length === 0) return;
+  await exportSheetsToExcel([{ name: sheetName, rows }], filename);
+};
+
+// Several sheets in one workbook. Reports pass `formatted` to lay them out for
+// reading rather than further processing: right-to-left, columns sized to
+// their content and amounts shown with thousands separators and two decimals.
+// An amount column is one whose header names its unit — "($)", "(₪)" or "(%)";
+// years, counts and quantities keep the general format.
+export const exportSheetsToExcel = async (
+  sheets: ExcelSheet[],
+  filename: string,
+  { formatted = false }: { formatted?: boolean } = {}
+): Promise<void> => {
+  const filled = sheets.filter((sheet) => sheet.rows.length > 0);
+  if (filled.length === 0) return;
   const XLSX = await import("xlsx");
-  const ws = XLSX.utils.json_to_sheet(rows);
   const wb = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(wb, ws, sheetName);
+  filled.forEach((sheet) => {
+    const ws = XLSX.utils.json_to_sheet(sheet.rows);
+    if (!formatted) {
+      XLSX.utils.book_append_sheet(wb, ws, sheet.name.slice(0, 31));
+      return;
+    }
+    const headers = Object.keys(sheet.rows[0]);
+    ws["!cols"] = headers.map((header) => ({
+      wch: Math.min(
+        40,
+        Math.max(header.length, ...sheet.rows.map((row) => String(row[header] ?? "").length)) + 2
+      ),
+    }));
+    const range = XLSX.utils.decode_range(ws["!ref"] ?? "A1");
+    headers.forEach((header, c) => {
+      if (!/\((\$|₪|%)\)/.test(header)) return;
+      for (let r = range.s.r + 1; r <= range.e.r; r += 1) {
+        const cell = ws[XLSX.utils.encode_cell({ r, c })];
+        if (cell?.t === "n") cell.z = "#,##0.00";
+      }
+    });
+    XLSX.utils.book_append_sheet(wb, ws, sheet.name.slice(0, 31));
+  });
+  if (formatted) wb.Workbook = { Views: [{ RTL: true }] };
   const stamp = new Date().toISOString().split("T")[0];
   XLSX.writeFile(wb, `${filename}_${stamp}.xlsx`);
 };
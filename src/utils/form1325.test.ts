@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, Transaction } from "../types";
+import { computeAllDividends, computeRealizedSales } from "./calculations";
+import { build1325Reports, form1325Sheets } from "./form1325";
+
+const tx = (timestamp: number, overrides: Partial<Transaction>): Transaction => ({
+  date: new Date(timestamp).toLocaleDateString("en-GB"),
+  timestamp,
+  year: new Date(timestamp).getFullYear(),
+  action: ACTION.BUY_FX,
+  name: "TEST CORP",
+  symbol: "TEST",
+  quantity: 0,
+  delta: 0,
+  price: 0,
+  currency: "$",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+  ...overrides,
+});
+
+const BOUGHT = new Date(2022, 0, 10).getTime();
+const PAID = new Date(2023, 2, 10).getTime();
+const SOLD = new Date(2023, 5, 10).getTime();
+
+describe("1325 report", () => {
+  const transactions = [
+    tx(BOUGHT, { quantity: 10, delta: 10, price: 100, fee: 10, proceedsFx: -1010, proceedsIls: -4040 }),
+    tx(PAID, { action: ACTION.DIVIDEND, name: "דיב/ TEST US", symbol: "99028", quantity: 10 }),
+    tx(PAID, { action: ACTION.DIVIDEND_TAX, name: "מסח/ TEST US", symbol: "99028", quantity: 2.5 }),
+    tx(SOLD, {
+      action: ACTION.SELL_FX,
+      quantity: 10,
+      delta: -10,
+      price: 150,
+      fee: 10,
+      proceedsFx: 1490,
+      proceedsIls: 5960,
+    }),
+  ];
+  const [report] = build1325Reports(
+    computeRealizedSales(transactions, "TEST", "fifo"),
+    computeAllDividends(transactions),
+    transactions,
+    { "2022-01": 100, "2023-06": 104 }
+  );
+
+  it("lists each sale in shekels with its CPI-adjusted cost", () => {
+    const [line] = report.lines;
+    const inflation = 4040 * 0.04;
+
+    expect(report.year).toBe(2023);
+    expect(line.security).toBe("TEST CORP (TEST)");
+    expect(line.nominalCostIls).toBe(4040);
+    expect(line.proceedsIls).toBe(5960);
+    expect(line.adjustedCostIls).toBeCloseTo(4040 + inflation);
+    expect(line.realGainIls).toBeCloseTo(1920 - inflation);
+    expect(report.totals.taxIls).toBeCloseTo((1920 - inflation) * 0.25);
+  });
+
+  it("summarizes dividend withholding and lays out one sheet per year plus a summary", () => {
+    expect(report.dividends.grossUsd).toBe(10);
+    expect(report.dividends.ratePercent).toBe(25);
+    expect(form1325Sheets([report]).map((sheet) => sheet.name)).toEqual(["1325 - 2023", "סיכום"]);
+  });
+});
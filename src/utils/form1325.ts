@@ -0,0 +1,197 @@
+import { CAPITAL_GAINS_TAX_RATE, RealizedSale, Transaction } from "../types";
+import type { DividendEntry } from "./calculations";
+import { CpiSeries, realGain } from "./cpi";
+import { FALLBACK_USD_ILS, impliedUsdIlsRates, rateAt } from "./fx";
+import type { ExcelSheet } from "./exportExcel";
+
+// Annual capital-gains report laid out like the Israeli 1325 appendix: one
+// line per sale in shekels, with the cost indexed by CPI from the purchase
+// month to the sale month. Purchase expenses are part of the cost and sale
+// expenses come off the proceeds, as the form expects.
+
+export interface Form1325Line {
+  security: string; // name as IBI lists it, with the ticker
+  account: string;
+  quantity: number;
+  purchaseDate: string; // earliest lot the sale closed
+  saleDate: string;
+  nominalCostIls: number;
+  adjustedCostIls: number; // nominal cost + inflationary amount
+  proceedsIls: number; // net of sale expenses
+  nominalGainIls: number;
+  inflationIls: number; // exempt inflationary amount
+  realGainIls: number; // negative for a loss
+  indexed: boolean; // false: no CPI for a lot's months, cost left nominal
+}
+
+export interface Form1325Totals {
+  sales: number;
+  proceedsIls: number;
+  nominalCostIls: number;
+  adjustedCostIls: number;
+  realGainsIls: number;
+  realLossesIls: number; // negative
+  netRealGainIls: number;
+  taxIls: number; // 25% of a positive net
+  unindexedSales: number;
+}
+
+export interface DividendWithholding {
+  grossUsd: number;
+  withheldUsd: number;
+  grossIls: number; // at each payment date's rate
+  withheldIls: number;
+  topUpUsd: number; // Israeli tax due where less than 25% was withheld
+  topUpIls: number;
+  ratePercent: number; // withheld / gross
+}
+
+export interface Form1325Report {
+  year: number;
+  lines: Form1325Line[];
+  totals: Form1325Totals;
+  dividends: DividendWithholding;
+}
+
+// Display name per symbol, from the trade rows ("APPLE INC (AAPL)").
+export const securityNames = (transactions: Transaction[]): Map<string, string> => {
+  const names = new Map<string, string>();
+  transactions.forEach((t) => {
+    if (t.delta !== 0 && t.name && !names.has(t.symbol)) names.set(t.symbol, `${t.name} (${t.symbol})`);
+  });
+  return names;
+};
+
+export const form1325Line = (
+  sale: RealizedSale,
+  names: Map<string, string>,
+  cpi: CpiSeries
+): Form1325Line => {
+  const real = realGain(sale, cpi);
+  const buyFeesIls = sale.lots.reduce((s, lot) => s + lot.buyFeesIls, 0);
+  const nominalCostIls = sale.costBasisIls + buyFeesIls;
+  return {
+    security: names.get(sale.symbol) ?? sale.symbol,
+    account: sale.account,
+    quantity: sale.quantity,
+    purchaseDate: sale.acquiredDate,
+    saleDate: sale.date,
+    nominalCostIls,
+    adjustedCostIls: nominalCostIls + real.inflationIls,
+    proceedsIls: sale.proceedsIls - (sale.totalFeesIls - buyFeesIls),
+    nominalGainIls: sale.netFromTradingIls,
+    inflationIls: real.inflationIls,
+    realGainIls: real.realNetFromTradingIls,
+    indexed: real.indexed,
+  };
+};
+
+const totalsOf = (lines: Form1325Line[]): Form1325Totals => {
+  const realGainsIls = lines.filter((l) => l.realGainIls > 0).reduce((s, l) => s + l.realGainIls, 0);
+  const realLossesIls = lines.filter((l) => l.realGainIls < 0).reduce((s, l) => s + l.realGainIls, 0);
+  const netRealGainIls = realGainsIls + realLossesIls;
+  return {
+    sales: lines.length,
+    proceedsIls: lines.reduce((s, l) => s + l.proceedsIls, 0),
+    nominalCostIls: lines.reduce((s, l) => s + l.nominalCostIls, 0),
+    adjustedCostIls: lines.reduce((s, l) => s + l.adjustedCostIls, 0),
+    realGainsIls,
+    realLossesIls,
+    netRealGainIls,
+    taxIls: Math.max(0, netRealGainIls) * CAPITAL_GAINS_TAX_RATE,
+    unindexedSales: lines.filter((l) => !l.indexed).length,
+  };
+};
+
+const withholdingOf = (
+  dividends: DividendEntry[],
+  rateFor: (timestamp: number) => number
+): DividendWithholding => {
+  const grossUsd = dividends.reduce((s, d) => s + d.dividend, 0);
+  const withheldUsd = dividends.reduce((s, d) => s + d.tax, 0);
+  return {
+    grossUsd,
+    withheldUsd,
+    grossIls: dividends.reduce((s, d) => s + d.dividend * rateFor(d.timestamp), 0),
+    withheldIls: dividends.reduce((s, d) => s + d.tax * rateFor(d.timestamp), 0),
+    topUpUsd: dividends.reduce((s, d) => s + d.topUpTax, 0),
+    topUpIls: dividends.reduce((s, d) => s + d.topUpTax * rateFor(d.timestamp), 0),
+    ratePercent: grossUsd > 0 ? (withheldUsd / grossUsd) * 100 : 0,
+  };
+};
+
+// One report per tax year that has a sale or a dividend, oldest first.
+export const build1325Reports = (
+  sales: RealizedSale[],
+  dividends: DividendEntry[],
+  transactions: Transaction[],
+  cpi: CpiSeries,
+  fallbackRate = FALLBACK_USD_ILS
+): Form1325Report[] => {
+  const names = securityNames(transactions);
+  const series = impliedUsdIlsRates(transactions);
+  const rateFor = (timestamp: number) => rateAt(series, timestamp, fallbackRate);
+  const yearOf = (timestamp: number) => new Date(timestamp).getFullYear();
+  const years = Array.from(
+    new Set([...sales.map((s) => yearOf(s.timestamp)), ...dividends.map((d) => yearOf(d.timestamp))])
+  ).sort((a, b) => a - b);
+
+  return years.map((year) => {
+    const lines = sales
+      .filter((s) => yearOf(s.timestamp) === year)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map((s) => form1325Line(s, names, cpi));
+    return {
+      year,
+      lines,
+      totals: totalsOf(lines),
+      dividends: withholdingOf(dividends.filter((d) => yearOf(d.timestamp) === year), rateFor),
+    };
+  });
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Workbook layout: a sheet of sale lines per year, then one summary sheet with
+// each year's totals block and dividend withholding.
+export const form1325Sheets = (reports: Form1325Report[]): ExcelSheet[] => [
+  ...reports.map((report) => ({
+    name: `1325 - ${report.year}`,
+    rows: report.lines.map((line, i) => ({
+      "מס׳": i + 1,
+      "שם נייר": line.security,
+      חשבון: line.account,
+      כמות: line.quantity,
+      "תאריך רכישה": line.purchaseDate,
+      "תאריך מכירה": line.saleDate,
+      "מחיר מקורי (₪)": round2(line.nominalCostIls),
+      "מחיר מתואם (₪)": round2(line.adjustedCostIls),
+      "תמורה (₪)": round2(line.proceedsIls),
+      "רווח נומינלי (₪)": round2(line.nominalGainIls),
+      "סכום אינפלציוני (₪)": round2(line.inflationIls),
+      "רווח/הפסד ריאלי (₪)": round2(line.realGainIls),
+      הצמדה: line.indexed ? "" : "חסר מדד — לא הוצמד",
+    })),
+  })),
+  {
+    name: "סיכום",
+    rows: reports.map(({ year, totals, dividends }) => ({
+      "שנת מס": year,
+      "מספר מכירות": totals.sales,
+      "סך תמורה (₪)": round2(totals.proceedsIls),
+      "סך מחיר מקורי (₪)": round2(totals.nominalCostIls),
+      "סך מחיר מתואם (₪)": round2(totals.adjustedCostIls),
+      "רווחי הון ריאליים (₪)": round2(totals.realGainsIls),
+      "הפסדי הון (₪)": round2(totals.realLossesIls),
+      "רווח ריאלי נטו (₪)": round2(totals.netRealGainIls),
+      "מס משוער 25% (₪)": round2(totals.taxIls),
+      "מכירות ללא מדד": totals.unindexedSales,
+      "דיבידנד ברוטו ($)": round2(dividends.grossUsd),
+      "מס שנוכה במקור ($)": round2(dividends.withheldUsd),
+      "דיבידנד ברוטו (₪)": round2(dividends.grossIls),
+      "מס שנוכה במקור (₪)": round2(dividends.withheldIls),
+      "שיעור ניכוי (%)": round2(dividends.ratePercent),
+      "השלמת מס בישראל (₪)": round2(dividends.topUpIls),
+    })),
+  },
+];
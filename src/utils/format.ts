@@ -1,3 +1,5 @@
+import type { TradeCurrency } from "../types";
+
 // Shared number/currency/percent formatting. Matches the formatNumber logic
 // previously duplicated across components: whole numbers print without
 // decimals, others with exactly two.
@@ -16,3 +18,12 @@ export const formatSignedUsd = (value: number): string =>
 
 export const formatPercent = (value: number, signed = true): string =>
   `${signed && value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+export const formatIls = (value: number): string => `₪${formatNumber(value)}`;
+
+// Amount in a holding's own currency.
+export const formatMoney = (value: number, currency: TradeCurrency): string =>
+  currency === "ILS" ? formatIls(value) : formatUsd(value);
+
+export const formatSignedMoney = (value: number, currency: TradeCurrency): string =>
+  `${value >= 0 ? "+" : "-"}${formatMoney(Math.abs(value), currency)}`;
@@ -0,0 +1,73 @@
+import { ACTION, Transaction } from "../types";
+import { isTaseSecurity, toIlsPrice } from "./securities";
+
+// USD/ILS handling. The app reports in USD; TASE trades are converted at the
+// rate IBI itself applied around the trade date, implied by USD trades that
+// carry both 'תמורה במט"ח' and "תמורה בשקלים".
+
+// Only used when the export has no USD trade to imply a rate from and the
+// live rate hasn't loaded.
+export const FALLBACK_USD_ILS = 3.6;
+
+export interface FxPoint {
+  timestamp: number;
+  rate: number; // ILS per USD
+}
+
+const isPlausibleRate = (rate: number) => rate > 2 && rate < 6;
+
+export const impliedUsdIlsRates = (transactions: Transaction[]): FxPoint[] =>
+  transactions
+    .filter((t) => (t.action === ACTION.BUY_FX || t.action === ACTION.SELL_FX) && t.timestamp > 0)
+    .filter((t) => t.proceedsFx !== 0 && t.proceedsIls !== 0)
+    .map((t) => ({ timestamp: t.timestamp, rate: Math.abs(t.proceedsIls / t.proceedsFx) }))
+    .filter((point) => isPlausibleRate(point.rate))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// Rate on or before `timestamp` (the first known rate for earlier dates).
+export const rateAt = (series: FxPoint[], timestamp: number, fallback: number): number => {
+  if (series.length === 0) return fallback;
+  let rate = series[0].rate;
+  for (const point of series) {
+    if (point.timestamp > timestamp) break;
+    rate = point.rate;
+  }
+  return rate;
+};
+
+export const latestRate = (series: FxPoint[]): number | null =>
+  series.length > 0 ? series[series.length - 1].rate : null;
+
+// ILS per USD for one trade: the rate stamped by convertTaseTrades, else the
+// one its own proceeds imply, else `fallback`.
+export const tradeIlsRate = (t: Transaction, fallback = FALLBACK_USD_ILS): number => {
+  if (t.fxRate) return t.fxRate;
+  if (t.proceedsFx !== 0 && t.proceedsIls !== 0) {
+    const rate = Math.abs(t.proceedsIls / t.proceedsFx);
+    if (isPlausibleRate(rate)) return rate;
+  }
+  return fallback;
+};
+
+// Convert TASE trades to USD so the lot engine and every aggregate keep a
+// single reporting currency. The ILS price and rate stay on the transaction.
+// USD trades get their rate stamped too, for the shekel tax track.
+export const convertTaseTrades = (transactions: Transaction[], fallbackRate: number): Transaction[] => {
+  const series = impliedUsdIlsRates(transactions);
+  return transactions.map((t) => {
+    if (t.delta === 0) return t;
+    if (!isTaseSecurity(t.symbol)) {
+      return { ...t, fxRate: tradeIlsRate(t, rateAt(series, t.timestamp, fallbackRate)) };
+    }
+    const rate = rateAt(series, t.timestamp, fallbackRate);
+    const nativePrice = toIlsPrice(t.price, t.quantity, t.proceedsIls);
+    return {
+      ...t,
+      price: nativePrice / rate,
+      fee: t.fee / rate,
+      proceedsFx: t.proceedsIls / rate,
+      fxRate: rate,
+      nativePrice,
+    };
+  });
+};
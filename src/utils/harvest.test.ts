@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ACCOUNT, Position } from "../types";
+import { harvestCandidates, harvestTaxSaved } from "./harvest";
+
+const position = (symbol: string, costBasis: number, marketValue?: number): Position => ({
+  symbol,
+  accounts: [DEFAULT_ACCOUNT],
+  quantity: 10,
+  avgCost: costBasis / 10,
+  costBasis,
+  buyFees: 0,
+  firstBuyTimestamp: 0,
+  firstBuyDate: "",
+  holdingDays: 0,
+  currency: "USD",
+  marketValue,
+  unrealizedPnL: marketValue === undefined ? undefined : marketValue - costBasis,
+});
+
+describe("tax-loss harvesting", () => {
+  it("lists priced losing positions with the tax each would save after fees", () => {
+    const candidates = harvestCandidates(
+      [position("WIN", 1000, 1500), position("LOSS", 1000, 600), position("NOPRICE", 1000)],
+      1000,
+      0.01
+    );
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].symbol).toBe("LOSS");
+    expect(candidates[0].sellFee).toBe(6);
+    expect(candidates[0].harvestableLoss).toBe(-406);
+    expect(candidates[0].taxSaved).toBe(101.5);
+    expect(candidates[0].netBenefit).toBe(95.5);
+  });
+
+  it("counts the position's buy fees against the loss", () => {
+    const [candidate] = harvestCandidates([{ ...position("LOSS", 1000, 990), buyFees: 20 }], 1000, 0.01);
+
+    expect(candidate.harvestableLoss).toBeCloseTo(-39.9);
+    expect(candidate.taxSaved).toBeCloseTo(9.975);
+    expect(harvestCandidates([{ ...position("EVEN", 1000, 1005), buyFees: 10 }], 1000, 0)).toHaveLength(1);
+  });
+
+  it("saves nothing beyond the year's realized gains", () => {
+    expect(harvestTaxSaved(200, -500)).toBe(50);
+    expect(harvestTaxSaved(-100, -500)).toBe(0);
+  });
+});
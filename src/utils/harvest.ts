@@ -0,0 +1,56 @@
+import { CAPITAL_GAINS_TAX_RATE, Position, RealizedSale } from "../types";
+
+// Tax-loss harvesting: selling an open position at a loss before year end
+// offsets this year's realized gains. Israeli filing nets gains against losses
+// per tax year, so the saving is the drop in tax on the year's net.
+
+export interface HarvestCandidate {
+  symbol: string;
+  quantity: number;
+  marketValue: number;
+  unrealizedPnL: number;
+  buyFees: number; // count against the sale, as the lot engine books them
+  sellFee: number; // estimated from past sells
+  harvestableLoss: number; // unrealizedPnL - buyFees - sellFee, negative
+  taxSaved: number; // if sold on its own
+  netBenefit: number; // taxSaved - sellFee
+}
+
+// Sell fees as a share of sale proceeds across the realized history.
+export const sellFeeRate = (sales: RealizedSale[]): number => {
+  const proceeds = sales.reduce((s, r) => s + r.proceeds, 0);
+  const fees = sales.reduce((s, r) => s + r.sellFee, 0);
+  return proceeds > 0 ? fees / proceeds : 0;
+};
+
+// Tax no longer due on `ytdNet` once `harvestedLoss` (negative) is realized.
+export const harvestTaxSaved = (ytdNet: number, harvestedLoss: number): number =>
+  (Math.max(0, ytdNet) - Math.max(0, ytdNet + harvestedLoss)) * CAPITAL_GAINS_TAX_RATE;
+
+// Priced open positions below cost including buy fees, largest loss first.
+export const harvestCandidates = (
+  positions: Position[],
+  ytdNet: number,
+  feeRate: number
+): HarvestCandidate[] =>
+  positions
+    .filter((p) => p.marketValue !== undefined && (p.unrealizedPnL ?? 0) - p.buyFees < 0)
+    .map((p) => {
+      const marketValue = p.marketValue ?? 0;
+      const unrealizedPnL = p.unrealizedPnL ?? 0;
+      const sellFee = marketValue * feeRate;
+      const harvestableLoss = unrealizedPnL - p.buyFees - sellFee;
+      const taxSaved = harvestTaxSaved(ytdNet, harvestableLoss);
+      return {
+        symbol: p.symbol,
+        quantity: p.quantity,
+        marketValue,
+        unrealizedPnL,
+        buyFees: p.buyFees,
+        sellFee,
+        harvestableLoss,
+        taxSaved,
+        netBenefit: taxSaved - sellFee,
+      };
+    })
+    .sort((a, b) => a.harvestableLoss - b.harvestableLoss);
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { IBI_COLUMNS } from "../types";
+import { parseWorkbook } from "./ibiParser";
+
+const headers = IBI_COLUMNS.filter((column) => column !== "אומדן מס רווחי הון");
+const line = (values: Partial<Record<(typeof headers)[number], string | number>>) =>
+  headers.map((column) => values[column] ?? "");
+
+const workbookOf = (rows: unknown[][]) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "2026");
+  return workbook;
+};
+
+describe("parser diagnostics", () => {
+  it("reports missing columns and unknown headers per sheet", () => {
+    const { rows, sheets } = parseWorkbook(
+      workbookOf([[...headers, "עמודה חדשה"], line({ "תאריך": "01/01/2026", "סוג פעולה": "קניה חול מטח" })]),
+      XLSX
+    );
+
+    expect(rows).toHaveLength(1);
+    expect(sheets[0]).toMatchObject({
+      sheetName: "2026",
+      rowCount: 1,
+      missingColumns: ["אומדן מס רווחי הון"],
+      unknownHeaders: ["עמודה חדשה"],
+    });
+    expect(sheets[0].matchedColumns).toHaveLength(IBI_COLUMNS.length - 1);
+  });
+
+  it("counts unknown actions and locates unparsable cells by sheet row", () => {
+    const { sheets } = parseWorkbook(
+      workbookOf([
+        headers,
+        line({ "תאריך": "01/01/2026", "סוג פעולה": "קניה חול מטח", "כמות": "1,000" }),
+        line({ "תאריך": "32/13/2026", "סוג פעולה": "המרת אגח" }),
+        line({ "תאריך": "03/01/2026", "סוג פעולה": "המרת אגח", "שער ביצוע": 12.5 }),
+      ]),
+      XLSX
+    );
+    const [sheet] = sheets;
+
+    expect(sheet.unknownActions).toEqual([{ action: "המרת אגח", count: 2, firstRow: 3 }]);
+    expect(sheet.invalidNumbers).toEqual([{ row: 2, column: "כמות", value: "1,000" }]);
+    expect(sheet.invalidDates.map((issue) => issue.row)).toEqual([3]);
+  });
+});
@@ -1,6 +1,16 @@
 import type { WorkBook, WorkSheet } from "xlsx";
-import { IBI_COLUMNS, IbiColumn, RawRow, Transaction, BUY_ACTIONS, SELL_ACTIONS } from "../types";
+import {
+  ACTION,
+  DEFAULT_ACCOUNT,
+  IBI_COLUMNS,
+  IbiColumn,
+  RawRow,
+  Transaction,
+} from "../types";
 import { formatDateLabel, parseDateToTimestamp, parseDateYear } from "./dates";
+import { classifySecurity, tradeSide } from "./securities";
+import { isSplitAction } from "./corporateActions";
+import { DEFAULT_TICKER_ALIASES, resolveSymbol, symbolNames, TickerAliasMap } from "./aliases";
 
 type XlsxModule = typeof import("xlsx");
 
@@ -13,10 +23,118 @@ const isRowEmpty = (row: unknown[]) => row.every((cell) => normalizeHeader(cell)
 
 const num = (value: string): number => parseFloat(String(value ?? "").trim()) || 0;
 
+const col = (row: RawRow, column: IbiColumn) => String(row[column] ?? "").trim();
+
+// Columns `num()` reads; a non-empty value that isn't a plain number there
+// silently becomes 0 (or, for "1,234", 1).
+const NUMERIC_COLUMNS: IbiColumn[] = [
+  "כמות",
+  "שער ביצוע",
+  "עמלת פעולה",
+  "עמלות נלוות",
+  'תמורה במט"ח',
+  "תמורה בשקלים",
+  "יתרה שקלית",
+  "אומדן מס רווחי הון",
+];
+
+const KNOWN_ACTIONS: ReadonlySet<string> = new Set(Object.values(ACTION));
+
+// A cell the parser could not read. `row` is the 1-based row in the sheet.
+export interface CellIssue {
+  row: number;
+  column: IbiColumn;
+  value: string;
+}
+
+export interface UnknownAction {
+  action: string;
+  count: number;
+  firstRow: number;
+}
+
+// What one sheet looked like to the parser — enough to notice when IBI
+// renames a column or adds an action type the calculations don't know.
+export interface SheetDiagnostics {
+  sheetName: string;
+  rowCount: number;
+  matchedColumns: IbiColumn[];
+  missingColumns: IbiColumn[];
+  unknownHeaders: string[];
+  unknownActions: UnknownAction[];
+  invalidDates: CellIssue[];
+  invalidNumbers: CellIssue[];
+}
+
+export interface ParsedWorkbook {
+  rows: RawRow[];
+  sheets: SheetDiagnostics[];
+}
+
+export const sheetHasIssues = (sheet: SheetDiagnostics): boolean =>
+  sheet.missingColumns.length > 0 ||
+  sheet.unknownActions.length > 0 ||
+  sheet.invalidDates.length > 0 ||
+  sheet.invalidNumbers.length > 0;
+
+// `parseDateToTimestamp` rolls "32/13/2026" over into 2027 rather than
+// rejecting it, so a date is only valid if it reads back the same.
+const isValidDate = (value: string): boolean => {
+  const timestamp = parseDateToTimestamp(value);
+  if (timestamp === 0) return false;
+  const date = new Date(timestamp);
+  const label = [date.getDate(), date.getMonth() + 1]
+    .map((part) => String(part).padStart(2, "0"))
+    .concat(String(date.getFullYear()))
+    .join("/");
+  return label === formatDateLabel(value);
+};
+
+// Row-level checks: action types outside ACTION (split rows are handled by
+// utils/corporateActions), dates `parseDateToTimestamp`
+// rejects and numbers `num()` would misread. `rowNumbers[i]` is the sheet row
+// of `rows[i]`.
+export const diagnoseRows = (
+  rows: RawRow[],
+  rowNumbers: number[]
+): Pick<SheetDiagnostics, "unknownActions" | "invalidDates" | "invalidNumbers"> => {
+  const unknown = new Map<string, UnknownAction>();
+  const invalidDates: CellIssue[] = [];
+  const invalidNumbers: CellIssue[] = [];
+
+  rows.forEach((row, i) => {
+    const rowNumber = rowNumbers[i] ?? i + 1;
+    const action = col(row, "סוג פעולה");
+    if (action && !KNOWN_ACTIONS.has(action) && !isSplitAction(action)) {
+      const entry = unknown.get(action);
+      if (entry) entry.count += 1;
+      else unknown.set(action, { action, count: 1, firstRow: rowNumber });
+    }
+
+    const date = col(row, "תאריך");
+    if (!isValidDate(date)) {
+      invalidDates.push({ row: rowNumber, column: "תאריך", value: date });
+    }
+
+    NUMERIC_COLUMNS.forEach((column) => {
+      const value = col(row, column);
+      if (value !== "" && !Number.isFinite(Number(value))) {
+        invalidNumbers.push({ row: rowNumber, column, value });
+      }
+    });
+  });
+
+  return {
+    unknownActions: [...unknown.values()].sort((a, b) => b.count - a.count),
+    invalidDates,
+    invalidNumbers,
+  };
+};
+
 // Read every data row of one sheet into RawRow records keyed by IBI_COLUMNS.
-const readSheetRows = (sheet: WorkSheet, XLSX: XlsxModule): RawRow[] => {
-  const rawRows = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: "" }) as unknown[][];
-  if (rawRows.length < 2) return [];
+const readSheetRows = (sheet: WorkSheet, sheetName: string, XLSX: XlsxModule): ParsedWorkbook => {
+  const rawRows = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: "", blankrows: true }) as unknown[][];
+  const firstRow = sheet["!ref"] ? XLSX.utils.decode_range(sheet["!ref"]).s.r + 1 : 1;
 
   const headerRow = rawRows[0] ?? [];
   const headerIndex = new Map<string, number>();
@@ -24,9 +142,22 @@ const readSheetRows = (sheet: WorkSheet, XLSX: XlsxModule): RawRow[] => {
     const key = normalizeHeader(cell);
     if (key) headerIndex.set(key, index);
   });
-  if (headerIndex.size === 0) return [];
+
+  const knownHeaders = new Set<string>(IBI_COLUMNS.map((column) => normalizeHeader(column)));
+  const diagnostics: SheetDiagnostics = {
+    sheetName,
+    rowCount: 0,
+    matchedColumns: IBI_COLUMNS.filter((column) => headerIndex.has(normalizeHeader(column))),
+    missingColumns: IBI_COLUMNS.filter((column) => !headerIndex.has(normalizeHeader(column))),
+    unknownHeaders: [...headerIndex.keys()].filter((header) => !knownHeaders.has(header)),
+    unknownActions: [],
+    invalidDates: [],
+    invalidNumbers: [],
+  };
+  if (rawRows.length < 2 || headerIndex.size === 0) return { rows: [], sheets: [diagnostics] };
 
   const rows: RawRow[] = [];
+  const rowNumbers: number[] = [];
   for (let i = 1; i < rawRows.length; i += 1) {
     const rawRow = rawRows[i] ?? [];
     if (isRowEmpty(rawRow)) continue;
@@ -39,44 +170,56 @@ const readSheetRows = (sheet: WorkSheet, XLSX: XlsxModule): RawRow[] => {
     }, {} as RawRow);
 
     rows.push(row);
+    rowNumbers.push(firstRow + i);
   }
 
-  return rows;
+  return {
+    rows,
+    sheets: [{ ...diagnostics, rowCount: rows.length, ...diagnoseRows(rows, rowNumbers) }],
+  };
 };
 
-// Parse an entire workbook (all sheets merged) into RawRows.
-export const parseWorkbook = (workbook: WorkBook, XLSX: XlsxModule): RawRow[] => {
-  const rows: RawRow[] = [];
+// Parse an entire workbook (all sheets merged) into RawRows, with a
+// diagnostics entry per sheet.
+export const parseWorkbook = (workbook: WorkBook, XLSX: XlsxModule): ParsedWorkbook => {
+  const result: ParsedWorkbook = { rows: [], sheets: [] };
   workbook.SheetNames.forEach((name) => {
     const sheet = workbook.Sheets[name];
-    if (sheet) rows.push(...readSheetRows(sheet, XLSX));
+    if (!sheet) return;
+    const parsed = readSheetRows(sheet, name, XLSX);
+    result.rows.push(...parsed.rows);
+    result.sheets.push(...parsed.sheets);
   });
-  return rows;
+  return result;
 };
 
 // Parse an XLSX ArrayBuffer into RawRows. Useful for both uploaded files and
 // dev-data URLs without duplicating XLSX.read call sites.
-export const parseArrayBuffer = async (buffer: ArrayBuffer): Promise<RawRow[]> => {
+export const parseArrayBuffer = async (buffer: ArrayBuffer): Promise<ParsedWorkbook> => {
   const XLSX = await import("xlsx");
   const workbook = XLSX.read(buffer, { type: "array" });
   return parseWorkbook(workbook, XLSX);
 };
 
 // Parse one uploaded file into RawRows.
-export const parseFile = async (file: File): Promise<RawRow[]> => {
+export const parseFile = async (file: File): Promise<ParsedWorkbook> => {
   const buffer = await file.arrayBuffer();
   return await parseArrayBuffer(buffer);
 };
 
-const col = (row: RawRow, column: IbiColumn) => String(row[column] ?? "").trim();
-
-// Normalize a raw row into a typed Transaction.
-export const toTransaction = (row: RawRow): Transaction => {
+// Normalize a raw row into a typed Transaction. Renamed tickers are filed
+// under their current symbol.
+export const toTransaction = (
+  row: RawRow,
+  aliases: TickerAliasMap = DEFAULT_TICKER_ALIASES,
+  account: string = DEFAULT_ACCOUNT,
+  file?: number
+): Transaction => {
   const action = col(row, "סוג פעולה");
   const dateValue = col(row, "תאריך");
   const quantity = Math.abs(num(row["כמות"]));
-  const isBuy = BUY_ACTIONS.includes(action);
-  const isSell = SELL_ACTIONS.includes(action);
+  const symbol = resolveSymbol(col(row, "מס' נייר / סימבול"), aliases);
+  const side = tradeSide(action, symbol);
 
   return {
     date: formatDateLabel(dateValue),
@@ -84,28 +227,45 @@ export const toTransaction = (row: RawRow): Transaction => {
     year: parseDateYear(dateValue),
     action,
     name: col(row, "שם נייר"),
-    symbol: col(row, "מס' נייר / סימבול"),
+    symbol,
     quantity,
-    delta: isBuy ? quantity : isSell ? -quantity : 0,
+    delta: side === "buy" ? quantity : side === "sell" ? -quantity : 0,
     price: num(row["שער ביצוע"]),
     currency: col(row, "מטבע"),
     fee: Math.abs(num(row["עמלת פעולה"])),
     proceedsIls: num(row["תמורה בשקלים"]),
     proceedsFx: num(row['תמורה במט"ח']),
+    taxEstimateIls: num(row["אומדן מס רווחי הון"]),
+    balanceIls: col(row, "יתרה שקלית") === "" ? undefined : num(row["יתרה שקלית"]),
+    account,
+    file,
     raw: row,
   };
 };
 
-export const toTransactions = (rows: RawRow[]): Transaction[] => rows.map(toTransaction);
+// `accounts[i]` is the account label of `rows[i]` and `files[i]` the upload
+// it came from.
+export const toTransactions = (
+  rows: RawRow[],
+  aliases: TickerAliasMap = DEFAULT_TICKER_ALIASES,
+  accounts: string[] = [],
+  files: number[] = []
+): Transaction[] =>
+  rows.map((row, i) => toTransaction(row, aliases, accounts[i] ?? DEFAULT_ACCOUNT, files[i]));
 
-// Real, tradable stock symbols are alphabetic tickers (numeric values are
-// pseudo-tickers like 900 / 9992983 / 99028).
-export const isStockSymbol = (symbol: string): boolean =>
-  Boolean(symbol) && !/^\d+$/.test(symbol);
+// Real, tradable securities: alphabetic US tickers and TASE security numbers
+// (not pseudo-tickers like 900 / 9992983 / 99028).
+export const isStockSymbol = (symbol: string): boolean => classifySecurity(symbol) !== "special";
 
 // Dividend / dividend-tax rows reference the stock in "שם נייר" as e.g.
-// "דיב/   GOOGL US". Match those to a ticker.
-export const matchesDividendSymbol = (name: string, symbol: string): boolean =>
-  new RegExp(`\\/\\s*${symbol}\\s+US`, "i").test(name);
+// "דיב/   GOOGL US". Match those to a ticker, including under its old names.
+export const matchesDividendSymbol = (
+  name: string,
+  symbol: string,
+  aliases: TickerAliasMap = DEFAULT_TICKER_ALIASES
+): boolean => {
+  const ticker = name.match(/\/\s*(\S+)\s+US/i)?.[1]?.toUpperCase();
+  return ticker !== undefined && symbolNames(symbol, aliases).some((candidate) => candidate.toUpperCase() === ticker);
+};
 
 export { num };
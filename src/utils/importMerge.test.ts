@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { IBI_COLUMNS, RawRow } from "../types";
+import {
+  accountNames,
+  countRowsPerFile,
+  mergeImportFiles,
+  removeImportFile,
+  renameAccount,
+  resolveMerge,
+  rowAccounts,
+  rowFingerprint,
+} from "./importMerge";
+
+const row = (overrides: Partial<RawRow>): RawRow => ({
+  ...(Object.fromEntries(IBI_COLUMNS.map((column) => [column, ""])) as RawRow),
+  "תאריך": "05/03/2025",
+  "סוג פעולה": "קניה חול מטח",
+  "מס' נייר / סימבול": "AAPL",
+  "כמות": "10",
+  "שער ביצוע": "180",
+  'תמורה במט"ח': "-1800",
+  "תמורה בשקלים": "-6500",
+  ...overrides,
+});
+
+describe("import merge", () => {
+  it("fingerprints the same transaction identically across export formats", () => {
+    expect(rowFingerprint(row({ "תאריך": "45721" }))).toBe(rowFingerprint(row({})));
+    expect(rowFingerprint(row({ "כמות": "10.0" }))).toBe(rowFingerprint(row({})));
+  });
+
+  it("drops rows an earlier file already contributed and reports them per file", () => {
+    const sell = row({ "סוג פעולה": "מכירה חול מטח", "כמות": "5" });
+    const result = mergeImportFiles([
+      { fileName: "data_2025.xlsx", rows: [row({}), sell] },
+      { fileName: "full.xlsx", rows: [row({ "מס' נייר / סימבול": "MSFT" }), row({}), sell] },
+    ]);
+
+    expect(result.rows).toHaveLength(3);
+    expect(result.stats[1]).toMatchObject({ fileName: "full.xlsx", total: 3, added: 1, duplicates: 2 });
+    expect(result.ambiguous).toHaveLength(0);
+  });
+
+  it("keeps identical trades within one file", () => {
+    const result = mergeImportFiles([
+      { fileName: "a.xlsx", rows: [row({}), row({})] },
+      { fileName: "b.xlsx", rows: [row({}), row({}), row({})] },
+    ]);
+
+    expect(result.rows).toHaveLength(3);
+    expect(result.stats[1].duplicates).toBe(2);
+  });
+
+  it("holds near-duplicates for review instead of dropping them", () => {
+    const result = mergeImportFiles([
+      { fileName: "a.xlsx", rows: [row({})] },
+      { fileName: "b.xlsx", rows: [row({ "תמורה בשקלים": "-6501" })] },
+    ]);
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.ambiguous).toHaveLength(1);
+    expect(result.ambiguous[0].differences).toEqual(["תמורה בשקלים"]);
+    expect(resolveMerge(result, new Set()).rows).toHaveLength(1);
+    expect(resolveMerge(result, new Set([result.ambiguous[0].id])).rows).toHaveLength(2);
+  });
+
+  it("pairs reordered same-day near-duplicates with their closest row", () => {
+    const first = row({});
+    const second = row({ "שער ביצוע": "190", 'תמורה במט"ח': "-1900", "תמורה בשקלים": "-6900" });
+    const result = mergeImportFiles([
+      { fileName: "a.xlsx", rows: [first, second] },
+      // re-export lists the day bottom-up and re-rounds the shekel proceeds
+      {
+        fileName: "b.xlsx",
+        rows: [row({ ...second, "תמורה בשקלים": "-6901" }), row({ "תמורה בשקלים": "-6501" })],
+      },
+    ]);
+
+    expect(result.ambiguous.map((match) => match.existingIndex)).toEqual([1, 0]);
+    expect(result.ambiguous.every((match) => match.differences.length === 1)).toBe(true);
+  });
+
+  it("puts a kept near-duplicate back in its place among its file's rows", () => {
+    const buy = row({});
+    const sell = row({ "סוג פעולה": "מכירה חול מטח", "כמות": "5" });
+    const result = mergeImportFiles([
+      { fileName: "a.xlsx", rows: [buy] },
+      { fileName: "b.xlsx", rows: [sell, row({ "תמורה בשקלים": "-6501" }), row({ "מס' נייר / סימבול": "MSFT" })] },
+    ]);
+    const merged = resolveMerge(result, new Set([result.ambiguous[0].id]));
+
+    expect(merged.rows.map((r) => [r["מס' נייר / סימבול"], r["תמורה בשקלים"]])).toEqual([
+      ["AAPL", "-6500"],
+      ["AAPL", "-6500"],
+      ["AAPL", "-6501"],
+      ["MSFT", "-6500"],
+    ]);
+    expect(merged.rowFiles).toEqual([[0], [1], [1], [1]]);
+  });
+
+  it("lets an exact copy claim its row before a near-duplicate does", () => {
+    const result = mergeImportFiles([
+      { fileName: "a.xlsx", rows: [row({})] },
+      { fileName: "b.xlsx", rows: [row({ "תמורה בשקלים": "-6501" }), row({})] },
+    ]);
+
+    expect(result.stats[1]).toMatchObject({ duplicates: 1, ambiguous: 0, added: 1 });
+  });
+
+  it("appends new files to an existing dataset without re-adding its rows", () => {
+    const base = resolveMerge(mergeImportFiles([{ fileName: "2024.xlsx", rows: [row({})] }]), new Set());
+    const result = mergeImportFiles(
+      [{ fileName: "2025.xlsx", rows: [row({}), row({ "מס' נייר / סימבול": "MSFT" })] }],
+      base
+    );
+
+    expect(result.baseRowCount).toBe(1);
+    expect(result.fileNames).toEqual(["2024.xlsx", "2025.xlsx"]);
+    expect(result.rows).toHaveLength(2);
+    expect(result.rowFiles).toEqual([[0, 1], [1]]);
+  });
+
+  it("removes a file but keeps rows another file also contained", () => {
+    const dataset = resolveMerge(
+      mergeImportFiles([
+        { fileName: "a.xlsx", rows: [row({}), row({ "מס' נייר / סימבול": "MSFT" })] },
+        { fileName: "b.xlsx", rows: [row({}), row({ "מס' נייר / סימבול": "NVDA" })] },
+      ]),
+      new Set()
+    );
+    expect(countRowsPerFile(dataset)).toEqual([2, 2]);
+
+    const remaining = removeImportFile(dataset, 0);
+    expect(remaining.fileNames).toEqual(["b.xlsx"]);
+    expect(remaining.rows.map((r) => r["מס' נייר / סימבול"])).toEqual(["AAPL", "NVDA"]);
+    expect(remaining.rowFiles).toEqual([[0], [0]]);
+  });
+
+  it("only de-duplicates rows within the same account", () => {
+    const dataset = resolveMerge(
+      mergeImportFiles([
+        { fileName: "mine.xlsx", rows: [row({})], account: "שלי" },
+        { fileName: "joint.xlsx", rows: [row({})], account: "משותף" },
+        { fileName: "joint-2025.xlsx", rows: [row({})], account: "משותף" },
+      ]),
+      new Set()
+    );
+
+    expect(dataset.rows).toHaveLength(2);
+    expect(rowAccounts(dataset)).toEqual(["שלי", "משותף"]);
+    expect(accountNames(renameAccount(dataset, "משותף", "זוגי"))).toEqual(["שלי", "זוגי"]);
+  });
+});
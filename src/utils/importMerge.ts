@@ -0,0 +1,274 @@
+import { DEFAULT_ACCOUNT, IbiColumn, RawRow } from "../types";
+import { formatDateLabel } from "./dates";
+
+// Merging several IBI exports into one transaction log. Exports for
+// overlapping periods repeat the same rows, so each row is fingerprinted and
+// a row that an earlier file already contributed is dropped.
+//
+// Matching is a multiset, not a set: two identical buys on the same day in one
+// file are both real, so a later file only loses as many copies as the earlier
+// files already had. Rows that agree on date/action/symbol/quantity but differ
+// in price or proceeds (IBI re-rounding between exports) are not dropped
+// silently — they are returned as ambiguous matches for the user to review.
+//
+// Every file belongs to an account; rows are only matched against rows of the
+// same account, since two accounts can legitimately hold identical trades.
+
+const FINGERPRINT_COLUMNS: IbiColumn[] = [
+  "תאריך",
+  "סוג פעולה",
+  "מס' נייר / סימבול",
+  "כמות",
+  "שער ביצוע",
+  'תמורה במט"ח',
+  "תמורה בשקלים",
+];
+
+// Columns shared by a row and its near-duplicate.
+const LOOSE_COLUMNS: IbiColumn[] = ["תאריך", "סוג פעולה", "מס' נייר / סימבול", "כמות"];
+
+const normalizeCell = (column: IbiColumn, value: string): string => {
+  const trimmed = String(value ?? "").trim();
+  if (column === "תאריך") return formatDateLabel(trimmed);
+  const numeric = Number(trimmed);
+  if (trimmed !== "" && Number.isFinite(numeric)) return String(Math.round(numeric * 10_000) / 10_000);
+  return trimmed.replace(/\s+/g, " ");
+};
+
+const keyFor = (row: RawRow, columns: IbiColumn[]) =>
+  columns.map((column) => normalizeCell(column, row[column])).join("|");
+
+export const rowFingerprint = (row: RawRow): string => keyFor(row, FINGERPRINT_COLUMNS);
+
+// How far apart two loosely matching rows are: the relative differences of
+// the columns outside the loose key, summed.
+const looseDistance = (a: RawRow, b: RawRow): number =>
+  FINGERPRINT_COLUMNS.filter((column) => !LOOSE_COLUMNS.includes(column)).reduce((sum, column) => {
+    const x = Number(normalizeCell(column, a[column]));
+    const y = Number(normalizeCell(column, b[column]));
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return sum + (a[column] === b[column] ? 0 : 1);
+    return sum + Math.abs(x - y) / Math.max(Math.abs(x), Math.abs(y), 1);
+  }, 0);
+
+export interface ImportFile {
+  fileName: string;
+  rows: RawRow[];
+  account?: string; // DEFAULT_ACCOUNT when not given
+}
+
+// A merged transaction log with per-row provenance: `rowFiles[i]` lists the
+// indexes (into `fileNames`) of every file that contained `rows[i]`, so one
+// file can be removed later without losing rows another file also covers.
+// `fileAccounts[i]` is the account label of file i.
+export interface MergedDataset {
+  fileNames: string[];
+  fileAccounts: string[];
+  rows: RawRow[];
+  rowFiles: number[][];
+}
+
+export const EMPTY_DATASET: MergedDataset = { fileNames: [], fileAccounts: [], rows: [], rowFiles: [] };
+
+export interface FileMergeStats {
+  fileName: string;
+  total: number;
+  added: number;
+  duplicates: number;
+  ambiguous: number;
+}
+
+export interface AmbiguousMatch {
+  id: string;
+  fileIndex: number;
+  fileName: string;
+  row: RawRow;
+  rowIndex: number; // position of `row` within its file
+  existingIndex: number;
+  existingFileName: string;
+  existing: RawRow;
+  differences: IbiColumn[];
+}
+
+export interface MergeResult extends MergedDataset {
+  // rows/rowFiles hold the base dataset plus rows accepted without review
+  baseRowCount: number;
+  addedRowIndexes: number[]; // each row past the base: its position within its file
+  stats: FileMergeStats[];
+  ambiguous: AmbiguousMatch[];
+}
+
+// Merge new files on top of `base` (empty for a fresh upload, the cached
+// dataset when appending). Base rows count as earlier contributions.
+export const mergeImportFiles = (files: ImportFile[], base: MergedDataset = EMPTY_DATASET): MergeResult => {
+  const fileNames = [...base.fileNames, ...files.map((file) => file.fileName)];
+  const fileAccounts = [...base.fileAccounts, ...files.map((file) => file.account ?? DEFAULT_ACCOUNT)];
+  const rows = [...base.rows];
+  const rowFiles = base.rowFiles.map((sources) => [...sources]);
+  const ambiguous: AmbiguousMatch[] = [];
+  const addedRowIndexes: number[] = [];
+  const stats: FileMergeStats[] = [];
+  // Indexes of rows contributed by earlier files, by exact and by loose key.
+  const exact = new Map<string, number[]>();
+  const loose = new Map<string, number[]>();
+  const index = (from: number) => {
+    for (let i = from; i < rows.length; i += 1) {
+      const account = fileAccounts[rowFiles[i][0]];
+      const fp = `${account}|${rowFingerprint(rows[i])}`;
+      exact.set(fp, [...(exact.get(fp) ?? []), i]);
+      const looseKey = `${account}|${keyFor(rows[i], LOOSE_COLUMNS)}`;
+      loose.set(looseKey, [...(loose.get(looseKey) ?? []), i]);
+    }
+  };
+  index(0);
+
+  files.forEach((file, offset) => {
+    const fileIndex = base.fileNames.length + offset;
+    const firstNewRow = rows.length;
+    // Earlier rows this file has already been matched to; each pairs once.
+    const consumed = new Set<number>();
+    const fileStats: FileMergeStats = {
+      fileName: file.fileName,
+      total: file.rows.length,
+      added: 0,
+      duplicates: 0,
+      ambiguous: 0,
+    };
+
+    const account = fileAccounts[fileIndex];
+    // Exact matches first, so a near-duplicate can't claim a row that an
+    // exact copy later in the file would have matched.
+    const exactMatch = file.rows.map((row) => {
+      const match = (exact.get(`${account}|${rowFingerprint(row)}`) ?? []).find((i) => !consumed.has(i));
+      if (match !== undefined) consumed.add(match);
+      return match;
+    });
+
+    file.rows.forEach((row, rowIndex) => {
+      const exactIndex = exactMatch[rowIndex];
+      if (exactIndex !== undefined) {
+        rowFiles[exactIndex].push(fileIndex);
+        fileStats.duplicates += 1;
+        return;
+      }
+
+      // Of the unclaimed rows sharing date/action/symbol/quantity, pair with
+      // the one whose price and proceeds are closest.
+      const candidates = (loose.get(`${account}|${keyFor(row, LOOSE_COLUMNS)}`) ?? []).filter((i) => !consumed.has(i));
+      if (candidates.length > 0) {
+        const existingIndex = candidates.reduce((best, i) =>
+          looseDistance(row, rows[i]) < looseDistance(row, rows[best]) ? i : best
+        );
+        const existing = rows[existingIndex];
+        consumed.add(existingIndex);
+        ambiguous.push({
+          id: `${fileIndex}-${rowIndex}`,
+          fileIndex,
+          fileName: file.fileName,
+          row,
+          rowIndex,
+          existingIndex,
+          existingFileName: fileNames[rowFiles[existingIndex][0]] ?? "",
+          existing,
+          differences: FINGERPRINT_COLUMNS.filter(
+            (column) => normalizeCell(column, row[column]) !== normalizeCell(column, existing[column])
+          ),
+        });
+        fileStats.ambiguous += 1;
+        return;
+      }
+
+      rows.push(row);
+      rowFiles.push([fileIndex]);
+      addedRowIndexes.push(rowIndex);
+      fileStats.added += 1;
+    });
+
+    index(firstNewRow);
+    stats.push(fileStats);
+  });
+
+  return {
+    fileNames,
+    fileAccounts,
+    rows,
+    rowFiles,
+    baseRowCount: base.rows.length,
+    addedRowIndexes,
+    stats,
+    ambiguous,
+  };
+};
+
+// Final dataset once the user has decided which ambiguous rows are real. A
+// left-out row is a duplicate, so its file joins the matched row's sources.
+// A kept row goes back to its place among its file's rows: same-day booking
+// order is read from the row order within each file.
+export const resolveMerge = (result: MergeResult, keptIds: ReadonlySet<string>): MergedDataset => {
+  const rowFiles = result.rowFiles.map((sources) => [...sources]);
+  result.ambiguous.forEach((match) => {
+    if (!keptIds.has(match.id)) rowFiles[match.existingIndex].push(match.fileIndex);
+  });
+  const base = result.baseRowCount;
+  const placed = [
+    ...result.rows.slice(base).map((row, i) => ({ row, sources: rowFiles[base + i], rowIndex: result.addedRowIndexes[i] })),
+    ...result.ambiguous
+      .filter((match) => keptIds.has(match.id))
+      .map((match) => ({ row: match.row, sources: [match.fileIndex], rowIndex: match.rowIndex })),
+  ].sort((a, b) => a.sources[0] - b.sources[0] || a.rowIndex - b.rowIndex);
+  return {
+    fileNames: result.fileNames,
+    fileAccounts: result.fileAccounts,
+    rows: [...result.rows.slice(0, base), ...placed.map((entry) => entry.row)],
+    rowFiles: [...rowFiles.slice(0, base), ...placed.map((entry) => entry.sources)],
+  };
+};
+
+// Drop one file: rows only that file contained disappear, rows other files
+// also contained stay.
+export const removeImportFile = (dataset: MergedDataset, fileIndex: number): MergedDataset => {
+  const rows: RawRow[] = [];
+  const rowFiles: number[][] = [];
+  dataset.rows.forEach((row, i) => {
+    const sources = dataset.rowFiles[i]
+      .filter((source) => source !== fileIndex)
+      .map((source) => (source > fileIndex ? source - 1 : source));
+    if (sources.length === 0) return;
+    rows.push(row);
+    rowFiles.push(sources);
+  });
+  return {
+    fileNames: dataset.fileNames.filter((_, i) => i !== fileIndex),
+    fileAccounts: dataset.fileAccounts.filter((_, i) => i !== fileIndex),
+    rows,
+    rowFiles,
+  };
+};
+
+// How many rows each file contributed (rows several files share count once
+// per file).
+export const countRowsPerFile = (dataset: MergedDataset): number[] =>
+  dataset.fileNames.map((_, fileIndex) =>
+    dataset.rowFiles.filter((sources) => sources.includes(fileIndex)).length
+  );
+
+// Account label of every row (rows are only shared by files of one account).
+export const rowAccounts = (dataset: MergedDataset): string[] =>
+  dataset.rowFiles.map((sources) => dataset.fileAccounts[sources[0]] ?? DEFAULT_ACCOUNT);
+
+// Account labels in upload order.
+export const accountNames = (dataset: Pick<MergedDataset, "fileAccounts">): string[] =>
+  Array.from(new Set(dataset.fileAccounts));
+
+// Relabel every file of one account. Renaming onto an existing label merges
+// the two accounts without de-duplicating their rows against each other.
+export const renameAccount = (dataset: MergedDataset, from: string, to: string): MergedDataset => ({
+  ...dataset,
+  fileAccounts: dataset.fileAccounts.map((account) => (account === from ? to : account)),
+});
+
+// "data_2025.xlsx: 12, full.xlsx: 340" — files that lost rows to de-duplication.
+export const describeDuplicates = (stats: FileMergeStats[]): string =>
+  stats
+    .filter((s) => s.duplicates > 0)
+    .map((s) => `${s.fileName}: ${s.duplicates}`)
+    .join(", ");
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, Transaction } from "../types";
+import { computeOpenPosition, computeRealizedSales, computeYearlySummary } from "./calculations";
+import { replayLots } from "./lots";
+
+const tx = (day: number, overrides: Partial<Transaction>): Transaction => ({
+  date: `${String(day).padStart(2, "0")}/01/2026`,
+  timestamp: new Date(2026, 0, day).getTime(),
+  year: 2026,
+  action: ACTION.BUY_FX,
+  name: "TEST US",
+  symbol: "TEST",
+  quantity: 0,
+  delta: 0,
+  price: 0,
+  currency: "$",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+  ...overrides,
+});
+
+const buy = (day: number, quantity: number, price: number, fee = 0) =>
+  tx(day, { action: ACTION.BUY_FX, quantity, delta: quantity, price, fee });
+const sell = (day: number, quantity: number, price: number, fee = 0) =>
+  tx(day, { action: ACTION.SELL_FX, quantity, delta: -quantity, price, fee });
+
+describe("lot tracking", () => {
+  const trades = [buy(1, 10, 100, 10), buy(2, 10, 200, 10), sell(3, 5, 300, 4)];
+
+  it("realizes a partial sell against the oldest lot with FIFO", () => {
+    const [sale] = computeRealizedSales(trades, "TEST", "fifo");
+
+    expect(sale.costBasis).toBe(500);
+    expect(sale.buyFees).toBe(5);
+    expect(sale.proceeds).toBe(1500);
+    expect(sale.netFromTrading).toBe(991);
+    expect(sale.capitalGainsTax).toBe(247.75);
+    expect(sale.acquiredDate).toBe("01/01/2026");
+    expect(sale.lots).toHaveLength(1);
+  });
+
+  it("realizes a partial sell at the moving average cost", () => {
+    const [sale] = computeRealizedSales(trades, "TEST", "average");
+
+    expect(sale.costBasis).toBe(750);
+    expect(sale.buyFees).toBe(5);
+    expect(sale.netFromTrading).toBe(741);
+    expect(sale.lots).toHaveLength(2);
+  });
+
+  it("leaves the remaining lots as the open position", () => {
+    const fifo = computeOpenPosition(trades, "TEST", "fifo");
+    const average = computeOpenPosition(trades, "TEST", "average");
+
+    expect(fifo?.quantity).toBe(15);
+    expect(fifo?.costBasis).toBe(2500);
+    expect(fifo?.buyFees).toBe(15);
+    expect(average?.avgCost).toBe(150);
+  });
+
+  it("flags sold shares that have no recorded buy", () => {
+    const { sales, openLots } = replayLots([buy(1, 2, 10), sell(2, 5, 20)], "fifo");
+
+    expect(sales[0].unmatchedQuantity).toBe(3);
+    expect(openLots).toHaveLength(0);
+  });
+
+  it("books each sale in the year it happened", () => {
+    const sales = computeRealizedSales(
+      [buy(1, 10, 100), sell(2, 5, 120), tx(40, { action: ACTION.SELL_FX, quantity: 5, delta: -5, price: 80 })],
+      "TEST",
+      "fifo"
+    );
+    const summary = computeYearlySummary(sales);
+
+    expect(summary).toHaveLength(1);
+    expect(summary[0].trades).toBe(2);
+    expect(summary[0].gains).toBe(100);
+    expect(summary[0].losses).toBe(-100);
+  });
+
+  it("tracks the shekel gain at each trade's own exchange rate", () => {
+    const [sale] = computeRealizedSales(
+      [
+        tx(1, { action: ACTION.BUY_FX, quantity: 10, delta: 10, price: 100, proceedsFx: -1000, proceedsIls: -3500 }),
+        tx(2, { action: ACTION.SELL_FX, quantity: 10, delta: -10, price: 100, proceedsFx: 1000, proceedsIls: 4000 }),
+      ],
+      "TEST",
+      "fifo"
+    );
+
+    expect(sale.netFromTrading).toBe(0);
+    expect(sale.costBasisIls).toBe(3500);
+    expect(sale.netFromTradingIls).toBe(500);
+    expect(sale.capitalGainsTaxIls).toBe(125);
+    expect(computeYearlySummary([sale])[0].netFromTradingIls).toBe(500);
+  });
+});
@@ -0,0 +1,153 @@
+import { CAPITAL_GAINS_TAX_RATE, CostMethod, Lot, LotMatch, RealizedSale, Transaction } from "../types";
+import { tradeIlsRate } from "./fx";
+
+// Lot-tracking engine. Replays one symbol's chronological buys/sells against
+// its open lots and realizes P&L on every sale, instead of waiting for the
+// position to return to zero like `computeRealizedRounds` does.
+//
+// Moving average is modelled as consuming every open lot pro rata, so both
+// methods share the same lot bookkeeping and every sale knows which
+// acquisitions (dates, cost) it closed.
+
+const DAY_MS = 86_400_000;
+const EPSILON = 0.0001;
+
+export const COST_METHOD_KEY = "ibi_cost_method";
+
+export const COST_METHOD_LABELS: Record<CostMethod, string> = {
+  average: "ממוצע נע",
+  fifo: "FIFO",
+};
+
+export const readCostMethod = (storage: Pick<Storage, "getItem">): CostMethod => {
+  try {
+    return storage.getItem(COST_METHOD_KEY) === "fifo" ? "fifo" : "average";
+  } catch {
+    return "average";
+  }
+};
+
+export const saveCostMethod = (storage: Pick<Storage, "setItem">, method: CostMethod) => {
+  try {
+    storage.setItem(COST_METHOD_KEY, method);
+  } catch {
+    /* the method choice is a convenience setting */
+  }
+};
+
+// Take `quantity` shares out of the lots (mutated in place) and report the
+// slices consumed.
+const consumeLots = (lots: Lot[], quantity: number, method: CostMethod): LotMatch[] => {
+  const matches: LotMatch[] = [];
+  const take = (lot: Lot, qty: number) => {
+    const share = lot.quantity > 0 ? qty / lot.quantity : 0;
+    const buyFees = lot.fee * share;
+    const rate = lot.fxRate ?? 0;
+    matches.push({
+      timestamp: lot.timestamp,
+      date: lot.date,
+      quantity: qty,
+      costBasis: lot.price * qty,
+      buyFees,
+      costBasisIls: lot.price * qty * rate,
+      buyFeesIls: buyFees * rate,
+    });
+    lot.quantity -= qty;
+    lot.fee -= buyFees;
+  };
+
+  if (method === "average") {
+    const held = lots.reduce((s, l) => s + l.quantity, 0);
+    if (held <= EPSILON) return matches;
+    const ratio = Math.min(1, quantity / held);
+    lots.forEach((lot) => take(lot, lot.quantity * ratio));
+    return matches;
+  }
+
+  let remaining = quantity;
+  for (const lot of lots) {
+    if (remaining <= EPSILON) break;
+    const qty = Math.min(lot.quantity, remaining);
+    take(lot, qty);
+    remaining -= qty;
+  }
+  return matches;
+};
+
+export interface LotReplay {
+  sales: RealizedSale[];
+  openLots: Lot[];
+}
+
+// `trades` must be one symbol's buy/sell/grant transactions in one account,
+// time-sorted (as returned by `tradeTransactions`).
+export const replayLots = (trades: Transaction[], method: CostMethod): LotReplay => {
+  let lots: Lot[] = [];
+  const sales: RealizedSale[] = [];
+
+  trades.forEach((t) => {
+    if (t.delta > 0) {
+      lots.push({
+        symbol: t.symbol,
+        timestamp: t.timestamp,
+        date: t.date,
+        quantity: t.quantity,
+        price: t.price,
+        fee: t.fee,
+        fxRate: tradeIlsRate(t),
+      });
+      return;
+    }
+    if (t.delta === 0) return;
+
+    const matches = consumeLots(lots, t.quantity, method);
+    lots = lots.filter((l) => l.quantity > EPSILON);
+
+    const matchedQty = matches.reduce((s, m) => s + m.quantity, 0);
+    const costBasis = matches.reduce((s, m) => s + m.costBasis, 0);
+    const buyFees = matches.reduce((s, m) => s + m.buyFees, 0);
+    const proceeds = t.price * t.quantity;
+    const totalFees = buyFees + t.fee;
+    const netFromTrading = proceeds - costBasis - totalFees;
+    const capitalGainsTax = netFromTrading > 0 ? netFromTrading * CAPITAL_GAINS_TAX_RATE : 0;
+    const saleRate = tradeIlsRate(t);
+    const proceedsIls = proceeds * saleRate;
+    const costBasisIls = matches.reduce((s, m) => s + m.costBasisIls, 0);
+    const totalFeesIls = matches.reduce((s, m) => s + m.buyFeesIls, 0) + t.fee * saleRate;
+    const netFromTradingIls = proceedsIls - costBasisIls - totalFeesIls;
+    const earliest = matches.reduce<LotMatch | null>(
+      (first, m) => (m.quantity > EPSILON && (!first || m.timestamp < first.timestamp) ? m : first),
+      null
+    );
+
+    sales.push({
+      symbol: t.symbol,
+      account: t.account,
+      date: t.date,
+      timestamp: t.timestamp,
+      quantity: t.quantity,
+      price: t.price,
+      proceeds,
+      costBasis,
+      buyFees,
+      sellFee: t.fee,
+      totalFees,
+      netFromTrading,
+      capitalGainsTax,
+      netAfterTax: netFromTrading - capitalGainsTax,
+      proceedsIls,
+      costBasisIls,
+      totalFeesIls,
+      netFromTradingIls,
+      capitalGainsTaxIls: netFromTradingIls > 0 ? netFromTradingIls * CAPITAL_GAINS_TAX_RATE : 0,
+      acquiredTimestamp: earliest?.timestamp ?? t.timestamp,
+      acquiredDate: earliest?.date ?? t.date,
+      holdingDays: earliest ? Math.round((t.timestamp - earliest.timestamp) / DAY_MS) : 0,
+      unmatchedQuantity: Math.max(0, t.quantity - matchedQty),
+      ibiTaxEstimateIls: t.taxEstimateIls,
+      lots: matches.filter((m) => m.quantity > EPSILON),
+    });
+  });
+
+  return { sales, openLots: lots };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { Position } from "../types";
+import { computeAllocation, valuePositions } from "./calculations";
+import {
+  activeManualPrices,
+  manualPrice,
+  parseManualPriceCsv,
+  readManualPrices,
+  saveManualPrices,
+  upsertManualPrices,
+} from "./manualPrices";
+
+const createStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => values.set(key, value),
+  };
+};
+
+const position = (symbol: string, overrides: Partial<Position> = {}): Position => ({
+  symbol,
+  accounts: [],
+  quantity: 10,
+  avgCost: 100,
+  costBasis: 1_000,
+  buyFees: 0,
+  firstBuyTimestamp: 0,
+  firstBuyDate: "",
+  holdingDays: 0,
+  currency: "USD",
+  ...overrides,
+});
+
+describe("manual prices", () => {
+  it("expires 30 days after the price date unless told otherwise", () => {
+    const price = manualPrice("abc", 12.5, "2026-03-01")!;
+    expect(price).toMatchObject({ symbol: "ABC", date: "01/03/2026", expires: "31/03/2026" });
+
+    expect(activeManualPrices([price], new Date(2026, 2, 31, 23).getTime()).has("ABC")).toBe(true);
+    expect(activeManualPrices([price], new Date(2026, 3, 1).getTime()).size).toBe(0);
+
+    expect(manualPrice("ABC", 12.5, "01/03/2026", "15/03/2026")?.expires).toBe("15/03/2026");
+    expect(manualPrice("ABC", 12.5, "01/03/2026", "15/02/2026")).toBeNull();
+    expect(manualPrice("ABC", 0, "01/03/2026")).toBeNull();
+  });
+
+  it("imports symbol,price,date lines and reports the unreadable ones", () => {
+    const csv = "symbol,price,date\nABC,12.5,01/03/2026\n\n1183441;₪1,234.5;2026-03-02;2026-06-30\nXYZ,n/a,01/03/2026\n";
+    const { prices, skipped } = parseManualPriceCsv(csv);
+    expect(prices.map((p) => [p.symbol, p.price, p.expires])).toEqual([
+      ["ABC", 12.5, "31/03/2026"],
+      ["1183441", 1_234.5, "30/06/2026"],
+    ]);
+    expect(skipped).toEqual([5]);
+  });
+
+  it("round-trips through storage, one entry per symbol", () => {
+    const storage = createStorage();
+    const first = manualPrice("ABC", 10, "2026-03-01")!;
+    const second = manualPrice("ABC", 11, "2026-03-05")!;
+    saveManualPrices(storage, upsertManualPrices([first], [second]));
+    expect(readManualPrices(storage)).toEqual([second]);
+  });
+
+  it("overrides the live quote in the valuation and the allocation", () => {
+    const manual = activeManualPrices([manualPrice("ABC", 150, "2026-03-01")!], new Date(2026, 2, 2).getTime());
+    const live = new Map([["ABC", { symbol: "ABC", price: 120, change: 2, changePercent: 0, previousClose: 118, currency: "USD" }]]);
+    const [valued, unpriced] = valuePositions([position("ABC"), position("DEF")], live, 1, manual);
+
+    expect(valued).toMatchObject({ priceSource: "manual", currentPrice: 150, marketValue: 1_500, dayChange: 0 });
+    expect(unpriced.priceSource).toBeUndefined();
+    expect(computeAllocation([valued, unpriced]).map((s) => s.manual)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,97 @@
+import type { ManualPrice } from "../types";
+import { formatDateLabel, parseDateToTimestamp } from "./dates";
+
+// Hand-entered prices. When no price source can quote a holding, the
+// valuation would otherwise fall back to cost basis; a manual price (typed in
+// or imported from a symbol,price,date CSV) stands in for the quote until its
+// expiry date, and holdings valued with one are badged as such.
+
+export const MANUAL_PRICES_KEY = "ibi_manual_prices";
+
+// Validity when no expiry is given.
+export const MANUAL_PRICE_DAYS = 30;
+
+const addDays = (timestamp: number, days: number) => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days).getTime();
+};
+
+// A manual price, or null when the symbol, price or dates can't be used.
+export const manualPrice = (symbol: string, price: number, date: string, expires?: string): ManualPrice | null => {
+  const normalized = symbol.trim().toUpperCase();
+  const timestamp = parseDateToTimestamp(date);
+  if (!normalized || !(price > 0) || timestamp <= 0) return null;
+
+  const expiryDay = expires?.trim() ? parseDateToTimestamp(expires) : addDays(timestamp, MANUAL_PRICE_DAYS);
+  if (expiryDay < timestamp) return null;
+  const expiry = new Date(expiryDay);
+  return {
+    symbol: normalized,
+    price,
+    date: formatDateLabel(date),
+    timestamp,
+    expires: formatDateLabel(`${expiry.getFullYear()}-${expiry.getMonth() + 1}-${expiry.getDate()}`),
+    expiresAt: addDays(expiryDay, 1),
+  };
+};
+
+export const isManualPriceActive = (price: ManualPrice, now = Date.now()): boolean =>
+  now < price.expiresAt;
+
+// Unexpired prices by symbol, for the valuation.
+export const activeManualPrices = (prices: ManualPrice[], now = Date.now()): Map<string, ManualPrice> =>
+  new Map(prices.filter((p) => isManualPriceActive(p, now)).map((p) => [p.symbol, p]));
+
+// Add or replace, one entry per symbol.
+export const upsertManualPrices = (prices: ManualPrice[], added: ManualPrice[]): ManualPrice[] => {
+  const bySymbol = new Map(prices.map((p) => [p.symbol, p]));
+  added.forEach((p) => bySymbol.set(p.symbol, p));
+  return Array.from(bySymbol.values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+};
+
+export const readManualPrices = (storage: Pick<Storage, "getItem">): ManualPrice[] => {
+  try {
+    const parsed = JSON.parse(storage.getItem(MANUAL_PRICES_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((p) => p && typeof p.symbol === "string" && typeof p.date === "string")
+      .map((p) => manualPrice(p.symbol, Number(p.price), p.date, typeof p.expires === "string" ? p.expires : undefined))
+      .filter((p): p is ManualPrice => p !== null);
+  } catch {
+    return [];
+  }
+};
+
+export const saveManualPrices = (storage: Pick<Storage, "setItem">, prices: ManualPrice[]) => {
+  try {
+    storage.setItem(
+      MANUAL_PRICES_KEY,
+      JSON.stringify(prices.map(({ symbol, price, date, expires }) => ({ symbol, price, date, expires })))
+    );
+  } catch {
+    /* manual prices are a convenience setting */
+  }
+};
+
+export interface ManualPriceImport {
+  prices: ManualPrice[];
+  skipped: number[]; // 1-based line numbers that couldn't be read
+}
+
+// symbol,price,date[,expires] per line. Comma, semicolon or tab separated
+// (a line with semicolons or tabs may use commas as thousands separators); a
+// header line and blank lines are ignored.
+export const parseManualPriceCsv = (text: string): ManualPriceImport => {
+  const prices: ManualPrice[] = [];
+  const skipped: number[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const delimiter = /[;\t]/.exec(line)?.[0] ?? ",";
+    const cells = line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    const [symbol = "", price = "", date = "", expires] = cells;
+    const parsed = manualPrice(symbol, Number(price.replace(/[^\d.]/g, "")), date, expires);
+    if (parsed) prices.push(parsed);
+    else if (index > 0 || /\d/.test(price)) skipped.push(index + 1);
+  });
+  return { prices, skipped };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { backoffDelay, marketStatus, marketsFor, nextRefreshAt, readRefreshMinutes } from "./marketHours";
+
+const MINUTE = 60_000;
+const utc = (month: number, day: number, hour: number, minute = 0) => Date.UTC(2026, month - 1, day, hour, minute);
+
+describe("market hours", () => {
+  it("follows the NYSE session in New York time across a DST change", () => {
+    // Monday 19/10/2026, 10:00 EDT.
+    expect(marketStatus("nyse", utc(10, 19, 14))).toEqual({ market: "nyse", open: true, nextChange: utc(10, 19, 20) });
+    // Saturday → Monday's opening.
+    expect(marketStatus("nyse", utc(10, 24, 12)).nextChange).toBe(utc(10, 26, 13, 30));
+    // Friday after the close → Monday 09:30 EST, an hour later in UTC.
+    expect(marketStatus("nyse", utc(10, 30, 21))).toEqual({ market: "nyse", open: false, nextChange: utc(11, 2, 14, 30) });
+  });
+
+  it("closes TASE early on Fridays", () => {
+    // Friday 23/10/2026, 15:00 IDT.
+    expect(marketStatus("tase", utc(10, 23, 12)).open).toBe(false);
+    expect(marketStatus("tase", utc(10, 22, 12)).open).toBe(true);
+  });
+
+  it("picks the markets the holdings trade on", () => {
+    expect(marketsFor([{ currency: "USD" }, { currency: "USD" }])).toEqual(["nyse"]);
+    expect(marketsFor([{ currency: "ILS" }, { currency: "USD" }])).toEqual(["nyse", "tase"]);
+  });
+
+  it("schedules refreshes while open, at the opening otherwise, and backs off", () => {
+    const open = [{ market: "nyse" as const, open: true, nextChange: utc(10, 19, 20) }];
+    const closed = [{ market: "nyse" as const, open: false, nextChange: utc(10, 20, 13, 30) }];
+    const last = utc(10, 19, 15);
+
+    expect(nextRefreshAt(open, last, 5 * MINUTE, 0, last + MINUTE)).toBe(last + 5 * MINUTE);
+    expect(nextRefreshAt(open, last, 5 * MINUTE, 2, last + MINUTE)).toBe(last + 20 * MINUTE);
+    expect(nextRefreshAt(open, last, 5 * MINUTE, 0, last + 30 * MINUTE)).toBe(last + 30 * MINUTE);
+    expect(nextRefreshAt(closed, last, 5 * MINUTE, 0, last)).toBe(utc(10, 20, 13, 30));
+    expect(nextRefreshAt([], last, 5 * MINUTE, 0, last)).toBeNull();
+
+    expect(backoffDelay(5 * MINUTE, 10)).toBe(60 * MINUTE);
+  });
+
+  it("falls back to the default interval for unknown settings", () => {
+    expect(readRefreshMinutes({ getItem: () => "15" })).toBe(15);
+    expect(readRefreshMinutes({ getItem: () => "0" })).toBe(0);
+    expect(readRefreshMinutes({ getItem: () => "7" })).toBe(5);
+    expect(readRefreshMinutes({ getItem: () => null })).toBe(5);
+  });
+});
@@ -0,0 +1,152 @@
+import type { Position } from "../types";
+
+// Trading sessions and the automatic price-refresh schedule. Quotes only move
+// while a market is open, so refreshes run every N minutes during the session
+// of any market the portfolio holds, wait for the next opening otherwise, and
+// stretch out exponentially after a rate limit.
+
+export type MarketId = "nyse" | "tase";
+
+interface MarketHours {
+  timeZone: string;
+  // Per weekday (0 = Sunday): [open, close] in minutes after local midnight.
+  sessions: Array<[number, number] | null>;
+}
+
+const NYSE_SESSION: [number, number] = [9 * 60 + 30, 16 * 60];
+const TASE_SESSION: [number, number] = [9 * 60 + 59, 17 * 60 + 25];
+const TASE_FRIDAY: [number, number] = [9 * 60 + 59, 14 * 60];
+
+// Regular sessions only. Holidays aren't modelled: a refresh on one just
+// returns the previous close.
+export const MARKETS: Record<MarketId, MarketHours> = {
+  nyse: {
+    timeZone: "America/New_York",
+    sessions: [null, NYSE_SESSION, NYSE_SESSION, NYSE_SESSION, NYSE_SESSION, NYSE_SESSION, null],
+  },
+  // Monday–Friday since 2026, with a shorter Friday.
+  tase: {
+    timeZone: "Asia/Jerusalem",
+    sessions: [null, TASE_SESSION, TASE_SESSION, TASE_SESSION, TASE_SESSION, TASE_FRIDAY, null],
+  },
+};
+
+export interface MarketStatus {
+  market: MarketId;
+  open: boolean;
+  nextChange: number; // closing time while open, the next opening otherwise
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock date and time of `timestamp` in a time zone.
+const zoned = (timestamp: number, timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(timestamp)).map((p) => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+// How far the zone's wall clock is ahead of UTC at `timestamp`.
+const offsetAt = (timestamp: number, timeZone: string) => {
+  const z = zoned(timestamp, timeZone);
+  return Date.UTC(z.year, z.month - 1, z.day, 0, z.minutes) - Math.floor(timestamp / 60_000) * 60_000;
+};
+
+// The instant a zone's wall clock reads the given date and time. The second
+// pass settles days on which the offset changes.
+const wallTime = (year: number, month: number, day: number, minutes: number, timeZone: string) => {
+  const asUtc = Date.UTC(year, month - 1, day, 0, minutes);
+  return asUtc - offsetAt(asUtc - offsetAt(asUtc, timeZone), timeZone);
+};
+
+export const marketStatus = (market: MarketId, now = Date.now()): MarketStatus => {
+  const { timeZone, sessions } = MARKETS[market];
+  const today = zoned(now, timeZone);
+  for (let ahead = 0; ahead <= 7; ahead += 1) {
+    const session = sessions[(today.weekday + ahead) % 7];
+    if (!session) continue;
+    const day = new Date(Date.UTC(today.year, today.month - 1, today.day + ahead));
+    const [openAt, closeAt] = session.map((minutes) =>
+      wallTime(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), minutes, timeZone)
+    );
+    if (now < openAt) return { market, open: false, nextChange: openAt };
+    if (now < closeAt) return { market, open: true, nextChange: closeAt };
+  }
+  // Unreachable with at least one session a week.
+  return { market, open: false, nextChange: now + 24 * 60 * 60 * 1000 };
+};
+
+// Markets whose hours matter for the holdings: NYSE for USD, TASE for ILS.
+export const marketsFor = (positions: Pick<Position, "currency">[]): MarketId[] => {
+  const markets: MarketId[] = [];
+  if (positions.some((p) => p.currency === "USD")) markets.push("nyse");
+  if (positions.some((p) => p.currency === "ILS")) markets.push("tase");
+  return markets;
+};
+
+// Never wait longer than this between attempts while a market is open.
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// The interval doubled for each rate limit in a row.
+export const backoffDelay = (intervalMs: number, failures: number): number =>
+  Math.min(intervalMs * 2 ** failures, Math.max(intervalMs, MAX_BACKOFF_MS));
+
+// When the next refresh is due: an interval (backed off) after the last one
+// while any market is open, otherwise at the next opening.
+export const nextRefreshAt = (
+  statuses: MarketStatus[],
+  lastRefresh: number,
+  intervalMs: number,
+  failures: number,
+  now = Date.now()
+): number | null => {
+  if (statuses.length === 0) return null;
+  const due = lastRefresh + backoffDelay(intervalMs, failures);
+  if (statuses.some((s) => s.open)) return Math.max(now, due);
+  return Math.max(Math.min(...statuses.map((s) => s.nextChange)), due);
+};
+
+export const REFRESH_MINUTES_KEY = "ibi_refresh_minutes";
+
+// 0 turns automatic refresh off.
+export const REFRESH_MINUTE_OPTIONS = [0, 1, 5, 15, 30];
+
+const DEFAULT_REFRESH_MINUTES = 5;
+
+export const readRefreshMinutes = (storage: Pick<Storage, "getItem">): number => {
+  try {
+    const stored = storage.getItem(REFRESH_MINUTES_KEY);
+    const minutes = Number(stored);
+    return stored !== null && REFRESH_MINUTE_OPTIONS.includes(minutes) ? minutes : DEFAULT_REFRESH_MINUTES;
+  } catch {
+    return DEFAULT_REFRESH_MINUTES;
+  }
+};
+
+export const saveRefreshMinutes = (storage: Pick<Storage, "setItem">, minutes: number) => {
+  try {
+    storage.setItem(REFRESH_MINUTES_KEY, String(minutes));
+  } catch {
+    /* the refresh interval is a convenience setting */
+  }
+};
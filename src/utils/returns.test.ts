@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, SPECIAL_TICKER, Transaction } from "../types";
+import { periodReturns, timeWeightedReturn, xirr } from "./returns";
+import { externalFlows } from "./valueHistory";
+
+const RATE = 4;
+
+const tx = (year: number, overrides: Partial<Transaction>): Transaction => ({
+  date: `01/01/${year}`,
+  timestamp: new Date(year, 0, 1).getTime(),
+  year,
+  action: ACTION.CASH_TRANSFER,
+  name: "",
+  symbol: SPECIAL_TICKER.DEPOSITS,
+  quantity: 0,
+  delta: 0,
+  price: 0,
+  currency: "ש\"ח",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+  ...overrides,
+});
+
+// Deposit ₪40,000, convert it to $10,000 and buy AAA with all of it.
+const depositAndBuy = (year: number, shares: number, price: number) => [
+  tx(year, { proceedsIls: 40_000 }),
+  tx(year, { action: ACTION.BUY_ILS, name: "דולר", symbol: "USD", proceedsIls: -40_000, proceedsFx: 10_000 }),
+  tx(year, {
+    action: ACTION.BUY_FX,
+    name: "מסח/ AAA US",
+    symbol: "AAA",
+    currency: "$",
+    quantity: shares,
+    delta: shares,
+    price,
+    proceedsFx: -shares * price,
+  }),
+];
+
+const transactions = [...depositAndBuy(2024, 100, 100), ...depositAndBuy(2025, 50, 200)];
+const histories = new Map([
+  [
+    "AAA",
+    [
+      { date: "2024-01-01", close: 100, volume: 0 },
+      { date: "2025-01-01", close: 200, volume: 0 },
+      { date: "2026-01-01", close: 300, volume: 0 },
+    ],
+  ],
+]);
+
+describe("portfolio returns", () => {
+  it("solves XIRR and chains TWR across flows", () => {
+    const yearLater = 365 * 86_400_000;
+    expect(
+      xirr([
+        { timestamp: 0, amount: -1000 },
+        { timestamp: yearLater, amount: 1100 },
+      ])
+    ).toBeCloseTo(0.1, 6);
+    expect(xirr([{ timestamp: 0, amount: -1000 }])).toBeNull();
+
+    const twr = timeWeightedReturn(
+      [
+        { timestamp: 1, value: 100 },
+        { timestamp: 2, value: 300 }, // includes a 100 deposit
+        { timestamp: 3, value: 330 },
+      ],
+      [{ timestamp: 2, amount: 100 }]
+    );
+    expect(twr).toBeCloseTo(2 * 1.1 - 1);
+  });
+
+  it("takes deposits from the ledger and values holdings at historical closes", () => {
+    expect(externalFlows(transactions, RATE).map((f) => f.amount)).toEqual([10_000, 10_000]);
+
+    const now = new Date(2026, 0, 1, 12).getTime();
+    const returns = Object.fromEntries(periodReturns(transactions, histories, RATE, now).map((r) => [r.period, r]));
+
+    // 100% in 2024, then 50% in 2025 on the larger balance.
+    expect(returns.inception.twr).toBeCloseTo(2);
+    // -10k, -10k a year later, +45k after two years.
+    expect(returns.inception.xirr).toBeCloseTo(0.68, 1);
+    expect(returns["1y"].twr).toBeCloseTo(0.5);
+    expect(returns["1y"].xirr).toBeCloseTo(0.5, 2);
+    expect(returns.ytd.twr).toBeCloseTo(0.5);
+    expect(returns["3y"]).toMatchObject({ twr: null, xirr: null });
+  });
+
+  it("starts the year to date at the close of Dec 31", () => {
+    const now = new Date(2026, 0, 1, 12).getTime();
+    const yearEndDeposit = tx(2025, {
+      date: "31/12/2025",
+      timestamp: new Date(2025, 11, 31).getTime(),
+      proceedsIls: 1_000,
+    });
+    const ytd = periodReturns([...transactions, yearEndDeposit], histories, RATE, now).find((r) => r.period === "ytd")!;
+
+    expect(ytd.start).toBe(new Date(2026, 0, 1).getTime() - 1);
+    // The deposit is part of the starting value, not a flow within the year.
+    expect(ytd.twr).toBeCloseTo(45_250 / 30_250 - 1);
+  });
+});
@@ -0,0 +1,145 @@
+import type { Transaction } from "../types";
+import type { HistoricalDataPoint } from "../stockPriceService";
+import { CashFlow, externalFlows, inceptionDay, portfolioValuer } from "./valueHistory";
+
+// Portfolio returns that account for when money arrived. External cash flows
+// are the deposits and withdrawals in the cash ledger; the portfolio is valued
+// by the reconstruction in valueHistory at the start of each period and on
+// every flow date.
+//
+// TWR chains the sub-period returns between flows, so it measures the
+// investments regardless of deposit timing. XIRR is the annual rate that makes
+// the flows and the final value break even, so it measures the investor's
+// money including that timing.
+
+const DAY_MS = 86_400_000;
+const YEAR_DAYS = 365;
+
+export type ReturnPeriod = "ytd" | "1y" | "3y" | "inception";
+
+export const RETURN_PERIOD_LABELS: Record<ReturnPeriod, string> = {
+  ytd: "מתחילת השנה",
+  "1y": "שנה",
+  "3y": "3 שנים",
+  inception: "מההתחלה",
+};
+
+export interface ValuationPoint {
+  timestamp: number;
+  value: number; // USD, after the day's flows
+}
+
+export interface PeriodReturn {
+  period: ReturnPeriod;
+  start: number;
+  twr: number | null; // cumulative, as a fraction
+  twrAnnualized: number | null; // same as twr for periods up to a year
+  xirr: number | null; // annual, as a fraction
+}
+
+// Chained return over consecutive valuations, each flow landing on the point
+// of its day. Sub-periods that start from nothing are skipped.
+export const timeWeightedReturn = (points: ValuationPoint[], flows: CashFlow[]): number | null => {
+  let growth = 1;
+  let chained = false;
+  for (let i = 1; i < points.length; i += 1) {
+    const previous = points[i - 1];
+    const current = points[i];
+    if (previous.value <= 0) continue;
+    const flow = flows
+      .filter((f) => f.timestamp > previous.timestamp && f.timestamp <= current.timestamp)
+      .reduce((s, f) => s + f.amount, 0);
+    growth *= (current.value - flow) / previous.value;
+    chained = true;
+  }
+  return chained ? growth - 1 : null;
+};
+
+// Annual rate at which the dated amounts net to zero. Amounts are from the
+// investor's side: money put in is negative, value taken out positive.
+export const xirr = (amounts: CashFlow[]): number | null => {
+  if (!amounts.some((a) => a.amount > 0) || !amounts.some((a) => a.amount < 0)) return null;
+  const t0 = amounts[0].timestamp;
+  const years = amounts.map((a) => (a.timestamp - t0) / DAY_MS / YEAR_DAYS);
+  const npv = (rate: number) => amounts.reduce((s, a, i) => s + a.amount / Math.pow(1 + rate, years[i]), 0);
+  const slope = (rate: number) =>
+    amounts.reduce((s, a, i) => s - (years[i] * a.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i += 1) {
+    const d = slope(rate);
+    if (d === 0) break;
+    const next = rate - npv(rate) / d;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-9) return next;
+    rate = next;
+  }
+
+  // Newton didn't settle: bisect, if the bracket holds a root.
+  let low = -0.9999;
+  let high = 100;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i += 1) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+const periodStart = (period: ReturnPeriod, now: number, inception: number): number => {
+  const d = new Date(now);
+  switch (period) {
+    case "ytd":
+      return new Date(d.getFullYear(), 0, 1).getTime() - 1; // Dec 31, end of day
+    case "1y":
+      return new Date(d.getFullYear() - 1, d.getMonth(), d.getDate()).getTime();
+    case "3y":
+      return new Date(d.getFullYear() - 3, d.getMonth(), d.getDate()).getTime();
+    case "inception":
+      return inception;
+  }
+};
+
+// TWR and XIRR for each period. A period reaching back before the first
+// transaction has no starting value and reports null, except since inception,
+// which starts from the first day's closing value so money already in the
+// account when the export begins counts as invested then.
+export const periodReturns = (
+  transactions: Transaction[],
+  histories: Map<string, HistoricalDataPoint[]>,
+  fallbackRate: number,
+  now = Date.now()
+): PeriodReturn[] => {
+  const periods = Object.keys(RETURN_PERIOD_LABELS) as ReturnPeriod[];
+  const inception = inceptionDay(transactions);
+  if (inception === null) {
+    return periods.map((period) => ({ period, start: now, twr: null, twrAnnualized: null, xirr: null }));
+  }
+
+  const flows = externalFlows(transactions, fallbackRate);
+  const valueAt = portfolioValuer(transactions, histories, fallbackRate);
+
+  return periods.map((period) => {
+    const start = periodStart(period, now, inception);
+    if (start < inception) return { period, start, twr: null, twrAnnualized: null, xirr: null };
+
+    const inPeriod = flows.filter((f) => f.timestamp > start && f.timestamp <= now);
+    const points: ValuationPoint[] = [start, ...inPeriod.map((f) => f.timestamp), now].map((timestamp) => ({
+      timestamp,
+      value: valueAt(timestamp),
+    }));
+    const twr = timeWeightedReturn(points, inPeriod);
+    const years = (now - start) / DAY_MS / YEAR_DAYS;
+    const twrAnnualized = twr === null ? null : years > 1 ? Math.pow(1 + twr, 1 / years) - 1 : twr;
+
+    const startValue = points[0].value;
+    const endValue = points[points.length - 1].value;
+    const moneyWeighted = xirr([
+      { timestamp: start, amount: -startValue },
+      ...inPeriod.map((f) => ({ timestamp: f.timestamp, amount: -f.amount })),
+      { timestamp: now, amount: endValue },
+    ]);
+    return { period, start, twr, twrAnnualized, xirr: moneyWeighted };
+  });
+};
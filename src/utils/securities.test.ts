@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, Transaction } from "../types";
+import { computeOpenPosition, getStockSymbols, valuePositions } from "./calculations";
+import { convertTaseTrades } from "./fx";
+import { classifySecurity, normalizeTaseSymbol, toIlsPrice, tradeSide, yahooSymbolFor } from "./securities";
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  date: "01/01/2026",
+  timestamp: new Date(2026, 0, 1).getTime(),
+  year: 2026,
+  action: ACTION.BUY_ILS,
+  name: "",
+  symbol: "1159250",
+  quantity: 0,
+  delta: 0,
+  price: 0,
+  currency: "ש\"ח",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+  ...overrides,
+});
+
+describe("security classification", () => {
+  it("separates TASE security numbers from IBI pseudo-tickers", () => {
+    expect(classifySecurity("AAPL")).toBe("us");
+    expect(classifySecurity("1159250")).toBe("tase");
+    expect(classifySecurity("900")).toBe("special");
+    expect(classifySecurity("99028")).toBe("special");
+    expect(classifySecurity("9992983")).toBe("special");
+  });
+
+  it("treats ILS buys and sells as trades only for TASE securities", () => {
+    expect(tradeSide(ACTION.BUY_ILS, "1159250")).toBe("buy");
+    expect(tradeSide(ACTION.SELL_ILS, "1159250")).toBe("sell");
+    expect(tradeSide(ACTION.BUY_ILS, "USD")).toBeNull();
+    expect(tradeSide(ACTION.BUY_ILS, "9992983")).toBeNull();
+    expect(tradeSide(ACTION.SELL_FX, "AAPL")).toBe("sell");
+  });
+
+  it("reads TASE prices quoted in agorot as shekels", () => {
+    expect(toIlsPrice(1500, 100, -1500)).toBe(15);
+    expect(toIlsPrice(15, 100, -1500)).toBe(15);
+  });
+
+  it("maps security numbers to Yahoo symbols", () => {
+    expect(yahooSymbolFor("AAPL")).toBe("AAPL");
+    expect(yahooSymbolFor("1159250")).toBe("1159250.TA");
+    expect(yahooSymbolFor("629014", { "629014": "TEVA.TA" })).toBe("TEVA.TA");
+    expect(normalizeTaseSymbol(" teva ")).toBe("TEVA.TA");
+  });
+
+  it("holds ILS trades in USD at the trade-date rate and values them in ILS", () => {
+    const transactions = convertTaseTrades(
+      [
+        tx({
+          action: ACTION.BUY_FX,
+          symbol: "AAPL",
+          quantity: 1,
+          delta: 1,
+          price: 100,
+          proceedsFx: -100,
+          proceedsIls: -400,
+        }),
+        tx({ quantity: 100, delta: 100, price: 1500, proceedsIls: -1500 }),
+        tx({ action: ACTION.BUY_ILS, symbol: "9992983", quantity: 50, delta: 50 }),
+      ],
+      3.6
+    );
+
+    expect(getStockSymbols(transactions)).toEqual(["1159250", "AAPL"]);
+    const position = computeOpenPosition(transactions, "1159250");
+    expect(position?.currency).toBe("ILS");
+    expect(position?.costBasis).toBe(375);
+    expect(position?.nativeCostBasis).toBe(1500);
+
+    const [valued] = valuePositions(
+      [position!],
+      new Map([["1159250", { symbol: "1159250.TA", price: 20, change: 1, changePercent: 5, previousClose: 19, currency: "ILS" }]]),
+      4
+    );
+    expect(valued.nativeMarketValue).toBe(2000);
+    expect(valued.marketValue).toBe(500);
+    expect(valued.dayChange).toBe(25);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  BUY_ACTIONS,
+  SecurityKind,
+  SELL_ACTIONS,
+  SPECIAL_TICKER,
+  TASE_BUY_ACTIONS,
+  TASE_SELL_ACTIONS,
+  TradeCurrency,
+} from "../types";
+
+// Security classification for "מס' נייר / סימבול". US holdings use their
+// ticker; Tel Aviv holdings use the numeric TASE security number (6–8 digits
+// in practice), which is also the shape of IBI's pseudo-tickers — so the known
+// SPECIAL_TICKER values and short ids like 900 are excluded explicitly.
+
+const SPECIAL_TICKERS: ReadonlySet<string> = new Set(Object.values(SPECIAL_TICKER));
+const MIN_TASE_DIGITS = 5;
+
+export const classifySecurity = (symbol: string): SecurityKind => {
+  const trimmed = symbol.trim();
+  if (!trimmed || SPECIAL_TICKERS.has(trimmed)) return "special";
+  if (!/^\d+$/.test(trimmed)) return "us";
+  return trimmed.length >= MIN_TASE_DIGITS ? "tase" : "special";
+};
+
+export const isTaseSecurity = (symbol: string): boolean => classifySecurity(symbol) === "tase";
+
+// Whether a row buys or sells shares of `symbol`, or null for anything else.
+export const tradeSide = (action: string, symbol: string): "buy" | "sell" | null => {
+  if (BUY_ACTIONS.includes(action)) return "buy";
+  if (SELL_ACTIONS.includes(action)) return "sell";
+  if (!isTaseSecurity(symbol)) return null;
+  if (TASE_BUY_ACTIONS.includes(action)) return "buy";
+  if (TASE_SELL_ACTIONS.includes(action)) return "sell";
+  return null;
+};
+
+// TASE prices ("שער ביצוע") are quoted in agorot while proceeds are in
+// shekels. Detect the unit from the proceeds when they're present so both
+// conventions produce a per-share price in ILS.
+export const toIlsPrice = (price: number, quantity: number, proceedsIls: number): number => {
+  const proceeds = Math.abs(proceedsIls);
+  if (price <= 0 || quantity <= 0 || proceeds === 0) return price;
+  const ratio = (price * quantity) / proceeds;
+  return ratio > 50 && ratio < 200 ? price / 100 : price;
+};
+
+// User-maintained TASE security number → Yahoo symbol table. Unmapped
+// numbers are looked up as "<number>.TA", which Yahoo resolves for many
+// ETFs and funds but not for most shares (those need e.g. "TEVA.TA").
+export const TASE_SYMBOLS_KEY = "ibi_tase_symbols";
+
+export type TaseSymbolMap = Record<string, string>;
+
+export const readTaseSymbols = (storage: Pick<Storage, "getItem">): TaseSymbolMap => {
+  try {
+    const parsed = JSON.parse(storage.getItem(TASE_SYMBOLS_KEY) ?? "{}");
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const saveTaseSymbols = (storage: Pick<Storage, "setItem">, map: TaseSymbolMap) => {
+  try {
+    storage.setItem(TASE_SYMBOLS_KEY, JSON.stringify(map));
+  } catch {
+    /* the mapping is a convenience setting */
+  }
+};
+
+// "teva" → "TEVA.TA"; blank clears the mapping.
+export const normalizeTaseSymbol = (value: string): string => {
+  const cleaned = value.trim().toUpperCase();
+  if (!cleaned) return "";
+  return cleaned.endsWith(".TA") ? cleaned : `${cleaned}.TA`;
+};
+
+// The symbol to ask the price service for.
+export const yahooSymbolFor = (symbol: string, taseSymbols: TaseSymbolMap = {}): string =>
+  isTaseSecurity(symbol) ? taseSymbols[symbol] || `${symbol}.TA` : symbol;
+
+export const currencyFor = (symbol: string): TradeCurrency => (isTaseSecurity(symbol) ? "ILS" : "USD");
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, SPECIAL_TICKER, Transaction } from "../types";
+import { computeRealizedSales } from "./calculations";
+import { reconcileSales, reconcileYears, taxPayments } from "./taxReconciliation";
+
+const tx = (day: number, overrides: Partial<Transaction>): Transaction => ({
+  date: `${String(day).padStart(2, "0")}/01/2026`,
+  timestamp: new Date(2026, 0, day).getTime(),
+  year: 2026,
+  action: ACTION.BUY_FX,
+  name: "TEST US",
+  symbol: "TEST",
+  quantity: 0,
+  delta: 0,
+  price: 0,
+  currency: "$",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+  ...overrides,
+});
+
+describe("tax reconciliation", () => {
+  const transactions = [
+    tx(1, { quantity: 10, delta: 10, price: 100, proceedsFx: -1000, proceedsIls: -4000 }),
+    tx(2, {
+      action: ACTION.SELL_FX,
+      quantity: 10,
+      delta: -10,
+      price: 150,
+      proceedsFx: 1500,
+      proceedsIls: 6000,
+      taxEstimateIls: 500,
+    }),
+    tx(2, { action: ACTION.BUY_ILS, name: "מס ששולם", symbol: SPECIAL_TICKER.CAPITAL_GAINS_TAX, proceedsIls: -300 }),
+  ];
+  const sales = computeRealizedSales(transactions, "TEST", "fifo");
+  const payments = taxPayments(transactions);
+
+  it("lines up each sale with IBI's estimate and that day's debit", () => {
+    const [line] = reconcileSales(sales, payments);
+
+    expect(line.appEstimateIls).toBe(500);
+    expect(line.ibiEstimateIls).toBe(500);
+    expect(line.paidIls).toBe(300);
+    expect(line.mismatch).toBe(false);
+  });
+
+  it("attributes a debit booked a few business days after the sale to it", () => {
+    const debit = (day: number, amount: number) =>
+      tx(day, { action: ACTION.BUY_ILS, name: "מס ששולם", symbol: SPECIAL_TICKER.CAPITAL_GAINS_TAX, proceedsIls: -amount });
+    // sold Friday 02/01; Tuesday 06/01 is two business days later, Friday 09/01 five
+    const late = taxPayments([debit(6, 200), debit(9, 50)]);
+    const [line] = reconcileSales(sales, [...payments, ...late]);
+
+    expect(line.paidIls).toBe(500);
+  });
+
+  it("flags a year where the tax paid falls short of the estimate", () => {
+    const [year] = reconcileYears(sales, payments);
+
+    expect(year).toMatchObject({ year: 2026, appEstimateIls: 500, paidIls: 300, balanceIls: 200, mismatch: true });
+  });
+});
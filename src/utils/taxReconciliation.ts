@@ -0,0 +1,128 @@
+import { CAPITAL_GAINS_TAX_RATE, RealizedSale, SPECIAL_TICKER, Transaction } from "../types";
+
+// Lines up three views of capital-gains tax, all in shekels: the app's own
+// estimate (nominal ILS gain × 25%), IBI's "אומדן מס רווחי הון" on each sell
+// row, and the tax IBI actually debited or refunded (9992983 rows).
+
+export interface TaxPayment {
+  timestamp: number;
+  date: string;
+  account: string;
+  amount: number; // positive = debited, negative = refunded
+}
+
+export interface SaleTaxLine {
+  sale: RealizedSale;
+  appEstimateIls: number;
+  ibiEstimateIls: number;
+  paidIls: number; // debits attributed to the sale date, shared by that day's sales
+  mismatch: boolean;
+}
+
+export interface YearTaxLine {
+  year: number;
+  appEstimateIls: number; // netted over the year, as filed
+  ibiEstimateIls: number;
+  paidIls: number;
+  balanceIls: number; // app estimate - paid: > 0 still owed, < 0 owed back
+  mismatch: boolean;
+}
+
+export const taxPayments = (transactions: Transaction[]): TaxPayment[] =>
+  transactions
+    .filter((t) => t.symbol === SPECIAL_TICKER.CAPITAL_GAINS_TAX && t.proceedsIls !== 0)
+    .map((t) => ({ timestamp: t.timestamp, date: t.date, account: t.account, amount: -t.proceedsIls }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// Figures closer than ₪5 or 5% are treated as agreeing (rounding, fees).
+export const taxMismatch = (a: number, b: number): boolean =>
+  Math.abs(a - b) > Math.max(5, 0.05 * Math.max(Math.abs(a), Math.abs(b)));
+
+const yearOf = (timestamp: number) => new Date(timestamp).getFullYear();
+
+const dayKey = (item: { account: string; date: string }) => `${item.account}|${item.date}`;
+
+// IBI often books the tax debit after the sale (on settlement or later), so
+// a debit belongs to the account's latest sale day at most this many
+// business days (Monday–Friday) before it.
+export const TAX_DEBIT_BUSINESS_DAYS = 3;
+
+const dayStart = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+// Business days after `from` up to and including `to`.
+const businessDaysBetween = (from: number, to: number): number => {
+  let count = 0;
+  const d = new Date(dayStart(from));
+  while (d.getTime() < dayStart(to)) {
+    d.setDate(d.getDate() + 1);
+    if (d.getDay() !== 0 && d.getDay() !== 6) count += 1;
+  }
+  return count;
+};
+
+// The sale day (as a dayKey) a debit belongs to, or null when no sale of its
+// account is close enough before it.
+const saleDayFor = (payment: TaxPayment, sales: RealizedSale[]): string | null => {
+  const sale = sales
+    .filter((s) => s.account === payment.account && dayStart(s.timestamp) <= dayStart(payment.timestamp))
+    .reduce<RealizedSale | null>((latest, s) => (!latest || s.timestamp > latest.timestamp ? s : latest), null);
+  return sale && businessDaysBetween(sale.timestamp, payment.timestamp) <= TAX_DEBIT_BUSINESS_DAYS
+    ? dayKey(sale)
+    : null;
+};
+
+export const reconcileSales = (sales: RealizedSale[], payments: TaxPayment[]): SaleTaxLine[] => {
+  const paidByDay = new Map<string, number>();
+  payments.forEach((p) => {
+    const key = saleDayFor(p, sales);
+    if (key) paidByDay.set(key, (paidByDay.get(key) ?? 0) + p.amount);
+  });
+  const salesByDay = new Map<string, number>();
+  sales.forEach((s) => salesByDay.set(dayKey(s), (salesByDay.get(dayKey(s)) ?? 0) + 1));
+
+  return sales.map((sale) => {
+    const key = dayKey(sale);
+    const ibiEstimateIls = sale.ibiTaxEstimateIls;
+    return {
+      sale,
+      appEstimateIls: sale.capitalGainsTaxIls,
+      ibiEstimateIls,
+      paidIls: (paidByDay.get(key) ?? 0) / (salesByDay.get(key) ?? 1),
+      mismatch: ibiEstimateIls !== 0 && taxMismatch(sale.capitalGainsTaxIls, ibiEstimateIls),
+    };
+  });
+};
+
+export const reconcileYears = (sales: RealizedSale[], payments: TaxPayment[]): YearTaxLine[] => {
+  const years = new Map<number, { net: number; ibi: number; paid: number }>();
+  const entry = (year: number) => {
+    const e = years.get(year) ?? { net: 0, ibi: 0, paid: 0 };
+    years.set(year, e);
+    return e;
+  };
+  sales.forEach((s) => {
+    const e = entry(yearOf(s.timestamp));
+    e.net += s.netFromTradingIls;
+    e.ibi += s.ibiTaxEstimateIls;
+  });
+  payments.forEach((p) => {
+    entry(yearOf(p.timestamp)).paid += p.amount;
+  });
+
+  return Array.from(years.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([year, e]) => {
+      const appEstimateIls = Math.max(0, e.net) * CAPITAL_GAINS_TAX_RATE;
+      return {
+        year,
+        appEstimateIls,
+        ibiEstimateIls: e.ibi,
+        paidIls: e.paid,
+        balanceIls: appEstimateIls - e.paid,
+        mismatch: taxMismatch(appEstimateIls, e.paid),
+      };
+    });
+};
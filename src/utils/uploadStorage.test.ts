@@ -40,6 +40,20 @@ describe("uploaded data storage", () => {
     expect(storage.getItem(UPLOAD_CACHE_KEY)).toBeNull();
   });
 
+  it("keeps per-file row provenance and fills it in for older caches", () => {
+    const storage = createStorage();
+    const now = 1_700_000_000_000;
+    saveCachedUpload(storage, rows, ["a.xlsx", "b.xlsx"], now, [[1]]);
+
+    expect(readCachedUpload(storage, now)?.rowFiles).toEqual([[1]]);
+
+    storage.setItem(
+      UPLOAD_CACHE_KEY,
+      JSON.stringify({ rows, fileNames: ["a.xlsx", "b.xlsx"], expiresAt: now + 1, savedAt: now })
+    );
+    expect(readCachedUpload(storage, now)?.rowFiles).toEqual([[0, 1]]);
+  });
+
   it("clears a saved upload on reset", () => {
     const storage = createStorage();
     saveCachedUpload(storage, rows, ["portfolio.xlsx"]);
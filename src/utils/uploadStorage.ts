@@ -1,4 +1,4 @@
-import type { RawRow } from "../types";
+import { DEFAULT_ACCOUNT, type RawRow } from "../types";
 
 export const UPLOAD_CACHE_KEY = "ibi_uploaded_data";
 export const UPLOAD_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
@@ -7,6 +7,9 @@ type StoredUpload = {
   expiresAt: number;
   fileNames: string[];
   rows: RawRow[];
+  // Per-row provenance: indexes into fileNames of every file containing the row.
+  rowFiles: number[][];
+  fileAccounts: string[]; // account label per file
   savedAt: number;
 };
 
@@ -32,9 +35,21 @@ export const readCachedUpload = (
       return null;
     }
 
+    const fileNames = cached.fileNames as string[];
     return {
       rows: cached.rows as RawRow[],
-      fileNames: cached.fileNames as string[],
+      fileNames,
+      // Caches written before provenance was tracked can't tell files apart,
+      // so every row is attributed to every file.
+      rowFiles:
+        Array.isArray(cached.rowFiles) && cached.rowFiles.length === cached.rows.length
+          ? cached.rowFiles
+          : cached.rows.map(() => fileNames.map((_, i) => i)),
+      // Caches from before accounts were labelled hold a single account.
+      fileAccounts:
+        Array.isArray(cached.fileAccounts) && cached.fileAccounts.length === fileNames.length
+          ? cached.fileAccounts
+          : fileNames.map(() => DEFAULT_ACCOUNT),
       expiresAt: cached.expiresAt,
       // Caches written before this field was added still have a reliable age:
       // their expiry was always calculated as 30 days from upload.
@@ -53,12 +68,16 @@ export const saveCachedUpload = (
   storage: Pick<Storage, "setItem">,
   rows: RawRow[],
   fileNames: string[],
-  now = Date.now()
+  now = Date.now(),
+  rowFiles: number[][] = rows.map(() => fileNames.map((_, i) => i)),
+  fileAccounts: string[] = fileNames.map(() => DEFAULT_ACCOUNT)
 ): CachedUpload | null => {
   try {
     const cached: CachedUpload = {
       rows,
       fileNames,
+      rowFiles,
+      fileAccounts,
       savedAt: now,
       expiresAt: now + UPLOAD_CACHE_TTL_MS,
     };
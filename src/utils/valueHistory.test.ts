@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { ACTION, DEFAULT_ACCOUNT, SPECIAL_TICKER, Transaction } from "../types";
+import { portfolioValuer, sliceRange, symbolsNeedingHistory, valueHistory } from "./valueHistory";
+
+const RATE = 4;
+const at = (month: number, day: number) => new Date(2026, month - 1, day).getTime();
+
+const tx = (timestamp: number, overrides: Partial<Transaction>): Transaction => ({
+  date: "",
+  timestamp,
+  year: 2026,
+  action: ACTION.CASH_TRANSFER,
+  name: "",
+  symbol: SPECIAL_TICKER.DEPOSITS,
+  quantity: 0,
+  delta: 0,
+  price: 0,
+  currency: "ש\"ח",
+  fee: 0,
+  proceedsIls: 0,
+  proceedsFx: 0,
+  taxEstimateIls: 0,
+  account: DEFAULT_ACCOUNT,
+  raw: {} as Transaction["raw"],
+  ...overrides,
+});
+
+const trade = (timestamp: number, action: string, shares: number, price: number) =>
+  tx(timestamp, {
+    action,
+    name: "מסח/ AAA US",
+    symbol: "AAA",
+    currency: "$",
+    quantity: shares,
+    delta: action === ACTION.SELL_FX ? -shares : shares,
+    price,
+    proceedsFx: action === ACTION.SELL_FX ? shares * price : -shares * price,
+  });
+
+const transactions = [
+  tx(at(1, 5), { proceedsIls: 8_000 }),
+  tx(at(1, 5), { action: ACTION.BUY_ILS, name: "דולר", symbol: "USD", proceedsIls: -8_000, proceedsFx: 2_000 }),
+  trade(at(1, 6), ACTION.BUY_FX, 10, 100),
+  trade(at(3, 2), ACTION.SELL_FX, 5, 120),
+];
+
+const histories = new Map([
+  [
+    "AAA",
+    [
+      { date: "2026-01-06", close: 100, volume: 0 },
+      { date: "2026-02-02", close: 110, volume: 0 },
+      { date: "2026-03-02", close: 120, volume: 0 },
+    ],
+  ],
+]);
+
+describe("value history", () => {
+  it("values shares at the day's close plus ledger cash", () => {
+    const valueAt = portfolioValuer(transactions, histories, RATE);
+    expect(valueAt(at(1, 5))).toBe(2_000); // all cash
+    expect(valueAt(at(1, 20))).toBe(2_000); // $1,000 cash + 10 × $100
+    expect(valueAt(at(2, 10))).toBe(2_100);
+    expect(valueAt(at(3, 2))).toBe(2_200); // $1,600 cash + 5 × $120
+  });
+
+  it("falls back to the last trade price without a close", () => {
+    expect(portfolioValuer(transactions, new Map(), RATE)(at(2, 10))).toBe(2_000);
+  });
+
+  it("builds one point per trading day with invested capital", () => {
+    const now = new Date(2026, 2, 10, 12).getTime();
+    const points = valueHistory(transactions, histories, RATE, now);
+
+    expect(points.map((p) => p.date)).toEqual(["05/01/2026", "06/01/2026", "02/02/2026", "02/03/2026", "10/03/2026"]);
+    expect(points.map((p) => p.value)).toEqual([2_000, 2_000, 2_100, 2_200, 2_200]);
+    expect(points.every((p) => p.invested === 2_000)).toBe(true);
+
+    expect(sliceRange(points, "1m", now).map((p) => p.date)).toEqual(["02/03/2026", "10/03/2026"]);
+    expect(sliceRange(points, "all", now)).toHaveLength(5);
+  });
+
+  it("asks for history only for symbols held overnight", () => {
+    const dayTrade = (action: string) => ({ ...trade(at(2, 3), action, 4, 50), symbol: "BBB", name: "מסח/ BBB US" });
+    expect(symbolsNeedingHistory([...transactions, dayTrade(ACTION.BUY_FX), dayTrade(ACTION.SELL_FX)])).toEqual(["AAA"]);
+  });
+});
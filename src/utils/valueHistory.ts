@@ -0,0 +1,208 @@
+import type { Transaction } from "../types";
+import type { HistoricalDataPoint } from "../stockPriceService";
+import { getStockSymbols, tradeTransactions } from "./calculations";
+import { buildCashLedger, CashEntry } from "./cashLedger";
+import { parseDateToTimestamp } from "./dates";
+import { impliedUsdIlsRates, rateAt } from "./fx";
+import { isTaseSecurity } from "./securities";
+
+// Portfolio value reconstructed from the transaction log: on any day, the
+// shares held per the trades times that day's close, plus cash per the ledger,
+// all in USD. Invested capital is the money that came in from outside —
+// deposits less withdrawals — with whatever the account already held on the
+// first day of the export counted as deposited then.
+
+export type ValueRange = "1m" | "3m" | "1y" | "3y" | "all";
+
+export const VALUE_RANGE_LABELS: Record<ValueRange, string> = {
+  "1m": "חודש",
+  "3m": "3 חודשים",
+  "1y": "שנה",
+  "3y": "3 שנים",
+  all: "הכל",
+};
+
+const RANGE_MONTHS: Record<Exclude<ValueRange, "all">, number> = { "1m": 1, "3m": 3, "1y": 12, "3y": 36 };
+
+export interface CashFlow {
+  timestamp: number;
+  amount: number; // USD; positive = money into the portfolio
+}
+
+export interface ValueHistoryPoint {
+  timestamp: number;
+  date: string; // DD/MM/YYYY
+  value: number; // USD, holdings plus cash
+  invested: number; // USD, net money put in so far
+}
+
+const dayStart = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+export const dayLabel = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${String(d.getDate()).padStart(2, "0")}/${String(d.getMonth() + 1).padStart(2, "0")}/${d.getFullYear()}`;
+};
+
+// Index of the last timestamp at or before `timestamp` in a sorted list, or -1.
+const lastAtOrBefore = (timestamps: number[], timestamp: number): number => {
+  let low = 0;
+  let high = timestamps.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (timestamps[mid] <= timestamp) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+// First day with a dated transaction, or null for an empty log.
+export const inceptionDay = (transactions: Transaction[]): number | null => {
+  const timestamps = transactions.filter((t) => t.timestamp > 0).map((t) => t.timestamp);
+  return timestamps.length > 0 ? dayStart(Math.min(...timestamps)) : null;
+};
+
+const entryUsd = (entry: CashEntry, rate: number) => entry.amountIls / rate + entry.amountFx;
+
+// Symbols held at the end of at least one day. Only these are ever valued at
+// a close, so only these need price history; a same-day round trip doesn't.
+export const symbolsNeedingHistory = (transactions: Transaction[]): string[] =>
+  getStockSymbols(transactions).filter((symbol) => {
+    const trades = tradeTransactions(transactions, symbol);
+    return trades.some(
+      (t, i) => t.cumulative > 1e-9 && (i === trades.length - 1 || dayStart(trades[i + 1].timestamp) !== dayStart(t.timestamp))
+    );
+  });
+
+// Deposits and withdrawals in USD at the rate of the day, netted per day.
+export const externalFlows = (transactions: Transaction[], fallbackRate: number): CashFlow[] => {
+  const rates = impliedUsdIlsRates(transactions);
+  const byDay = new Map<number, number>();
+  buildCashLedger(transactions)
+    .filter((e) => e.category === "deposit" || e.category === "withdrawal")
+    .forEach((e) => {
+      const day = dayStart(e.timestamp);
+      byDay.set(day, (byDay.get(day) ?? 0) + entryUsd(e, rateAt(rates, e.timestamp, fallbackRate)));
+    });
+  return Array.from(byDay.entries())
+    .map(([timestamp, amount]) => ({ timestamp, amount }))
+    .filter((f) => f.amount !== 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Portfolio value in USD at the end of a given day: shares held times the last
+// close on or before it (the last trade price when there is no close), plus
+// cash per the ledger. Histories are keyed by IBI symbol; TASE closes are ILS.
+export const portfolioValuer = (
+  transactions: Transaction[],
+  histories: Map<string, HistoricalDataPoint[]>,
+  fallbackRate: number
+): ((timestamp: number) => number) => {
+  const rates = impliedUsdIlsRates(transactions);
+  const securities = getStockSymbols(transactions).map((symbol) => {
+    const trades = tradeTransactions(transactions, symbol);
+    const closes = (histories.get(symbol) ?? [])
+      .map((p) => ({ timestamp: parseDateToTimestamp(p.date), close: p.close }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return {
+      tase: isTaseSecurity(symbol),
+      trades,
+      tradeTimes: trades.map((t) => t.timestamp),
+      closes,
+      closeTimes: closes.map((p) => p.timestamp),
+    };
+  });
+
+  // The ledger is time-sorted and keeps booking order within a day.
+  const ledgers = new Map<string, CashEntry[]>();
+  buildCashLedger(transactions).forEach((e) => {
+    const entries = ledgers.get(e.account);
+    if (entries) entries.push(e);
+    else ledgers.set(e.account, [e]);
+  });
+  const accounts = Array.from(ledgers.values()).map((entries) => ({
+    entries,
+    times: entries.map((e) => e.timestamp),
+  }));
+
+  return (timestamp) => {
+    const rate = rateAt(rates, timestamp, fallbackRate);
+    const holdings = securities.reduce((sum, { tase, trades, tradeTimes, closes, closeTimes }) => {
+      const lastTrade = trades[lastAtOrBefore(tradeTimes, timestamp)];
+      if (!lastTrade || lastTrade.cumulative <= 0) return sum;
+      const close = closes[lastAtOrBefore(closeTimes, timestamp)];
+      const price = close ? (tase ? close.close / rate : close.close) : lastTrade.price;
+      return sum + lastTrade.cumulative * price;
+    }, 0);
+
+    const cash = accounts.reduce((sum, { entries, times }) => {
+      const entry = entries[lastAtOrBefore(times, timestamp)];
+      return entry ? sum + entry.balanceIls / rate + entry.balanceFx : sum;
+    }, 0);
+    return holdings + cash;
+  };
+};
+
+// External flows with the first day's holdings as the opening deposit.
+export const investedFlows = (
+  transactions: Transaction[],
+  valueAt: (timestamp: number) => number,
+  fallbackRate: number
+): CashFlow[] => {
+  const inception = inceptionDay(transactions);
+  if (inception === null) return [];
+  return [
+    { timestamp: inception, amount: valueAt(inception) },
+    ...externalFlows(transactions, fallbackRate).filter((f) => f.timestamp > inception),
+  ];
+};
+
+// One point per trading day (any day with a close or a transaction) from the
+// first transaction through today.
+export const valueHistory = (
+  transactions: Transaction[],
+  histories: Map<string, HistoricalDataPoint[]>,
+  fallbackRate: number,
+  now = Date.now()
+): ValueHistoryPoint[] => {
+  const inception = inceptionDay(transactions);
+  if (inception === null) return [];
+
+  const today = dayStart(now);
+  const days = new Set<number>([inception]);
+  histories.forEach((history) => history.forEach((p) => days.add(parseDateToTimestamp(p.date))));
+  transactions.forEach((t) => days.add(dayStart(t.timestamp)));
+  const timeline = [
+    ...Array.from(days)
+      .filter((day) => day >= inception && day < today)
+      .sort((a, b) => a - b),
+    now,
+  ];
+
+  const valueAt = portfolioValuer(transactions, histories, fallbackRate);
+  const flows = investedFlows(transactions, valueAt, fallbackRate);
+  let invested = 0;
+  let next = 0;
+  return timeline.map((timestamp) => {
+    while (next < flows.length && flows[next].timestamp <= timestamp) {
+      invested += flows[next].amount;
+      next += 1;
+    }
+    return { timestamp, date: dayLabel(timestamp), value: valueAt(timestamp), invested };
+  });
+};
+
+// Points inside a trailing range ending at `now`.
+export const sliceRange = (points: ValueHistoryPoint[], range: ValueRange, now = Date.now()): ValueHistoryPoint[] => {
+  if (range === "all") return points;
+  const d = new Date(now);
+  const start = new Date(d.getFullYear(), d.getMonth() - RANGE_MONTHS[range], d.getDate()).getTime();
+  return points.filter((p) => p.timestamp >= start);
+};